@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Role, User, Dealer, Admin, Game, Bet, LedgerEntry, SubGameType, PrizeRates } from './types';
-import { Icons, GAME_LOGOS } from './constants';
+import { Role, User, Dealer, Admin, Game, Bet, LedgerEntry, SubGameType, PrizeRates, BetPlacementError, BetAllowance, Treasury } from './types';
+import { Icons } from './constants';
+import { formatRupees } from './shared/money';
 import LandingPage from './components/LandingPage';
 import AdminPanel from './components/AdminPanel';
 import DealerPanel from './components/DealerPanel';
@@ -38,10 +39,11 @@ const Header: React.FC = () => {
                     </div>
                 </div>
                 <div className="flex items-center space-x-4">
-                    {typeof account.wallet === 'number' && (
+                    {/* Admins hold no money of their own; the house balance is on the treasury. */}
+                    {typeof account.wallet === 'number' && role !== Role.Admin && (
                         <div className="hidden md:flex items-center bg-slate-800/50 px-4 py-2 rounded-md border border-slate-700 shadow-inner">
                             {React.cloneElement(Icons.wallet, { className: "h-6 w-6 mr-3 text-cyan-400" })}
-                            <span className="font-semibold text-white text-lg tracking-wider">PKR {account.wallet.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                            <span className="font-semibold text-white text-lg tracking-wider">PKR {formatRupees(account.wallet)}</span>
                         </div>
                     )}
                     <button onClick={logout} className="bg-slate-700/50 border border-slate-600 hover:bg-red-500/30 hover:border-red-500/50 text-white font-bold py-2 px-4 rounded-md transition-all duration-300">Logout</button>
@@ -51,13 +53,61 @@ const Header: React.FC = () => {
     );
 };
 
+// --- DELTA SYNC ---
+// /api/{role}/data?since=<cursor> answers with only the rows changed after the cursor and the IDs deleted since.
+type SyncedLedgerEntry = LedgerEntry & { accountId: string; accountType: string };
+
+const entriesFor = (entries: SyncedLedgerEntry[], accountType: string, accountId: string) =>
+    entries.filter(e => e.accountType === accountType && e.accountId.toLowerCase() === accountId.toLowerCase());
+
+const appendLedgerEntries = (ledger: LedgerEntry[], entries: SyncedLedgerEntry[]) => {
+    const known = new Set(ledger.map(e => e.id));
+    const added = entries.filter(e => !known.has(e.id));
+    return added.length > 0 ? [...ledger, ...added] : ledger;
+};
+
+// Deletions apply first, so an ID that was renamed away and later reused ends up present. New rows go to the front.
+const mergeRows = <T extends { id: string }>(current: T[], changed: T[] = [], deleted: string[] = [], combine: (next: T, prev?: T) => T = next => next): T[] => {
+    const gone = new Set(deleted.map(id => id.toLowerCase()));
+    const changedById = new Map(changed.map(row => [row.id.toLowerCase(), row]));
+    const kept = current.filter(row => !gone.has(row.id.toLowerCase()) || changedById.has(row.id.toLowerCase()));
+    const keptIds = new Set(kept.map(row => row.id.toLowerCase()));
+    const updated = kept.map(row => {
+        const next = changedById.get(row.id.toLowerCase());
+        return next ? combine(next, row) : row;
+    });
+    return [...changed.filter(row => !keptIds.has(row.id.toLowerCase())).map(row => combine(row)), ...updated];
+};
+
+// Changed accounts arrive without a ledger: they keep the one already loaded and gain any new entries.
+const mergeAccounts = <T extends User | Dealer>(current: T[], changed: T[] | undefined, deleted: string[] | undefined, entries: SyncedLedgerEntry[], accountType: string): T[] =>
+    mergeRows(current, changed, deleted, (next, prev) => ({ ...next, ledger: prev ? prev.ledger : [] })).map(acc => {
+        const ledger = appendLedgerEntries(acc.ledger, entriesFor(entries, accountType, acc.id));
+        return ledger === acc.ledger ? acc : { ...acc, ledger };
+    });
+
+// Polling intervals while the live event stream is down. While it is up, data is refetched when an event
+// says it changed, plus a slow resync for changes that raise no event (profile edits, new accounts).
+const PRIVATE_POLL_MS = 3000;
+const PUBLIC_POLL_MS = 5000;
+const LIVE_RESYNC_MS = 60000;
+// Events arriving in a burst (a settlement touches many wallets) trigger one refetch.
+const LIVE_REFETCH_DELAY_MS = 300;
+// Matches the stream's 'retry' hint, for reconnects EventSource gives up on (an expired stream ticket).
+const LIVE_RECONNECT_MS = 5000;
+
 const AppContent: React.FC = () => {
-    const { role, account, loading, fetchWithAuth, verifyData, setAccount } = useAuth();
+    const { role, account, loading, token, fetchWithAuth, verifyData, setAccount } = useAuth();
     const [users, setUsers] = useState<User[]>([]);
     const [dealers, setDealers] = useState<Dealer[]>([]);
+    const [treasury, setTreasury] = useState<Treasury | null>(null);
     const [games, setGames] = useState<Game[]>([]);
     const [bets, setBets] = useState<Bet[]>([]);
+    const [allowances, setAllowances] = useState<BetAllowance[]>([]);
+    const [betVoidGraceMinutes, setBetVoidGraceMinutes] = useState(0);
     const [hasInitialFetched, setHasInitialFetched] = useState(false);
+    const [isLive, setIsLive] = useState(false);
+    const syncCursorRef = useRef<number | null>(null);
 
     const [activeReveal, setActiveReveal] = useState<{ name: string; number: string } | null>(null);
     const lastGamesRef = useRef<Game[]>([]);
@@ -73,6 +123,8 @@ const AppContent: React.FC = () => {
         if (data.dealers && Array.isArray(data.dealers)) data.dealers = data.dealers.map((d: Dealer) => d ? ({ ...d, ledger: parseLedger(d.ledger) }) : null).filter(Boolean);
         if (data.bets && Array.isArray(data.bets)) data.bets = data.bets.map((b: Bet) => ({ ...b, timestamp: new Date(b.timestamp) }));
         if (data.account && data.account.ledger) data.account.ledger = parseLedger(data.account.ledger);
+        if (data.treasury && data.treasury.ledger) data.treasury.ledger = parseLedger(data.treasury.ledger);
+        if (data.ledgerEntries) data.ledgerEntries = parseLedger(data.ledgerEntries);
         return data;
     }, []);
 
@@ -87,13 +139,33 @@ const AppContent: React.FC = () => {
         if (!role) return;
         try {
             const endpoint = role === Role.Admin ? '/api/admin/data' : (role === Role.Dealer ? '/api/dealer/data' : '/api/user/data');
-            const response = await fetchWithAuth(endpoint);
+            const since = syncCursorRef.current;
+            const response = await fetchWithAuth(since === null ? endpoint : `${endpoint}?since=${since}`);
             if (response.ok) {
                 const parsedData = parseAllDates(await response.json());
-                if (parsedData.account) setAccount(parsedData.account);
-                if (role === Role.Admin) { setUsers(parsedData.users); setDealers(parsedData.dealers); setBets(parsedData.bets); }
-                else if (role === Role.Dealer) { setUsers(parsedData.users); setBets(parsedData.bets); }
-                else { setBets(parsedData.bets); }
+                // A slower response from before the last one applied would roll rows back.
+                if (syncCursorRef.current !== null && parsedData.cursor < syncCursorRef.current) return;
+                if (parsedData.delta) {
+                    const entries: SyncedLedgerEntry[] = parsedData.ledgerEntries || [];
+                    const deleted = parsedData.deleted || {};
+                    if (role === Role.Admin) {
+                        setAccount(parsedData.account);
+                        setTreasury(prev => prev && { ...parsedData.treasury, ledger: appendLedgerEntries(prev.ledger, entriesFor(entries, 'TREASURY', prev.id)) });
+                        setDealers(prev => mergeAccounts(prev, parsedData.dealers, deleted.dealers, entries, 'DEALER'));
+                    } else if (parsedData.account) {
+                        const accountType = role === Role.Dealer ? 'DEALER' : 'USER';
+                        setAccount(prev => ({ ...parsedData.account, ledger: appendLedgerEntries(prev?.ledger || [], entriesFor(entries, accountType, parsedData.account.id)) }));
+                    }
+                    if (role !== Role.User) setUsers(prev => mergeAccounts(prev, parsedData.users, deleted.users, entries, 'USER'));
+                    setBets(prev => mergeRows(prev, parsedData.bets, deleted.bets));
+                    if (role === Role.User) { setAllowances(parsedData.allowances || []); setBetVoidGraceMinutes(parsedData.betVoidGraceMinutes || 0); }
+                } else {
+                    if (parsedData.account) setAccount(parsedData.account);
+                    if (role === Role.Admin) { setUsers(parsedData.users); setDealers(parsedData.dealers); setBets(parsedData.bets); setTreasury(parsedData.treasury); }
+                    else if (role === Role.Dealer) { setUsers(parsedData.users); setBets(parsedData.bets); }
+                    else { setBets(parsedData.bets); setAllowances(parsedData.allowances || []); setBetVoidGraceMinutes(parsedData.betVoidGraceMinutes || 0); }
+                }
+                syncCursorRef.current = typeof parsedData.cursor === 'number' ? parsedData.cursor : null;
                 setHasInitialFetched(true);
             }
         } catch (error) {
@@ -107,26 +179,83 @@ const AppContent: React.FC = () => {
             if (parsed.users) setUsers(parsed.users);
             if (parsed.dealers) setDealers(parsed.dealers);
             if (parsed.bets) setBets(parsed.bets);
+            if (parsed.allowances) setAllowances(parsed.allowances);
+            if (parsed.betVoidGraceMinutes) setBetVoidGraceMinutes(parsed.betVoidGraceMinutes);
             setHasInitialFetched(true);
         }
     }, [loading, verifyData]);
 
     useEffect(() => {
         fetchPublicData();
-        const interval = setInterval(fetchPublicData, 5000);
+        const interval = setInterval(fetchPublicData, isLive ? LIVE_RESYNC_MS : PUBLIC_POLL_MS);
         return () => clearInterval(interval);
-    }, [fetchPublicData]);
+    }, [fetchPublicData, isLive]);
 
     useEffect(() => {
         if (role) {
             if (!hasInitialFetched) fetchPrivateData();
-            const interval = setInterval(fetchPrivateData, 3000);
+            const interval = setInterval(fetchPrivateData, isLive ? LIVE_RESYNC_MS : PRIVATE_POLL_MS);
             return () => clearInterval(interval);
         } else {
+            syncCursorRef.current = null;
             setHasInitialFetched(false);
-            setUsers([]); setBets([]); setDealers([]);
+            setUsers([]); setBets([]); setDealers([]); setAllowances([]);
+        }
+    }, [role, fetchPrivateData, isLive]);
+
+    // Server push channel. EventSource reconnects on its own; until it does, the intervals above poll as before.
+    // A signed-in stream needs a fresh ticket each time, so once the server refuses an old one we fetch another.
+    useEffect(() => {
+        if (typeof EventSource === 'undefined') return;
+        let source: EventSource | null = null;
+        let stopped = false;
+        let reconnectTimer = 0;
+        const timers: { [key: string]: number } = {};
+        const refetchSoon = (key: string, refetch: () => void) => {
+            if (timers[key]) return;
+            timers[key] = window.setTimeout(() => { delete timers[key]; refetch(); }, LIVE_REFETCH_DELAY_MS);
+        };
+        const refetchPrivate = () => refetchSoon('private', fetchPrivateData);
+        const refetchPublic = () => refetchSoon('public', fetchPublicData);
+        const reconnectLater = () => { if (!stopped) reconnectTimer = window.setTimeout(connect, LIVE_RECONNECT_MS); };
+
+        async function connect() {
+            let url = '/api/events';
+            if (token && role) {
+                try {
+                    const res = await fetchWithAuth('/api/events/ticket', { method: 'POST' });
+                    if (!res.ok) throw new Error('Failed to open the live stream.');
+                    url += `?ticket=${encodeURIComponent((await res.json()).ticket)}`;
+                } catch {
+                    reconnectLater();
+                    return;
+                }
+            }
+            if (stopped) return;
+            const current = new EventSource(url);
+            source = current;
+            current.onopen = () => { setIsLive(true); refetchPublic(); refetchPrivate(); };
+            current.onerror = () => {
+                setIsLive(false);
+                if (current.readyState === EventSource.CLOSED) reconnectLater();
+            };
+            current.addEventListener('wallet', refetchPrivate);
+            current.addEventListener('bet', refetchPrivate);
+            // Settling a result changes bet statuses as well as the games list.
+            current.addEventListener('result', () => { refetchPublic(); refetchPrivate(); });
+            current.addEventListener('payouts', () => { refetchPublic(); refetchPrivate(); });
+            current.addEventListener('market', refetchPublic);
+            current.addEventListener('game', refetchPublic);
         }
-    }, [role, fetchPrivateData]);
+        connect();
+        return () => {
+            stopped = true;
+            clearTimeout(reconnectTimer);
+            if (source) source.close();
+            Object.values(timers).forEach(clearTimeout);
+            setIsLive(false);
+        };
+    }, [token, role, fetchWithAuth, fetchPrivateData, fetchPublicData]);
 
     useEffect(() => {
         if (games.length > 0 && lastGamesRef.current.length > 0) {
@@ -140,15 +269,25 @@ const AppContent: React.FC = () => {
         lastGamesRef.current = games;
     }, [games]);
 
+    // Keeps the per-number limit breakdown from the server alongside the message.
+    const toBetPlacementError = (e: any): BetPlacementError => Object.assign(new Error(e.message || 'Bet failed'), { violations: e.violations });
+
     const placeBet = async (d: any) => {
         const res = await fetchWithAuth('/api/user/bets', { method: 'POST', body: JSON.stringify(d) });
-        if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Bet failed'); }
+        if (!res.ok) { const e = await res.json().catch(() => ({})); throw toBetPlacementError(e); }
         fetchPrivateData();
     };
 
     const placeBetAsDealer = async (d: any) => {
         const res = await fetchWithAuth('/api/dealer/bets/bulk', { method: 'POST', body: JSON.stringify(d) });
-        if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Bet failed'); }
+        if (!res.ok) { const e = await res.json().catch(() => ({})); throw toBetPlacementError(e); }
+        fetchPrivateData();
+    };
+
+    const voidBet = async (betId: string) => {
+        const scope = role === Role.Admin ? 'admin' : (role === Role.Dealer ? 'dealer' : 'user');
+        const res = await fetchWithAuth(`/api/${scope}/bets/${betId}/void`, { method: 'POST' });
+        if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Void failed'); }
         fetchPrivateData();
     };
 
@@ -165,9 +304,9 @@ const AppContent: React.FC = () => {
         fetchPrivateData();
     };
 
-    const onDeleteUser = async (uId: string) => {
-        const res = await fetchWithAuth(`/api/dealer/users/${uId}`, { method: 'DELETE' });
-        if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Failed to delete user'); }
+    const onCloseUser = async (uId: string) => {
+        const res = await fetchWithAuth(`/api/dealer/users/${uId}/close`, { method: 'POST' });
+        if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Failed to close account'); }
         fetchPrivateData();
     };
 
@@ -181,12 +320,12 @@ const AppContent: React.FC = () => {
                 <>
                     <Header />
                     <main className="flex-grow">
-                        {role === Role.User && <UserPanel user={account as User} games={games} bets={bets} placeBet={placeBet} />}
+                        {role === Role.User && <UserPanel user={account as User} games={games} bets={bets} allowances={allowances} placeBet={placeBet} voidBet={voidBet} betVoidGraceMinutes={betVoidGraceMinutes} />}
                         {role === Role.Dealer && (
                             <DealerPanel
                                 dealer={account as Dealer} users={users}
                                 onSaveUser={onSaveUser}
-                                onDeleteUser={onDeleteUser}
+                                onCloseUser={onCloseUser}
                                 topUpUserWallet={async (id, amt) => {
                                     const res = await fetchWithAuth('/api/dealer/topup/user', { method: 'POST', body: JSON.stringify({ userId: id, amount: amt }) });
                                     if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Top-up failed'); }
@@ -202,12 +341,12 @@ const AppContent: React.FC = () => {
                                     if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Toggle failed'); }
                                     fetchPrivateData();
                                 }}
-                                bets={bets} games={games} placeBetAsDealer={placeBetAsDealer} isLoaded={hasInitialFetched}
+                                bets={bets} games={games} placeBetAsDealer={placeBetAsDealer} voidBet={voidBet} isLoaded={hasInitialFetched}
                             />
                         )}
                         {role === Role.Admin && (
                             <AdminPanel
-                                admin={account as Admin} dealers={dealers}
+                                admin={account as Admin} treasury={treasury} dealers={dealers}
                                 onSaveDealer={async (d, o) => {
                                     const url = o ? `/api/admin/dealers/${o}` : '/api/admin/dealers';
                                     const res = await fetchWithAuth(url, { method: o ? 'PUT' : 'POST', body: JSON.stringify(d) });
@@ -235,6 +374,21 @@ const AppContent: React.FC = () => {
                                     if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Approval failed'); }
                                     fetchPrivateData();
                                 }}
+                                confirmResult={async (id) => {
+                                    const res = await fetchWithAuth(`/api/admin/games/${id}/confirm-result`, { method: 'POST' });
+                                    if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Confirmation failed'); }
+                                    fetchPrivateData();
+                                }}
+                                setApprovalHold={async (id, held) => {
+                                    const res = await fetchWithAuth(`/api/admin/games/${id}/${held ? 'hold' : 'release'}-approval`, { method: 'POST' });
+                                    if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Update failed'); }
+                                    fetchPrivateData();
+                                }}
+                                resettleGame={async (id, num, reason) => {
+                                    const res = await fetchWithAuth(`/api/admin/games/${id}/resettle`, { method: 'POST', body: JSON.stringify({ newWinningNumber: num, reason }) });
+                                    if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Re-settlement failed'); }
+                                    fetchPrivateData();
+                                }}
                                 topUpDealerWallet={async (id, amt) => {
                                     const res = await fetchWithAuth('/api/admin/topup/dealer', { method: 'POST', body: JSON.stringify({ dealerId: id, amount: amt }) });
                                     if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Top-up failed'); }
@@ -252,7 +406,7 @@ const AppContent: React.FC = () => {
                                 }}
                                 onPlaceAdminBets={async (d) => {
                                     const res = await fetchWithAuth('/api/admin/bulk-bet', { method: 'POST', body: JSON.stringify(d) });
-                                    if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Bet failed'); }
+                                    if (!res.ok) { const e = await res.json().catch(() => ({})); throw toBetPlacementError(e); }
                                     fetchPrivateData();
                                 }}
                                 updateGameDrawTime={async (id, time) => {
@@ -260,7 +414,8 @@ const AppContent: React.FC = () => {
                                     if (!res.ok) { const e = await res.json().catch(() => ({})); throw new Error(e.message || 'Update failed'); }
                                     fetchPrivateData();
                                 }}
-                                onRefreshData={fetchPrivateData}
+                                voidBet={voidBet}
+                                onRefreshData={async () => { await Promise.all([fetchPrivateData(), fetchPublicData()]); }}
                             />
                         )}
                     </main>
@@ -1,5 +1,5 @@
 const jwt = require('jsonwebtoken');
-const { JWT_SECRET } = require('./config');
+const { JWT_SECRET, STREAM_TICKET_AUDIENCE } = require('./config');
 
 // FIX: Import JWT_SECRET from shared config instead of reading raw env var.
 // Previously, process.env.JWT_SECRET could be undefined in dev, causing all
@@ -15,10 +15,12 @@ const authMiddleware = (req, res, next) => {
 
     try {
         const decoded = jwt.verify(token, JWT_SECRET);
+        if (decoded.aud === STREAM_TICKET_AUDIENCE) throw new Error('A stream ticket is not an API token.');
         req.user = decoded; // Adds { id, role } to the request object
         next();
     } catch (error) {
-        return res.status(403).json({ message: 'Invalid or expired token.' });
+        // 401 rather than 403: the client ends the session on 401 only, so a refused permission does not log an admin out.
+        return res.status(401).json({ message: 'Invalid or expired token.' });
     }
 };
 
@@ -0,0 +1,51 @@
+// Change sequence for delta sync. Triggers stamp every inserted or updated row with the next value of one
+// database-wide counter (changeSeq), and record deleted or renamed IDs in sync_deletions, so a client holding
+// cursor N can ask for just the rows that changed after N whichever code path wrote them.
+
+// Tracked tables, each with the column a deletion is scoped by (so a dealer only learns about their own users and bets).
+const SYNC_TABLES = {
+    users: 'dealerId',
+    dealers: null,
+    bets: 'dealerId',
+    ledgers: null,
+    treasury: null,
+    games: null, // not delta-synced; stamped so the live game watcher can spot edits
+};
+
+const SYNC_STATE_SQL = `
+    CREATE TABLE IF NOT EXISTS sync_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        seq INTEGER NOT NULL
+    );
+    INSERT OR IGNORE INTO sync_state (id, seq) VALUES (1, 0);
+    CREATE TABLE IF NOT EXISTS sync_deletions (
+        seq INTEGER NOT NULL,
+        tableName TEXT NOT NULL,
+        rowId TEXT NOT NULL,
+        scopeId TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_sync_deletions_seq ON sync_deletions(seq);
+`;
+
+// Recursive triggers are off in SQLite, so stamping changeSeq from inside a trigger does not fire it again.
+const changeTrackingSql = (table) => {
+    const scope = SYNC_TABLES[table] ? 'OLD.' + SYNC_TABLES[table] : 'NULL';
+    const stamp = `
+            UPDATE sync_state SET seq = seq + 1;
+            UPDATE ${table} SET changeSeq = (SELECT seq FROM sync_state) WHERE rowid = NEW.rowid;`;
+    const tombstone = `
+            UPDATE sync_state SET seq = seq + 1;
+            INSERT INTO sync_deletions (seq, tableName, rowId, scopeId) SELECT seq, '${table}', OLD.id, ${scope} FROM sync_state;`;
+    return `
+        CREATE TRIGGER IF NOT EXISTS ${table}_sync_insert AFTER INSERT ON ${table} BEGIN${stamp}
+        END;
+        CREATE TRIGGER IF NOT EXISTS ${table}_sync_update AFTER UPDATE ON ${table} WHEN NEW.changeSeq IS OLD.changeSeq BEGIN${stamp}
+        END;
+        CREATE TRIGGER IF NOT EXISTS ${table}_sync_rename AFTER UPDATE OF id ON ${table} WHEN NEW.id IS NOT OLD.id BEGIN${tombstone}
+        END;
+        CREATE TRIGGER IF NOT EXISTS ${table}_sync_delete AFTER DELETE ON ${table} BEGIN${tombstone}
+        END;
+    `;
+};
+
+module.exports = { SYNC_TABLES, SYNC_STATE_SQL, changeTrackingSql };
@@ -1,7 +1,23 @@
 // Shared configuration — single source of truth for JWT secret.
 // Both server.js and authMiddleware.js import from here so they always agree.
+const path = require('path');
 require('dotenv').config();
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev_secret';
 
-module.exports = { JWT_SECRET };
+// How long after placement a player may cancel their own bet (market must still be open).
+const BET_VOID_GRACE_MINUTES = Number(process.env.BET_VOID_GRACE_MINUTES) || 5;
+
+// SQLite file used by the server and setup-database.js; tests point it at a scratch copy.
+const DB_PATH = process.env.DB_PATH || path.join(__dirname, 'database.sqlite');
+
+// Account ID of the house treasury that all house money posts to.
+const TREASURY_ID = 'treasury';
+
+// Express 'trust proxy' setting: which hops may set X-Forwarded-For. The default trusts a proxy on the same machine.
+const TRUST_PROXY = process.env.TRUST_PROXY || 'loopback';
+
+// JWT audience of /api/events stream tickets, which authMiddleware refuses as API tokens.
+const STREAM_TICKET_AUDIENCE = 'events';
+
+module.exports = { JWT_SECRET, BET_VOID_GRACE_MINUTES, DB_PATH, TREASURY_ID, TRUST_PROXY, STREAM_TICKET_AUDIENCE };
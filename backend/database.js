@@ -1,12 +1,26 @@
-const path = require('path');
+const { EventEmitter } = require('events');
 const Database = require('better-sqlite3');
 const { v4: uuidv4 } = require('uuid');
 const bcrypt = require('bcrypt');
+const { BET_VOID_GRACE_MINUTES, DB_PATH, TREASURY_ID } = require('./config');
+const { DEFAULT_GAME_LOGOS } = require('./defaultGameLogos');
+const { GENESIS_HASH, hashLedgerEntry } = require('./ledgerChain');
+const { SYNC_TABLES, SYNC_STATE_SQL, changeTrackingSql } = require('./changeTracking');
+const { createMarketSchedule, getMarketCycle, getMarketDate, getCycleDate: getCycleDateAt, isValidTime, DEFAULT_OPEN_TIME } = require('./shared/schedule');
+const { toPaisa, toRupees, percentOf, multiply, sumPaisa, isPaisa, parseRupeeAmount } = require('./shared/money');
 
-const DB_PATH = path.join(__dirname, 'database.sqlite');
 const BCRYPT_ROUNDS = 10;
 let db;
 
+// Emits 'wallet' and 'bet' for the server's live event stream once the write has committed. Changes made inside
+// runInTransaction wait for the outermost transaction and are dropped with any part of it that rolls back.
+const changes = new EventEmitter();
+let queuedChanges = null;
+const emitChange = (type, data) => {
+    if (queuedChanges) queuedChanges.push({ type, data });
+    else changes.emit(type, data);
+};
+
 // --- LOGGING HELPERS ---
 function logError(context, err) {
     const msg = (err && err.message) ? err.message : JSON.stringify(err);
@@ -14,44 +28,102 @@ function logError(context, err) {
 }
 
 // --- CENTRALIZED GAME TIMING LOGIC (PKT TIMEZONE) ---
-function isGameOpen(drawTime) {
-    try {
-        if (!drawTime || typeof drawTime !== 'string') return false;
-        const now = new Date();
-        // PKT is UTC+5. We add 5h to UTC time to get PKT-equivalent UTC fields.
-        const pktBias = new Date(now.getTime() + (5 * 60 * 60 * 1000));
-        const timeParts = drawTime.split(':');
-        if (timeParts.length !== 2) return false;
-
-        const drawH = parseInt(timeParts[0], 10);
-        const drawM = parseInt(timeParts[1], 10);
-        const pktH = pktBias.getUTCHours();
-
-        const currentCycleStart = new Date(pktBias);
-        currentCycleStart.setUTCHours(16, 0, 0, 0);
-        if (pktH < 16) {
-            currentCycleStart.setUTCDate(currentCycleStart.getUTCDate() - 1);
-        }
+// The cycle math lives in shared/schedule.ts so the countdown hook computes exactly the same times.
+const schedule = createMarketSchedule();
+const getGameCycle = (game, now = schedule.now()) => getMarketCycle(game, now);
+const isGameOpen = (game) => schedule.isOpen(game);
+const getCycleDate = (game, now = schedule.now()) => getCycleDateAt(game, now);
+
+// Holiday closure covering the game's current cycle (or the given cycle date), if any. A closure without a gameId
+// closes every market.
+const findMarketClosure = (game, cycleDate = getCycleDate(game)) => db.prepare('SELECT * FROM market_closures WHERE date = ? AND (gameId IS NULL OR gameId = ?) ORDER BY gameId IS NULL LIMIT 1')
+    .get(cycleDate, game.id);
+
+// The cycle a game's result belongs to. It is stored with the result because a holiday skips the reset and keeps
+// the result past its own cycle.
+const getResultCycleDate = (game) => game.resultCycleDate || getCycleDate(game);
+
+// Retired, suspended and holiday games never open, whatever the clock says.
+const applyMarketState = (game) => {
+    const closure = findMarketClosure(game);
+    game.isArchived = !!game.isArchived;
+    game.isSuspended = !!game.isSuspended;
+    game.isHoliday = !!closure;
+    game.holidayReason = closure ? closure.reason : null;
+    game.isMarketOpen = !game.isArchived && !game.isSuspended && !game.isHoliday && isGameOpen(game);
+    game.approvalHeld = !!game.approvalHeld;
+    game.awaitingConfirmation = isAwaitingConfirmation(game);
+    game.autoApproveAt = getAutoApproveAt(game);
+};
 
-        const currentCycleEnd = new Date(currentCycleStart);
-        currentCycleEnd.setUTCHours(drawH, drawM, 0, 0);
-        if (drawH < 16) {
-            currentCycleEnd.setUTCDate(currentCycleEnd.getUTCDate() + 1);
-        }
+// With maker-checker on, a final result needs a second admin's confirmation before it can be paid out.
+const isAwaitingConfirmation = (game) => isMakerCheckerEnabled() && !game.payoutsApproved && !game.confirmedBy
+    && !!game.winningNumber && !game.winningNumber.endsWith('_');
+
+// When a final, unapproved result will be approved automatically; null when the game has no policy, is on hold
+// or is still waiting for confirmation. A confirmation restarts the delay.
+const getAutoApproveAt = (game) => {
+    if (!game.autoApproveMinutes || game.approvalHeld || game.payoutsApproved || !game.resultChangedAt) return null;
+    if (!game.winningNumber || game.winningNumber.endsWith('_') || isAwaitingConfirmation(game)) return null;
+    const startedAt = game.confirmedAt && game.confirmedAt > game.resultChangedAt ? game.confirmedAt : game.resultChangedAt;
+    return new Date(new Date(startedAt).getTime() + game.autoApproveMinutes * 60 * 1000).toISOString();
+};
 
-        return pktBias >= currentCycleStart && pktBias < currentCycleEnd;
-    } catch (e) {
-        return false;
+// --- SETTINGS ---
+// System-wide switches that do not belong to any one account.
+const getSetting = (key, fallback = null) => {
+    const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key);
+    return row ? row.value : fallback;
+};
+const setSetting = (key, value) => db.prepare('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value').run(key, String(value));
+
+const isMakerCheckerEnabled = () => getSetting('makerChecker') === '1';
+
+const getApprovalPolicy = () => ({ makerChecker: isMakerCheckerEnabled() });
+
+const setMakerChecker = (enabled) => {
+    if (enabled && db.prepare('SELECT COUNT(*) AS n FROM admins').get().n < 2) {
+        throw new Error('Maker-checker needs at least two admin accounts.');
     }
-}
+    setSetting('makerChecker', enabled ? 1 : 0);
+    return getApprovalPolicy();
+};
+
+// --- ADMIN PERMISSIONS ---
+// Stored per admin as a JSON array; NULL (the primary admin and admins created before permissions existed) means all.
+const ADMIN_PERMISSIONS = ['results', 'payouts', 'funding', 'limits', 'accounts', 'bets', 'games', 'admins'];
+
+const parseAdminPermissions = (raw) => raw == null ? [...ADMIN_PERMISSIONS] : JSON.parse(raw);
+
+const validateAdminPermissions = (permissions) => {
+    if (!Array.isArray(permissions)) throw new Error('Permissions must be a list.');
+    const unknown = permissions.find(p => !ADMIN_PERMISSIONS.includes(p));
+    if (unknown) throw new Error('Unknown permission: ' + unknown);
+    return [...new Set(permissions)];
+};
+
+const hasAdminPermission = (adminId, permission) => {
+    const row = db.prepare('SELECT permissions FROM admins WHERE LOWER(id) = LOWER(?)').get(adminId);
+    return !!row && parseAdminPermissions(row.permissions).includes(permission);
+};
 
 // FIX: Fetch the first admin dynamically instead of using a hardcoded ID.
+// The oldest admin is the primary admin: it always keeps every permission and its rates seed new admins.
 function getAdminAccount() {
-    const row = db.prepare('SELECT id FROM admins LIMIT 1').get();
+    const row = db.prepare('SELECT id FROM admins ORDER BY rowid LIMIT 1').get();
     if (!row) throw new Error('No admin account found in database.');
     return findAccountById(row.id, 'admins');
 }
 
+// The house's money: every stake, commission, payout and dealer funding posts here. Admins only operate on it.
+// Its ledger is looked up by type so an account that happens to share its ID cannot mix in.
+const getTreasuryAccount = () => {
+    const treasury = inRupees('treasury', db.prepare('SELECT * FROM treasury WHERE id = ?').get(TREASURY_ID));
+    if (!treasury) throw new Error('Treasury account not found in database.');
+    treasury.ledger = db.prepare("SELECT * FROM ledgers WHERE accountType = 'TREASURY' ORDER BY timestamp ASC").all().map(ledgerInRupees);
+    return treasury;
+};
+
 // --- PASSWORD HELPERS ---
 // All passwords are bcrypt-hashed before storage.
 // FIX: Idempotent — if the value is already a bcrypt hash (starts with '$2'),
@@ -123,18 +195,281 @@ const migratePasswords = () => {
     }
 };
 
+// Number limits used to be global per (gameType, numberValue). Rebuild the table
+// with optional gameId / dealerId scope columns; existing rows become global limits.
+const migrateNumberLimits = () => {
+    const columns = db.prepare('PRAGMA table_info(number_limits)').all().map(c => c.name);
+    if (columns.includes('gameId')) return;
+    runInTransaction(() => {
+        db.exec(`
+            CREATE TABLE number_limits_scoped (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                gameType TEXT NOT NULL,
+                numberValue TEXT NOT NULL,
+                limitAmount REAL NOT NULL,
+                gameId TEXT,
+                dealerId TEXT
+            );
+            INSERT INTO number_limits_scoped (id, gameType, numberValue, limitAmount)
+                SELECT id, gameType, numberValue, limitAmount FROM number_limits;
+            DROP TABLE number_limits;
+            ALTER TABLE number_limits_scoped RENAME TO number_limits;
+            CREATE UNIQUE INDEX idx_number_limits_scope ON number_limits(gameType, numberValue, IFNULL(gameId, ''), IFNULL(dealerId, ''));
+        `);
+    });
+    console.log('--- [DATABASE] Migrated number_limits to per-game / per-dealer scope. ---');
+};
+
+// House money used to sit in whichever admin row came first. Move every admin ledger row onto the treasury,
+// replaying the running balance since several admins' rows may now interleave.
+const migrateTreasury = () => {
+    if (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'treasury'").get()) return;
+    runInTransaction(() => {
+        db.exec('CREATE TABLE treasury (id TEXT PRIMARY KEY, name TEXT NOT NULL, wallet REAL NOT NULL DEFAULT 0)');
+        db.prepare("INSERT INTO treasury (id, name, wallet) VALUES (?, 'House Treasury', 0)").run(TREASURY_ID);
+        const rows = db.prepare("SELECT id, debit, credit FROM ledgers WHERE accountType = 'ADMIN' ORDER BY timestamp, rowid").all();
+        const setBalance = db.prepare("UPDATE ledgers SET accountId = ?, accountType = 'TREASURY', balance = ? WHERE id = ?");
+        let balance = 0;
+        rows.forEach(r => {
+            balance = toRupees(toPaisa(balance) - toPaisa(r.debit) + toPaisa(r.credit));
+            setBalance.run(TREASURY_ID, balance, r.id);
+        });
+        // With no history to replay, carry over whatever the admin wallets held.
+        if (rows.length === 0) balance = db.prepare('SELECT COALESCE(SUM(wallet), 0) AS total FROM admins').get().total;
+        db.prepare('UPDATE treasury SET wallet = ? WHERE id = ?').run(balance, TREASURY_ID);
+        db.prepare('UPDATE admins SET wallet = 0').run();
+        console.log('--- [DATABASE] Moved ' + rows.length + ' admin ledger row(s) to the house treasury. ---');
+    });
+};
+
+// Money used to be stored as REAL rupees. SQLite cannot change a column's type in place, so each table that still
+// has a REAL money column is copied into a new one with INTEGER paisa columns (rowids kept, since the ledger chain
+// follows them) and its indexes and triggers are put back. Ledger hashes cover rupee amounts, so chains still verify.
+const migrateMoneyToPaisa = () => {
+    const pending = Object.keys(MONEY_COLUMNS).filter(table => db.prepare('PRAGMA table_info(' + table + ')').all()
+        .some(c => MONEY_COLUMNS[table].includes(c.name) && c.type.toUpperCase() !== 'INTEGER'));
+    if (pending.length === 0) return;
+    db.function('to_paisa', { deterministic: true }, (v) => v === null ? null : toPaisa(v));
+    db.pragma('foreign_keys = OFF');
+    try {
+        runInTransaction(() => {
+            pending.forEach(table => {
+                const money = MONEY_COLUMNS[table];
+                const info = db.prepare('PRAGMA table_info(' + table + ')').all();
+                const schema = db.prepare('SELECT type, sql FROM sqlite_master WHERE tbl_name = ? AND sql IS NOT NULL').all(table);
+                const createSql = schema.find(o => o.type === 'table').sql
+                    .replace(/^CREATE TABLE\s+("?)\w+\1/i, 'CREATE TABLE ' + table + '_paisa')
+                    .replace(new RegExp('\\b(' + money.join('|') + ')(\\s+)REAL\\b', 'g'), '$1$2INTEGER');
+                // An INTEGER PRIMARY KEY already is the rowid.
+                const keepRowid = !info.some(c => c.pk && c.type.toUpperCase() === 'INTEGER');
+                const names = info.map(c => c.name);
+                const target = (keepRowid ? ['rowid'] : []).concat(names).join(', ');
+                const source = (keepRowid ? ['rowid'] : []).concat(names.map(n => money.includes(n) ? 'to_paisa(' + n + ')' : n)).join(', ');
+                db.exec(createSql);
+                db.exec('INSERT INTO ' + table + '_paisa (' + target + ') SELECT ' + source + ' FROM ' + table);
+                db.exec('DROP TABLE ' + table);
+                db.exec('ALTER TABLE ' + table + '_paisa RENAME TO ' + table);
+                schema.filter(o => o.type !== 'table').forEach(o => db.exec(o.sql));
+            });
+        });
+    } finally {
+        db.pragma('foreign_keys = ON');
+    }
+    console.log('--- [DATABASE] Converted money columns to integer paisa: ' + pending.join(', ') + ' ---');
+};
+
+// Returns true when the column had to be added, so callers can backfill it.
+const ensureColumn = (table, column, definition) => {
+    const columns = db.prepare('PRAGMA table_info(' + table + ')').all().map(c => c.name);
+    if (columns.includes(column)) return false;
+    db.exec('ALTER TABLE ' + table + ' ADD COLUMN ' + column + ' ' + definition);
+    console.log('--- [DATABASE] Added column ' + table + '.' + column + ' ---');
+    return true;
+};
+
+// Brings databases created by older versions of setup-database.js up to date.
+const migrateSchema = () => {
+    migrateNumberLimits();
+    migrateTreasury();
+    ensureColumn('bets', 'status', "TEXT NOT NULL DEFAULT 'pending'");
+    ensureColumn('bets', 'userCommission', 'INTEGER');
+    ensureColumn('bets', 'dealerCommission', 'INTEGER');
+    ensureColumn('bets', 'voidedAt', 'TEXT');
+    ensureColumn('bets', 'voidedBy', 'TEXT');
+    ensureColumn('bets', 'winningNumbers', 'TEXT');
+    ensureColumn('bets', 'payout', 'INTEGER');
+    ensureColumn('bets', 'dealerProfit', 'INTEGER');
+    ensureColumn('bets', 'settledAt', 'TEXT');
+    if (ensureColumn('bets', 'cycleDate', 'TEXT')) {
+        // File existing bets under the cycle that was running when they were placed.
+        const games = Object.fromEntries(db.prepare('SELECT * FROM games').all().map(g => [g.id, g]));
+        const setCycle = db.prepare('UPDATE bets SET cycleDate = ? WHERE id = ?');
+        runInTransaction(() => {
+            db.prepare('SELECT id, gameId, timestamp FROM bets').all().forEach(b => {
+                if (games[b.gameId]) setCycle.run(getCycleDate(games[b.gameId], new Date(b.timestamp)), b.id);
+            });
+        });
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS idx_bets_game_cycle ON bets(gameId, cycleDate)');
+    // Paged history queries filter on LOWER(id) like the rest of this file, so the indexes are on the same expressions.
+    db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_ledgers_account_time ON ledgers(accountType, LOWER(accountId), timestamp);
+        CREATE INDEX IF NOT EXISTS idx_bets_user_time ON bets(LOWER(userId), timestamp);
+        CREATE INDEX IF NOT EXISTS idx_bets_dealer_time ON bets(LOWER(dealerId), timestamp);
+        CREATE INDEX IF NOT EXISTS idx_bets_timestamp ON bets(timestamp);
+    `);
+    ensureColumn('games', 'parentGameId', 'TEXT');
+    if (ensureColumn('games', 'kind', "TEXT NOT NULL DEFAULT 'standard'")) {
+        // Before kinds existed the paired open/close market was recognised by the AK / AKC names.
+        db.prepare("UPDATE games SET kind = 'open-half' WHERE name = 'AK'").run();
+        db.prepare("UPDATE games SET kind = 'close-half', parentGameId = (SELECT id FROM games WHERE name = 'AK') WHERE name = 'AKC'").run();
+    }
+    ensureColumn('games', 'isArchived', 'INTEGER NOT NULL DEFAULT 0');
+    if (ensureColumn('games', 'logo', 'TEXT')) {
+        const setLogo = db.prepare('UPDATE games SET logo = ? WHERE name = ?');
+        Object.entries(DEFAULT_GAME_LOGOS).forEach(([name, logo]) => setLogo.run(logo, name));
+    }
+    ensureColumn('games', 'openTime', "TEXT NOT NULL DEFAULT '" + DEFAULT_OPEN_TIME + "'");
+    ensureColumn('games', 'closeBufferMinutes', 'INTEGER NOT NULL DEFAULT 0');
+    ensureColumn('games', 'isSuspended', 'INTEGER NOT NULL DEFAULT 0');
+    ensureColumn('games', 'autoApproveMinutes', 'INTEGER');
+    ensureColumn('games', 'resultChangedAt', 'TEXT');
+    ensureColumn('games', 'approvalHeld', 'INTEGER NOT NULL DEFAULT 0');
+    ensureColumn('admins', 'permissions', 'TEXT');
+    ensureColumn('games', 'declaredBy', 'TEXT');
+    ensureColumn('games', 'confirmedBy', 'TEXT');
+    ensureColumn('games', 'confirmedAt', 'TEXT');
+    ensureColumn('ledgers', 'prevHash', 'TEXT');
+    if (ensureColumn('ledgers', 'hash', 'TEXT')) {
+        // Seal existing history in insertion order; later edits to these rows will show up as breaks.
+        const setHash = db.prepare('UPDATE ledgers SET prevHash = ?, hash = ? WHERE id = ?');
+        const lastHash = {};
+        runInTransaction(() => {
+            db.prepare('SELECT * FROM ledgers ORDER BY rowid').all().forEach(row => {
+                const key = row.accountType + ':' + row.accountId.toLowerCase();
+                const prevHash = lastHash[key] || GENESIS_HASH;
+                lastHash[key] = hashLedgerEntry(row, prevHash);
+                setHash.run(prevHash, lastHash[key], row.id);
+            });
+        });
+    }
+    // Entries written before journal postings keep a null journalId and stand alone.
+    ensureColumn('ledgers', 'journalId', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_ledgers_journalId ON ledgers(journalId)');
+    // Rows written before change tracking have no changeSeq; clients get them from their first full fetch.
+    Object.keys(SYNC_TABLES).forEach(table => ensureColumn(table, 'changeSeq', 'INTEGER'));
+    db.exec(SYNC_STATE_SQL);
+    Object.keys(SYNC_TABLES).forEach(table => db.exec(changeTrackingSql(table)));
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+            key TEXT PRIMARY KEY,
+            value TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS jobs (
+            name TEXT PRIMARY KEY,
+            scheduledFor TEXT NOT NULL,
+            lastRunAt TEXT,
+            lastStatus TEXT,
+            lastError TEXT,
+            lockedBy TEXT,
+            lockedUntil TEXT
+        );
+        CREATE TABLE IF NOT EXISTS draws (
+            id TEXT PRIMARY KEY,
+            gameId TEXT NOT NULL,
+            cycleDate TEXT NOT NULL,
+            winningNumber TEXT NOT NULL,
+            declaredAt TEXT,
+            declaredBy TEXT,
+            confirmedAt TEXT,
+            confirmedBy TEXT,
+            payoutsApprovedAt TEXT,
+            UNIQUE (gameId, cycleDate)
+        );
+        CREATE TABLE IF NOT EXISTS market_closures (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            gameId TEXT,
+            date TEXT NOT NULL,
+            reason TEXT NOT NULL,
+            createdBy TEXT NOT NULL,
+            createdAt TEXT NOT NULL
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_market_closures_scope ON market_closures(date, IFNULL(gameId, ''));
+        CREATE TABLE IF NOT EXISTS payouts (
+            id TEXT PRIMARY KEY,
+            gameId TEXT NOT NULL,
+            betId TEXT NOT NULL,
+            userId TEXT NOT NULL,
+            dealerId TEXT NOT NULL,
+            winningNumber TEXT NOT NULL,
+            userPrize INTEGER NOT NULL,
+            dealerProfit INTEGER NOT NULL,
+            paidAt TEXT NOT NULL,
+            reversedAt TEXT,
+            cycleDate TEXT
+        );
+        CREATE TABLE IF NOT EXISTS resettlements (
+            id TEXT PRIMARY KEY,
+            gameId TEXT NOT NULL,
+            previousNumber TEXT NOT NULL,
+            newNumber TEXT NOT NULL,
+            reason TEXT NOT NULL,
+            actorId TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            reversedAmount INTEGER NOT NULL,
+            reappliedAmount INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_payouts_gameId ON payouts(gameId);
+        CREATE TABLE IF NOT EXISTS audit_events (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            timestamp TEXT NOT NULL,
+            actorId TEXT,
+            actorRole TEXT,
+            action TEXT NOT NULL,
+            targetType TEXT,
+            targetId TEXT,
+            before TEXT,
+            after TEXT,
+            ip TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_events_timestamp ON audit_events(timestamp);
+        CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events
+            BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END;
+        CREATE TRIGGER IF NOT EXISTS audit_events_no_delete BEFORE DELETE ON audit_events
+            BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END;
+    `);
+    ensureColumn('draws', 'confirmedAt', 'TEXT');
+    ensureColumn('draws', 'confirmedBy', 'TEXT');
+    if (ensureColumn('payouts', 'cycleDate', 'TEXT')) {
+        // A payout belongs to the cycle of the bet it paid.
+        db.prepare('UPDATE payouts SET cycleDate = (SELECT cycleDate FROM bets WHERE bets.id = payouts.betId)').run();
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS idx_payouts_game_cycle ON payouts(gameId, cycleDate)');
+    if (ensureColumn('games', 'resultCycleDate', 'TEXT')) {
+        db.prepare(`UPDATE games SET resultCycleDate = (SELECT cycleDate FROM draws WHERE draws.gameId = games.id AND draws.winningNumber = games.winningNumber ORDER BY cycleDate DESC LIMIT 1)
+            WHERE winningNumber IS NOT NULL`).run();
+    }
+    if (ensureColumn('bets', 'drawNumber', 'TEXT')) {
+        // Settled bets keep the number of the draw they were settled on, from their cycle's draws row.
+        db.prepare("UPDATE bets SET drawNumber = (SELECT winningNumber FROM draws WHERE draws.gameId = bets.gameId AND draws.cycleDate = bets.cycleDate) WHERE status IN ('won', 'lost')").run();
+    }
+    // Set when a dealer closes a user's account, which keeps its history (see closeUserByDealer).
+    ensureColumn('users', 'closedAt', 'TEXT');
+    migrateMoneyToPaisa();
+};
+
 // --- CORE ACCOUNT LOOKUP ---
 const findAccountById = (id, table) => {
     if (!id) return null;
     try {
         const stmt = db.prepare('SELECT * FROM ' + table + ' WHERE LOWER(id) = LOWER(?)');
-        const account = stmt.get(id);
+        const account = inRupees(table, stmt.get(id));
         if (!account) return null;
 
         if (table !== 'games') {
-            account.ledger = db.prepare('SELECT * FROM ledgers WHERE LOWER(accountId) = LOWER(?) ORDER BY timestamp ASC').all(id);
+            account.ledger = db.prepare('SELECT * FROM ledgers WHERE LOWER(accountId) = LOWER(?) ORDER BY timestamp ASC').all(id).map(ledgerInRupees);
         } else {
-            account.isMarketOpen = isGameOpen(account.drawTime);
+            applyMarketState(account);
         }
 
         if (table === 'users' || table === 'dealers' || table === 'admins') {
@@ -146,6 +481,7 @@ const findAccountById = (id, table) => {
                 account.betLimits = JSON.parse(account.betLimits);
             }
         }
+        if (table === 'admins') account.permissions = parseAdminPermissions(account.permissions);
 
         if ('isRestricted' in account) account.isRestricted = !!account.isRestricted;
         return account;
@@ -172,7 +508,8 @@ const findAccountForLogin = (loginId) => {
         try {
             const stmt = db.prepare('SELECT * FROM ' + info.name + ' WHERE LOWER(id) = ?');
             const account = stmt.get(targetId);
-            if (account) return { account: account, role: info.role };
+            if (account && account.closedAt) return { account: null, role: null };
+            if (account) return { account: inRupees(info.name, account), role: info.role };
         } catch (e) {
             logError('LOGIN_LOOKUP_' + info.role, e);
         }
@@ -210,6 +547,7 @@ const getAllFromTable = (table, withLedger = false) => {
 
             const ledgerMap = {};
             allLedgers.forEach(l => {
+                ledgerInRupees(l);
                 const key = l.accountId.toLowerCase();
                 if (!ledgerMap[key]) ledgerMap[key] = [];
                 ledgerMap[key].push(l);
@@ -227,8 +565,12 @@ const getAllFromTable = (table, withLedger = false) => {
                     if (acc.prizeRates && typeof acc.prizeRates === 'string') acc.prizeRates = JSON.parse(acc.prizeRates);
                     if (acc.betLimits && typeof acc.betLimits === 'string') acc.betLimits = JSON.parse(acc.betLimits);
                 }
-                if (table === 'games' && acc.drawTime) acc.isMarketOpen = isGameOpen(acc.drawTime);
-                if (table === 'bets' && acc.numbers) acc.numbers = JSON.parse(acc.numbers);
+                if (table === 'games') {
+                    acc.logo = acc.logo || '';
+                    if (acc.drawTime) applyMarketState(acc);
+                }
+                if (table === 'bets') parseBet(acc);
+                else inRupees(table, acc);
                 if ('isRestricted' in acc) acc.isRestricted = !!acc.isRestricted;
             } catch (inner) { }
             return acc;
@@ -239,160 +581,478 @@ const getAllFromTable = (table, withLedger = false) => {
     }
 };
 
-const runInTransaction = (fn) => db.transaction(fn)();
+const runInTransaction = (fn) => {
+    if (queuedChanges) {
+        // Nested: a savepoint, whose changes are forgotten if it rolls back.
+        const mark = queuedChanges.length;
+        try { return db.transaction(fn)(); }
+        catch (e) { queuedChanges.length = mark; throw e; }
+    }
+    queuedChanges = [];
+    let result, committed;
+    try {
+        result = db.transaction(fn)();
+        committed = queuedChanges;
+    } finally {
+        queuedChanges = null;
+    }
+    committed.forEach(({ type, data }) => changes.emit(type, data));
+    return result;
+};
+
+// --- MONEY ---
+// Every amount below is integer paisa, in the database and in the arithmetic (see shared/money.ts).
+// Rows only turn into rupees on their way out, so the API keeps speaking rupees.
+const MONEY_COLUMNS = {
+    users: ['wallet'], dealers: ['wallet'], admins: ['wallet'], treasury: ['wallet'],
+    ledgers: ['debit', 'credit', 'balance'],
+    bets: ['amountPerNumber', 'totalAmount', 'userCommission', 'dealerCommission', 'payout', 'dealerProfit'],
+    payouts: ['userPrize', 'dealerProfit'],
+    number_limits: ['limitAmount'],
+    resettlements: ['reversedAmount', 'reappliedAmount']
+};
+
+const inRupees = (table, row) => {
+    if (!row) return row;
+    (MONEY_COLUMNS[table] || []).forEach(column => {
+        if (row[column] != null) row[column] = toRupees(row[column]);
+    });
+    return row;
+};
+const ledgerInRupees = (row) => inRupees('ledgers', row);
+
+// parseBetRow keeps paisa for the settlement and reporting code; parseBet is what leaves this module.
+const parseBetRow = (b) => {
+    if (typeof b.numbers === 'string') b.numbers = JSON.parse(b.numbers);
+    if (typeof b.winningNumbers === 'string') b.winningNumbers = JSON.parse(b.winningNumbers);
+    return b;
+};
+const parseBet = (b) => inRupees('bets', parseBetRow(b));
+
+// Commission on a stake, rounded per bet. The dealer's override is the gap between the two rates.
+const getCommissions = (stake, user, dealer) => ({
+    user: percentOf(stake, user.commissionRate),
+    dealer: percentOf(stake, dealer.commissionRate - user.commissionRate)
+});
+
+// What a bet row paid in commission. Bets placed before commissions were stored per bet fall back to the current rates.
+const getBetCommissions = (bet, user, dealer) => {
+    const fallback = getCommissions(bet.totalAmount, user, dealer);
+    return {
+        user: bet.userCommission !== null ? bet.userCommission : fallback.user,
+        dealer: bet.dealerCommission !== null ? bet.dealerCommission : fallback.dealer
+    };
+};
+
+// debit and credit are paisa. allowOverdraft is only for clawbacks (e.g. prize reversals) where the money may already have been spent.
+const LEDGER_TABLES = { USER: 'users', DEALER: 'dealers', ADMIN: 'admins', TREASURY: 'treasury' };
 
-const addLedgerEntry = (accountId, accountType, description, debit, credit) => {
+// Only postJournal calls this, so every entry belongs to a balanced posting.
+const addLedgerEntry = (accountId, accountType, description, debit, credit, allowOverdraft, journalId) => {
     if (!accountId) throw new Error('Account ID is required for ledger entry.');
 
-    const table = accountType.toLowerCase() + 's';
-    const account = db.prepare('SELECT wallet FROM ' + table + ' WHERE LOWER(id) = LOWER(?)').get(accountId);
+    const table = LEDGER_TABLES[accountType];
+    if (!table) throw new Error('Unknown account type: ' + accountType);
+    const account = db.prepare('SELECT * FROM ' + table + ' WHERE LOWER(id) = LOWER(?)').get(accountId);
 
     if (!account) {
         throw new Error('Account [' + accountId + '] not found in ' + table);
     }
 
-    const lastBalance = Number(account.wallet) || 0;
-    const debitVal = Number(debit) || 0;
-    const creditVal = Number(credit) || 0;
+    const lastBalance = account.wallet;
+    const debitVal = debit || 0;
+    const creditVal = credit || 0;
+    if (!isPaisa(debitVal) || !isPaisa(creditVal) || debitVal < 0 || creditVal < 0) {
+        throw new Error('Ledger amounts must be whole paisa: ' + description);
+    }
 
-    if (debitVal > 0 && accountType !== 'ADMIN' && lastBalance < debitVal) {
+    if (debitVal > 0 && accountType !== 'TREASURY' && !allowOverdraft && lastBalance < debitVal) {
         throw new Error('Insufficient funds in account: ' + accountId);
     }
 
-    const newBalance = Math.round((lastBalance - debitVal + creditVal) * 100) / 100;
+    const newBalance = lastBalance - debitVal + creditVal;
 
-    db.prepare('INSERT INTO ledgers (id, accountId, accountType, timestamp, description, debit, credit, balance) VALUES (?, ?, ?, ?, ?, ?, ?, ?)').run(uuidv4(), accountId, accountType, new Date().toISOString(), description, debitVal, creditVal, newBalance);
+    const previous = db.prepare('SELECT hash FROM ledgers WHERE accountType = ? AND LOWER(accountId) = LOWER(?) ORDER BY rowid DESC LIMIT 1').get(accountType, accountId);
+    const prevHash = previous ? previous.hash : GENESIS_HASH;
+    const entry = { id: uuidv4(), accountType, timestamp: new Date().toISOString(), description, debit: debitVal, credit: creditVal, balance: newBalance, journalId };
+    db.prepare('INSERT INTO ledgers (id, accountId, accountType, timestamp, description, debit, credit, balance, journalId, prevHash, hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').run(entry.id, accountId, accountType, entry.timestamp, description, debitVal, creditVal, newBalance, journalId, prevHash, hashLedgerEntry(ledgerInRupees({ ...entry }), prevHash));
 
     db.prepare('UPDATE ' + table + ' SET wallet = ? WHERE LOWER(id) = LOWER(?)').run(newBalance, accountId);
+    emitChange('wallet', { accountType, accountId: account.id, dealerId: account.dealerId || null });
+};
+
+// --- JOURNAL ---
+// A money movement is one journal posting: its legs share a journalId, debits equal credits, and they are all
+// written or none are. Zero-amount legs are left out, so callers can pass optional commission legs as they are.
+const debitLeg = (accountType, accountId, description, amount, allowOverdraft = false) => ({ accountType, accountId, description, debit: amount, credit: 0, allowOverdraft });
+const creditLeg = (accountType, accountId, description, amount) => ({ accountType, accountId, description, debit: 0, credit: amount, allowOverdraft: false });
+
+const postJournal = (legs) => {
+    const posted = legs.filter(l => l.debit > 0 || l.credit > 0);
+    if (posted.length < 2) throw new Error('A journal posting needs at least two legs.');
+    const net = sumPaisa(posted.map(l => l.credit - l.debit));
+    if (net !== 0) throw new Error('Journal legs do not balance: off by Rs ' + toRupees(net) + '.');
+    const journalId = uuidv4();
+    runInTransaction(() => posted.forEach(l => addLedgerEntry(l.accountId, l.accountType, l.description, l.debit, l.credit, l.allowOverdraft, journalId)));
+    return journalId;
+};
+
+// Every leg of the posting a ledger entry belongs to, for a viewer who can see that entry. Legs on accounts the viewer
+// cannot see keep their amounts but not their running balance. Entries written before journals have only themselves.
+const getJournalForEntry = (entryId, role, viewerId) => {
+    const entry = db.prepare('SELECT * FROM ledgers WHERE id = ?').get(entryId);
+    const isViewer = (leg) => leg.accountId.toLowerCase() === String(viewerId).toLowerCase();
+    const canSee = (leg) => {
+        if (role === 'ADMIN') return true;
+        if (leg.accountType === 'USER' && isViewer(leg)) return role === 'USER';
+        if (role === 'DEALER') {
+            if (leg.accountType === 'DEALER') return isViewer(leg);
+            const user = leg.accountType === 'USER' && db.prepare('SELECT dealerId FROM users WHERE LOWER(id) = LOWER(?)').get(leg.accountId);
+            return !!user && user.dealerId.toLowerCase() === String(viewerId).toLowerCase();
+        }
+        return false;
+    };
+    if (!entry || !canSee(entry)) return null;
+    const legs = entry.journalId ? db.prepare('SELECT * FROM ledgers WHERE journalId = ? ORDER BY rowid').all(entry.journalId) : [entry];
+    return {
+        journalId: entry.journalId,
+        entryId: entry.id,
+        legs: legs.map(ledgerInRupees).map(leg => ({
+            id: leg.id, accountType: leg.accountType, accountId: leg.accountId, timestamp: leg.timestamp, description: leg.description,
+            debit: leg.debit, credit: leg.credit, balance: canSee(leg) ? leg.balance : null
+        }))
+    };
+};
+
+// --- GAME KINDS ---
+// A 'standard' game draws a 2-digit result. An 'open-half' game draws its open digit first and is completed
+// by the 'close-half' game whose parentGameId points at it; the close-half draws a single digit.
+const isSingleDigitGame = (game) => game.kind === 'open-half' || game.kind === 'close-half';
+const isSubGameAllowed = (game, subGameType) => game.kind === 'close-half' ? subGameType === '1 Digit Close' : game.kind === 'open-half' ? subGameType !== '1 Digit Close' : true;
+const findCloseHalf = (game) => db.prepare("SELECT * FROM games WHERE kind = 'close-half' AND parentGameId = ?").get(game.id);
+const findParentGame = (game) => game.parentGameId ? db.prepare('SELECT * FROM games WHERE id = ?').get(game.parentGameId) : undefined;
+
+// --- DRAW HISTORY ---
+// One draws row per game per cycle date, kept in step with the game's result so it outlives the daily reset.
+// Every result write goes through here, so it also restarts the game's auto-approval clock and, before payouts
+// are approved, drops any confirmation of the previous number.
+const recordDraw = (gameId, actorId) => {
+    const game = db.prepare('SELECT * FROM games WHERE id = ?').get(gameId);
+    if (!game || !game.winningNumber) return;
+    const keepConfirmation = game.payoutsApproved ? 1 : 0;
+    const cycleDate = getResultCycleDate(game);
+    db.prepare(`UPDATE games SET resultChangedAt = ?, declaredBy = ?, resultCycleDate = ?,
+        confirmedBy = CASE WHEN ? THEN confirmedBy END, confirmedAt = CASE WHEN ? THEN confirmedAt END WHERE id = ?`)
+        .run(new Date().toISOString(), actorId || null, cycleDate, keepConfirmation, keepConfirmation, gameId);
+    db.prepare(`INSERT INTO draws (id, gameId, cycleDate, winningNumber, declaredAt, declaredBy) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(gameId, cycleDate) DO UPDATE SET winningNumber = excluded.winningNumber, declaredAt = excluded.declaredAt, declaredBy = excluded.declaredBy,
+            confirmedBy = CASE WHEN ? THEN confirmedBy END, confirmedAt = CASE WHEN ? THEN confirmedAt END`)
+        .run(uuidv4(), game.id, cycleDate, game.winningNumber, new Date().toISOString(), actorId || null, keepConfirmation, keepConfirmation);
+};
+
+// The checker step of maker-checker: a second admin confirms the declared result.
+const confirmResult = (gameId, actorId) => {
+    const game = db.prepare('SELECT * FROM games WHERE id = ?').get(gameId);
+    if (!game) throw new Error('Game not found.');
+    if (!game.winningNumber || game.winningNumber.endsWith('_')) throw new Error(game.name + ' has no final result to confirm.');
+    if (game.payoutsApproved) throw new Error(game.name + ' payouts are already approved.');
+    if (game.confirmedBy) throw new Error(game.name + ' result is already confirmed.');
+    if (game.declaredBy && game.declaredBy.toLowerCase() === String(actorId).toLowerCase()) {
+        throw new Error('The result must be confirmed by a different admin than the one who declared it.');
+    }
+    const confirmedAt = new Date().toISOString();
+    runInTransaction(() => {
+        db.prepare('UPDATE games SET confirmedBy = ?, confirmedAt = ? WHERE id = ?').run(actorId, confirmedAt, gameId);
+        archiveDraw(game, getResultCycleDate(game));
+        db.prepare('UPDATE draws SET confirmedBy = ?, confirmedAt = ? WHERE gameId = ? AND cycleDate = ?').run(actorId, confirmedAt, gameId, getResultCycleDate(game));
+    });
+    return findAccountById(gameId, 'games');
+};
+
+// Backfills a row for a result that was declared without one (e.g. before this table existed).
+const archiveDraw = (game, cycleDate) => {
+    if (!game.winningNumber) return;
+    db.prepare('INSERT OR IGNORE INTO draws (id, gameId, cycleDate, winningNumber, payoutsApprovedAt) VALUES (?, ?, ?, ?, ?)')
+        .run(uuidv4(), game.id, cycleDate, game.winningNumber, game.payoutsApproved ? new Date().toISOString() : null);
 };
 
-const declareWinnerForGame = (gameId, winningNumber) => {
+const getDrawResults = (gameId, from, to) => {
+    const isDate = (d) => /^\d{4}-\d{2}-\d{2}$/.test(d) && !isNaN(Date.parse(d + 'T00:00:00Z'));
+    const toDate = to || getMarketDate(new Date());
+    const fromDate = from || getMarketDate(new Date(Date.parse(toDate + 'T00:00:00Z') - 29 * 24 * 60 * 60 * 1000), 0);
+    if (!isDate(fromDate) || !isDate(toDate)) throw new Error('Dates must be in YYYY-MM-DD format.');
+    if (fromDate > toDate) throw new Error('"from" must not be after "to".');
+    if (Date.parse(toDate) - Date.parse(fromDate) > 366 * 24 * 60 * 60 * 1000) throw new Error('Date range cannot exceed one year.');
+    if (!db.prepare('SELECT id FROM games WHERE id = ?').get(gameId)) throw new Error('Game not found.');
+    // Partial open-half results ('5_') are not a draw result yet.
+    return db.prepare("SELECT cycleDate, winningNumber, declaredAt, payoutsApprovedAt FROM draws WHERE gameId = ? AND cycleDate BETWEEN ? AND ? AND winningNumber NOT LIKE '%\\_' ESCAPE '\\' ORDER BY cycleDate")
+        .all(gameId, fromDate, toDate);
+};
+
+const declareWinnerForGame = (gameId, winningNumber, actorId) => {
     let finalGame;
     runInTransaction(() => {
         const game = db.prepare('SELECT * FROM games WHERE id = ?').get(gameId);
-        // FIX: Allow AK game to be declared again when it only has a partial result (endsWith '_').
+        // FIX: Allow an open-half game to be declared again when it only has a partial result (endsWith '_').
         if (!game) throw new Error('Game not found.');
         if (game.winningNumber && !game.winningNumber.endsWith('_')) throw new Error('Game already finalized.');
 
-        if (game.name === 'AK') {
-            db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(winningNumber + '_', gameId);
-        } else if (game.name === 'AKC') {
+        if (game.kind === 'open-half') {
+            const closeHalf = findCloseHalf(game);
+            const closeDigit = closeHalf && closeHalf.winningNumber ? closeHalf.winningNumber : '_';
+            db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(winningNumber + closeDigit, gameId);
+        } else if (game.kind === 'close-half') {
             db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(winningNumber, gameId);
-            const akGame = db.prepare("SELECT * FROM games WHERE name = 'AK'").get();
-            if (akGame && akGame.winningNumber && akGame.winningNumber.endsWith('_')) {
-                db.prepare("UPDATE games SET winningNumber = ? WHERE name = 'AK'").run(akGame.winningNumber.slice(0, 1) + winningNumber);
+            const parent = findParentGame(game);
+            if (parent && parent.winningNumber && parent.winningNumber.endsWith('_')) {
+                db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(parent.winningNumber.slice(0, 1) + winningNumber, parent.id);
+                recordDraw(parent.id, actorId);
             }
         } else {
             db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(winningNumber, gameId);
         }
+        recordDraw(gameId, actorId);
         finalGame = findAccountById(gameId, 'games');
     });
     return finalGame;
 };
 
-const updateWinningNumber = (gameId, newWinningNumber) => {
+const updateWinningNumber = (gameId, newWinningNumber, actorId) => {
     let updatedGame;
     runInTransaction(() => {
         const game = db.prepare('SELECT * FROM games WHERE id = ?').get(gameId);
         if (!game || !game.winningNumber || game.payoutsApproved) throw new Error('Update not allowed.');
-        if (game.name === 'AK') {
+        if (game.kind === 'open-half') {
             const closeDigit = game.winningNumber.endsWith('_') ? '_' : game.winningNumber.slice(1, 2);
             db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(newWinningNumber + closeDigit, gameId);
-        } else if (game.name === 'AKC') {
+        } else if (game.kind === 'close-half') {
             db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(newWinningNumber, gameId);
-            const akGame = db.prepare("SELECT * FROM games WHERE name = 'AK'").get();
-            if (akGame && akGame.winningNumber && !akGame.winningNumber.endsWith('_')) {
-                db.prepare("UPDATE games SET winningNumber = ? WHERE name = 'AK'").run(akGame.winningNumber.slice(0, 1) + newWinningNumber);
+            const parent = findParentGame(game);
+            if (parent && parent.winningNumber && !parent.winningNumber.endsWith('_')) {
+                if (parent.payoutsApproved) throw new Error(parent.name + ' payouts are already approved. Re-settle ' + game.name + ' instead.');
+                db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(parent.winningNumber.slice(0, 1) + newWinningNumber, parent.id);
+                recordDraw(parent.id, actorId);
             }
         } else {
             db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(newWinningNumber, gameId);
         }
+        recordDraw(gameId, actorId);
         updatedGame = findAccountById(gameId, 'games');
     });
     return updatedGame;
 };
 
+const getMultiplier = (r, t) => t === "1 Digit Open" ? r.oneDigitOpen : t === "1 Digit Close" ? r.oneDigitClose : r.twoDigit;
+
+// --- SETTLEMENT ENGINE ---
+// The only place win detection lives; everything else reads the results stored on each bet.
+const getWinningNumbersInBet = (game, winningNumber, bet) => bet.numbers.filter(n => {
+    if (bet.subGameType === "1 Digit Open") return winningNumber.length === 2 && n === winningNumber[0];
+    if (bet.subGameType === "1 Digit Close") return game.kind === 'close-half' ? n === winningNumber : (winningNumber.length === 2 && n === winningNumber[1]);
+    return n === winningNumber;
+});
+
+// Bets of the result's cycle that have not been settled yet.
+const getUnsettledBets = (game) => db.prepare("SELECT * FROM bets WHERE gameId = ? AND status = 'pending' AND cycleDate = ?")
+    .all(game.id, getResultCycleDate(game)).map(parseBetRow);
+
+// Works out the outcome of each bet for a given result, without touching the ledger. Prizes are paisa.
+const computeSettlement = (game, winningNumber, bets) => {
+    // FIX: Use batch getAllFromTable (no longer N+1).
+    const allUsers = Object.fromEntries(getAllFromTable('users').map(u => [u.id, u]));
+    const allDealers = Object.fromEntries(getAllFromTable('dealers').map(d => [d.id, d]));
+
+    const results = [];
+    bets.forEach(bet => {
+        const user = allUsers[bet.userId], dealer = allDealers[bet.dealerId];
+        if (!user || !dealer) return;
+        const wins = getWinningNumbersInBet(game, winningNumber, bet);
+        const winningStake = wins.length * bet.amountPerNumber;
+        const userPrize = multiply(winningStake, getMultiplier(user.prizeRates, bet.subGameType));
+        const dealerProfit = Math.max(multiply(winningStake, getMultiplier(dealer.prizeRates, bet.subGameType) - getMultiplier(user.prizeRates, bet.subGameType)), 0);
+        results.push({ bet, user, dealer, winningNumbers: wins, userPrize, dealerProfit });
+    });
+    return results;
+};
+
+// Settles every open bet of a game: stores each outcome on the bet, pays the winners and records each payout
+// so it can be reversed exactly by resettleGame.
+const settleGame = (game) => {
+    const settledAt = new Date().toISOString();
+    const updateBet = db.prepare('UPDATE bets SET status = ?, winningNumbers = ?, payout = ?, dealerProfit = ?, settledAt = ?, drawNumber = ? WHERE id = ?');
+    const insertPayout = db.prepare('INSERT INTO payouts (id, gameId, betId, userId, dealerId, winningNumber, userPrize, dealerProfit, paidAt, cycleDate) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    let total = 0;
+    computeSettlement(game, game.winningNumber, getUnsettledBets(game)).forEach(({ bet, user, dealer, winningNumbers, userPrize, dealerProfit }) => {
+        const won = winningNumbers.length > 0;
+        updateBet.run(won ? 'won' : 'lost', JSON.stringify(winningNumbers), userPrize, dealerProfit, settledAt, game.winningNumber, bet.id);
+        if (!won) return;
+        postJournal([
+            creditLeg('USER', user.id, 'Prize won: ' + game.name, userPrize),
+            debitLeg('TREASURY', TREASURY_ID, 'Prize paid: ' + user.name, userPrize),
+            creditLeg('DEALER', dealer.id, 'Profit: ' + game.name, dealerProfit),
+            debitLeg('TREASURY', TREASURY_ID, 'Dealer cut: ' + dealer.name, dealerProfit)
+        ]);
+        insertPayout.run(uuidv4(), game.id, bet.id, user.id, dealer.id, game.winningNumber, userPrize, dealerProfit, settledAt, bet.cycleDate);
+        total += userPrize + dealerProfit;
+    });
+    return total;
+};
+
+// Reverses every payout written by settleGame for the result's cycle and returns its bets to pending. Earlier
+// cycles are left alone. Games approved before payouts were recorded fall back to recomputing the legs from the
+// result that was paid.
+const reverseSettlement = (game) => {
+    const cycleDate = getResultCycleDate(game);
+    const recorded = db.prepare('SELECT * FROM payouts WHERE gameId = ? AND cycleDate = ? AND reversedAt IS NULL').all(game.id, cycleDate);
+    const legs = recorded.length > 0
+        ? recorded.map(p => ({ user: findAccountById(p.userId, 'users'), dealer: findAccountById(p.dealerId, 'dealers'), userPrize: p.userPrize, dealerProfit: p.dealerProfit }))
+        : computeSettlement(game, game.winningNumber, getUnsettledBets(game)).filter(r => r.winningNumbers.length > 0);
+    let total = 0;
+    legs.forEach(({ user, dealer, userPrize, dealerProfit }) => {
+        if (!user || !dealer) throw new Error('Cannot reverse payout: account no longer exists.');
+        postJournal([
+            debitLeg('USER', user.id, 'Prize reversal: ' + game.name, userPrize, true),
+            creditLeg('TREASURY', TREASURY_ID, 'Prize reversal: ' + user.name, userPrize),
+            debitLeg('DEALER', dealer.id, 'Profit reversal: ' + game.name, dealerProfit, true),
+            creditLeg('TREASURY', TREASURY_ID, 'Dealer cut reversal: ' + dealer.name, dealerProfit)
+        ]);
+        total += userPrize + dealerProfit;
+    });
+    db.prepare('UPDATE payouts SET reversedAt = ? WHERE gameId = ? AND cycleDate = ? AND reversedAt IS NULL').run(new Date().toISOString(), game.id, cycleDate);
+    db.prepare("UPDATE bets SET status = 'pending', winningNumbers = NULL, payout = NULL, dealerProfit = NULL, settledAt = NULL, drawNumber = NULL WHERE gameId = ? AND status IN ('won', 'lost') AND cycleDate = ?")
+        .run(game.id, cycleDate);
+    return total;
+};
+
+// Settles the game's result and marks its payouts approved; returns the amount paid.
+const payOutGame = (game) => {
+    const total = settleGame(game);
+    db.prepare('UPDATE games SET payoutsApproved = 1 WHERE id = ?').run(game.id);
+    archiveDraw(game, getResultCycleDate(game));
+    db.prepare('UPDATE draws SET payoutsApprovedAt = ? WHERE gameId = ? AND cycleDate = ?').run(new Date().toISOString(), game.id, getResultCycleDate(game));
+    return total;
+};
+
 const approvePayoutsForGame = (gameId) => {
     let updatedGame;
     runInTransaction(() => {
         const game = db.prepare('SELECT * FROM games WHERE id = ?').get(gameId);
-        if (!game || !game.winningNumber || game.payoutsApproved || (game.name === 'AK' && game.winningNumber.endsWith('_'))) throw new Error("Invalid state for approval.");
-        const winningBets = db.prepare('SELECT * FROM bets WHERE gameId = ?').all(gameId).map(b => {
-            b.numbers = JSON.parse(b.numbers);
-            return b;
-        });
+        if (!game || !game.winningNumber || game.payoutsApproved || game.winningNumber.endsWith('_')) throw new Error("Invalid state for approval.");
+        if (isAwaitingConfirmation(game)) throw new Error(game.name + ' result must be confirmed by a second admin before payouts are approved.');
+        payOutGame(game);
+        // Its reset was held back for these payouts (see resetGame); with the next cycle already open, do it now.
+        if (getResultCycleDate(game) !== getCycleDate(game)) resetGame(gameId);
+        updatedGame = findAccountById(gameId, 'games');
+    });
+    return updatedGame;
+};
 
-        // FIX: Use batch getAllFromTable (no longer N+1) and dynamic admin lookup.
-        const allUsers = Object.fromEntries(getAllFromTable('users').map(u => [u.id, u]));
-        const allDealers = Object.fromEntries(getAllFromTable('dealers').map(d => [d.id, d]));
-        const admin = getAdminAccount();
-        const getMultiplier = (r, t) => t === "1 Digit Open" ? r.oneDigitOpen : t === "1 Digit Close" ? r.oneDigitClose : r.twoDigit;
-
-        winningBets.forEach(bet => {
-            const wins = bet.numbers.filter(n => {
-                if (bet.subGameType === "1 Digit Open") return game.winningNumber.length === 2 && n === game.winningNumber[0];
-                if (bet.subGameType === "1 Digit Close") return game.name === 'AKC' ? n === game.winningNumber : (game.winningNumber.length === 2 && n === game.winningNumber[1]);
-                return n === game.winningNumber;
-            });
-            if (wins.length > 0) {
-                const user = allUsers[bet.userId], dealer = allDealers[bet.dealerId];
-                if (!user || !dealer) return;
-                const userPrize = Math.round(wins.length * bet.amountPerNumber * getMultiplier(user.prizeRates, bet.subGameType) * 100) / 100;
-                const dProfit = Math.round(wins.length * bet.amountPerNumber * (getMultiplier(dealer.prizeRates, bet.subGameType) - getMultiplier(user.prizeRates, bet.subGameType)) * 100) / 100;
-                addLedgerEntry(user.id, 'USER', 'Prize won: ' + game.name, 0, userPrize);
-                addLedgerEntry(admin.id, 'ADMIN', 'Prize paid: ' + user.name, userPrize, 0);
-                if (dProfit > 0) {
-                    addLedgerEntry(dealer.id, 'DEALER', 'Profit: ' + game.name, 0, dProfit);
-                    addLedgerEntry(admin.id, 'ADMIN', 'Dealer cut: ' + dealer.name, dProfit, 0);
-                }
+// Corrects the result of an already-paid game: reverses its payouts, applies the new number and pays out again.
+// Correcting a close-half game also corrects the close digit of its parent, which is re-settled too if paid.
+// The corrected number drops any earlier confirmation; with maker-checker on it is left unapproved, like a fresh
+// declaration, and pays out only once a second admin confirms it and payouts are approved again.
+const resettleGame = (gameId, newWinningNumber, reason, actorId) => {
+    let updatedGame;
+    runInTransaction(() => {
+        const game = db.prepare('SELECT * FROM games WHERE id = ?').get(gameId);
+        if (!game) throw new Error('Game not found.');
+        if (!game.payoutsApproved) throw new Error('Payouts have not been approved yet. Edit the result instead.');
+        if (!reason || !String(reason).trim()) throw new Error('A reason is required to re-settle a game.');
+        const singleDigit = isSingleDigitGame(game);
+        if (!(singleDigit ? /^\d$/ : /^\d{2}$/).test(String(newWinningNumber || ''))) {
+            throw new Error('Please enter a valid ' + (singleDigit ? '1-digit' : '2-digit') + ' number.');
+        }
+
+        const corrections = [{ game, number: game.kind === 'open-half' ? newWinningNumber + game.winningNumber.slice(1) : newWinningNumber }];
+        if (game.kind === 'close-half') {
+            const parent = findParentGame(game);
+            if (parent && parent.winningNumber && !parent.winningNumber.endsWith('_')) {
+                corrections.push({ game: parent, number: parent.winningNumber.slice(0, 1) + newWinningNumber });
+            }
+        }
+        if (corrections[0].number === game.winningNumber) throw new Error('The new number is the same as the current result.');
+
+        const insertAudit = db.prepare('INSERT INTO resettlements (id, gameId, previousNumber, newNumber, reason, actorId, timestamp, reversedAmount, reappliedAmount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)');
+        corrections.forEach(({ game: target, number }) => {
+            if (!target.payoutsApproved) {
+                db.prepare('UPDATE games SET winningNumber = ? WHERE id = ?').run(number, target.id);
+                recordDraw(target.id, actorId);
+                return;
             }
+            const reversedAmount = reverseSettlement(target);
+            db.prepare('UPDATE games SET winningNumber = ?, payoutsApproved = 0 WHERE id = ?').run(number, target.id);
+            db.prepare('UPDATE draws SET payoutsApprovedAt = NULL WHERE gameId = ? AND cycleDate = ?').run(target.id, getResultCycleDate(target));
+            recordDraw(target.id, actorId);
+            const corrected = db.prepare('SELECT * FROM games WHERE id = ?').get(target.id);
+            const reappliedAmount = isAwaitingConfirmation(corrected) ? 0 : payOutGame(corrected);
+            insertAudit.run(uuidv4(), target.id, target.winningNumber, number, String(reason).trim(), actorId, new Date().toISOString(), reversedAmount, reappliedAmount);
         });
-        db.prepare('UPDATE games SET payoutsApproved = 1 WHERE id = ?').run(gameId);
         updatedGame = findAccountById(gameId, 'games');
     });
     return updatedGame;
 };
 
+// Pauses (or resumes) a game's auto-approval. Resuming restarts the delay from now.
+const setApprovalHeld = (gameId, held) => {
+    const game = db.prepare('SELECT * FROM games WHERE id = ?').get(gameId);
+    if (!game) throw new Error('Game not found.');
+    if (!game.autoApproveMinutes) throw new Error(game.name + ' has no auto-approval policy.');
+    if (held) db.prepare('UPDATE games SET approvalHeld = 1 WHERE id = ?').run(gameId);
+    else db.prepare('UPDATE games SET approvalHeld = 0, resultChangedAt = CASE WHEN resultChangedAt IS NULL THEN NULL ELSE ? END WHERE id = ?').run(new Date().toISOString(), gameId);
+    return findAccountById(gameId, 'games');
+};
+
+// Approves, through the normal path, every game whose auto-approval delay has run out.
+const runAutoApprovals = () => {
+    const now = new Date().toISOString();
+    getActiveGames().filter(g => g.autoApproveAt && g.autoApproveAt <= now).forEach(g => {
+        try {
+            runInTransaction(() => {
+                const before = getAuditSnapshot('game', g.id);
+                approvePayoutsForGame(g.id);
+                recordSystemAudit('game.auto-approve', g.id, before);
+            });
+            console.log('--- [DATABASE] Auto-approved payouts for: ' + g.id + ' ---');
+        } catch (e) {
+            logError('AUTO_APPROVE ' + g.id, e);
+        }
+    });
+};
+
+const getResettlements = (gameId) => db.prepare('SELECT * FROM resettlements WHERE gameId = ? ORDER BY timestamp DESC').all(gameId).map(r => inRupees('resettlements', r));
+
+// Reports each active game's current cycle, declared or not (or the cycle its result is from, while a holiday
+// keeps it); earlier cycles' bets are left out.
 const getFinancialSummary = () => {
     try {
-        const games = db.prepare('SELECT * FROM games WHERE winningNumber IS NOT NULL').all();
-        const allBets = db.prepare('SELECT * FROM bets').all().map(b => {
-            b.numbers = JSON.parse(b.numbers);
-            return b;
-        });
+        const games = db.prepare('SELECT * FROM games WHERE isArchived = 0').all().map(g => ({ ...g, cycleDate: getResultCycleDate(g) }));
+        const cycleOf = Object.fromEntries(games.map(g => [g.id, g.cycleDate]));
+        const allBets = db.prepare("SELECT * FROM bets WHERE status != 'void' AND cycleDate IN (SELECT value FROM json_each(?))")
+            .all(JSON.stringify(Object.values(cycleOf))).map(parseBetRow).filter(b => cycleOf[b.gameId] === b.cycleDate);
         // FIX: Use batch queries (no N+1)
         const allUsers = Object.fromEntries(getAllFromTable('users').map(u => [u.id, u]));
         const allDealers = Object.fromEntries(getAllFromTable('dealers').map(d => [d.id, d]));
-        const getMultiplier = (r, t) => t === "1 Digit Open" ? r.oneDigitOpen : t === "1 Digit Close" ? r.oneDigitClose : r.twoDigit;
 
         const summary = games.map(game => {
             const gameBets = allBets.filter(b => b.gameId === game.id);
-            const totalStake = gameBets.reduce((s, b) => s + b.totalAmount, 0);
+            const totalStake = sumPaisa(gameBets.map(b => b.totalAmount));
             let payouts = 0, dProfit = 0;
-            if (!game.winningNumber.endsWith('_')) {
-                gameBets.forEach(bet => {
-                    const wins = bet.numbers.filter(n => {
-                        if (bet.subGameType === "1 Digit Open") return game.winningNumber.length === 2 && n === game.winningNumber[0];
-                        if (bet.subGameType === "1 Digit Close") return game.name === 'AKC' ? n === game.winningNumber : (game.winningNumber.length === 2 && n === game.winningNumber[1]);
-                        return n === game.winningNumber;
-                    });
-                    if (wins.length > 0) {
-                        const u = allUsers[bet.userId], d = allDealers[bet.dealerId];
-                        if (u && d) {
-                            payouts += wins.length * bet.amountPerNumber * getMultiplier(u.prizeRates, bet.subGameType);
-                            dProfit += wins.length * bet.amountPerNumber * (getMultiplier(d.prizeRates, bet.subGameType) - getMultiplier(u.prizeRates, bet.subGameType));
-                        }
-                    }
-                });
+            if (game.winningNumber && !game.winningNumber.endsWith('_')) {
+                // Settled bets report what was actually paid; bets awaiting approval are projected by the same engine.
+                gameBets.filter(b => b.status === 'won').forEach(b => { payouts += b.payout || 0; dProfit += b.dealerProfit || 0; });
+                computeSettlement(game, game.winningNumber, gameBets.filter(b => b.status === 'pending')).forEach(r => { payouts += r.userPrize; dProfit += r.dealerProfit; });
             }
-            const comms = gameBets.reduce((s, b) => {
+            const comms = sumPaisa(gameBets.map(b => {
                 const u = allUsers[b.userId], d = allDealers[b.dealerId];
-                return u && d ? s + (b.totalAmount * (u.commissionRate / 100)) + (b.totalAmount * ((d.commissionRate - u.commissionRate) / 100)) : s;
-            }, 0);
-            return { gameName: game.name, winningNumber: game.winningNumber, totalStake, totalPayouts: payouts, totalDealerProfit: dProfit, totalCommissions: comms, netProfit: totalStake - payouts - dProfit - comms };
-        });
-
-        const totals = summary.reduce((t, g) => { t.totalStake += g.totalStake; t.totalPayouts += g.totalPayouts; t.totalDealerProfit += g.totalDealerProfit; t.totalCommissions += g.totalCommissions; t.netProfit += g.netProfit; return t; }, { totalStake: 0, totalPayouts: 0, totalDealerProfit: 0, totalCommissions: 0, netProfit: 0 });
+                if (!u || !d) return 0;
+                const paid = getBetCommissions(b, u, d);
+                return paid.user + paid.dealer;
+            }));
+            return { gameName: game.name, cycleDate: game.cycleDate, winningNumber: game.winningNumber, totalStake, totalPayouts: payouts, totalDealerProfit: dProfit, totalCommissions: comms, netProfit: totalStake - payouts - dProfit - comms };
+        }).map(g => ({ ...g, totalStake: toRupees(g.totalStake), totalPayouts: toRupees(g.totalPayouts), totalDealerProfit: toRupees(g.totalDealerProfit), totalCommissions: toRupees(g.totalCommissions), netProfit: toRupees(g.netProfit) }));
+
+        const total = (key) => toRupees(sumPaisa(summary.map(g => toPaisa(g[key]))));
+        const totals = { totalStake: total('totalStake'), totalPayouts: total('totalPayouts'), totalDealerProfit: total('totalDealerProfit'), totalCommissions: total('totalCommissions'), netProfit: total('netProfit') };
         return { games: summary.sort((a, b) => a.gameName.localeCompare(b.gameName)), totals: totals, totalBets: allBets.length };
     } catch (e) {
         logError('FINANCIAL_SUMMARY', e);
@@ -403,8 +1063,10 @@ const getFinancialSummary = () => {
 const createDealer = (d) => {
     if (db.prepare('SELECT id FROM dealers WHERE LOWER(id) = ?').get(d.id.toLowerCase())) throw new Error("ID taken.");
     // FIX: hash password before insert
-    db.prepare('INSERT INTO dealers (id, name, password, area, contact, wallet, commissionRate, isRestricted, prizeRates, avatarUrl) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').run(d.id, d.name, hashPassword(d.password), d.area, d.contact, d.wallet || 0, d.commissionRate, 0, JSON.stringify(d.prizeRates), d.avatarUrl);
-    if (d.wallet > 0) addLedgerEntry(d.id, 'DEALER', 'Initial setup', 0, d.wallet);
+    db.prepare('INSERT INTO dealers (id, name, password, area, contact, wallet, commissionRate, isRestricted, prizeRates, avatarUrl) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').run(d.id, d.name, hashPassword(d.password), d.area, d.contact, 0, d.commissionRate, 0, JSON.stringify(d.prizeRates), d.avatarUrl);
+    // The opening balance arrives through the ledger, funded by the treasury, so the wallet always equals its last entry.
+    const opening = toPaisa(d.wallet);
+    if (opening > 0) postJournal([debitLeg('TREASURY', TREASURY_ID, 'Funding Dealer ' + d.id + ' (opening balance)', opening), creditLeg('DEALER', d.id, 'Initial setup', opening)]);
     return findAccountById(d.id, 'dealers');
 };
 
@@ -416,11 +1078,42 @@ const updateDealer = (d, originalId) => {
     if (d.id !== originalId) {
         db.prepare('UPDATE users SET dealerId = ? WHERE LOWER(dealerId) = LOWER(?)').run(d.id, originalId);
         db.prepare('UPDATE bets SET dealerId = ? WHERE LOWER(dealerId) = LOWER(?)').run(d.id, originalId);
+        db.prepare('UPDATE number_limits SET dealerId = ? WHERE LOWER(dealerId) = LOWER(?)').run(d.id, originalId);
         db.prepare('UPDATE ledgers SET accountId = ? WHERE LOWER(accountId) = LOWER(?) AND accountType = ?').run(d.id, originalId, 'DEALER');
     }
     return findAccountById(d.id, 'dealers');
 };
 
+// Additional admins log in with their own credentials and start from the primary admin's rates, with only the
+// permissions they are given (none means view-only).
+const createAdmin = (a) => {
+    const id = String(a.id || '').trim();
+    if (!id || !String(a.name || '').trim() || !a.password) throw new Error('ID, name and password are required.');
+    const takenIn = ['admins', 'dealers', 'users'].find(t => db.prepare('SELECT id FROM ' + t + ' WHERE LOWER(id) = ?').get(id.toLowerCase()));
+    if (takenIn) throw new Error("ID taken.");
+    const permissions = validateAdminPermissions(a.permissions || []);
+    const primary = getAdminAccount();
+    db.prepare('INSERT INTO admins (id, name, password, wallet, prizeRates, avatarUrl, permissions) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(id, String(a.name).trim(), hashPassword(a.password), 0, JSON.stringify(primary.prizeRates), a.avatarUrl || null, JSON.stringify(permissions));
+    return findAccountById(id, 'admins');
+};
+
+const getAdmins = () => {
+    const primaryId = getAdminAccount().id;
+    return db.prepare('SELECT id, name, avatarUrl, permissions FROM admins ORDER BY rowid').all()
+        .map(a => ({ ...a, permissions: parseAdminPermissions(a.permissions), isPrimary: a.id === primaryId }));
+};
+
+// The primary admin always keeps every permission, and nobody can change their own, so the system cannot be locked out.
+const setAdminPermissions = (adminId, permissions, actorId) => {
+    const admin = db.prepare('SELECT id FROM admins WHERE LOWER(id) = LOWER(?)').get(adminId);
+    if (!admin) throw new Error('Admin not found.');
+    if (admin.id === getAdminAccount().id) throw new Error('The primary admin always has every permission.');
+    if (admin.id.toLowerCase() === String(actorId).toLowerCase()) throw new Error('You cannot change your own permissions.');
+    db.prepare('UPDATE admins SET permissions = ? WHERE id = ?').run(JSON.stringify(validateAdminPermissions(permissions)), admin.id);
+    return getAdmins().find(a => a.id === admin.id);
+};
+
 // FIX: Added password to the UPDATE so admin can change their password.
 const updateAdmin = (a, adminId) => {
     const updateStmt = a.password
@@ -437,7 +1130,7 @@ const updateAdmin = (a, adminId) => {
 
 // FIX: Eliminated N+1 — fetch all users then batch-load ledgers in one query.
 const findUsersByDealerId = (dealerId) => {
-    const users = db.prepare('SELECT * FROM users WHERE LOWER(dealerId) = LOWER(?)').all(dealerId);
+    const users = db.prepare('SELECT * FROM users WHERE LOWER(dealerId) = LOWER(?)').all(dealerId).map(u => inRupees('users', u));
     if (users.length === 0) return [];
 
     const ids = users.map(u => u.id);
@@ -450,7 +1143,7 @@ const findUsersByDealerId = (dealerId) => {
     allLedgers.forEach(l => {
         const key = l.accountId.toLowerCase();
         if (!ledgerMap[key]) ledgerMap[key] = [];
-        ledgerMap[key].push(l);
+        ledgerMap[key].push(ledgerInRupees(l));
     });
 
     return users.map(acc => {
@@ -463,18 +1156,9 @@ const findUsersByDealerId = (dealerId) => {
     });
 };
 
-const findBetsByDealerId = (id) => db.prepare('SELECT * FROM bets WHERE LOWER(dealerId) = LOWER(?) ORDER BY timestamp DESC').all(id).map(b => {
-    b.numbers = JSON.parse(b.numbers);
-    return b;
-});
-const findBetsByUserId = (id) => db.prepare('SELECT * FROM bets WHERE LOWER(userId) = LOWER(?) ORDER BY timestamp DESC').all(id).map(b => {
-    b.numbers = JSON.parse(b.numbers);
-    return b;
-});
-const findBetsByGameId = (id) => db.prepare('SELECT * FROM bets WHERE gameId = ?').all(id).map(b => {
-    b.numbers = JSON.parse(b.numbers);
-    return b;
-});
+const findBetsByDealerId = (id) => db.prepare('SELECT * FROM bets WHERE LOWER(dealerId) = LOWER(?) ORDER BY timestamp DESC').all(id).map(parseBet);
+const findBetsByUserId = (id) => db.prepare('SELECT * FROM bets WHERE LOWER(userId) = LOWER(?) ORDER BY timestamp DESC').all(id).map(parseBet);
+const findBetsByGameId = (id) => db.prepare('SELECT * FROM bets WHERE gameId = ?').all(id).map(parseBet);
 
 const findUserByDealer = (uId, dId) => {
     const stmt = db.prepare('SELECT id FROM users WHERE LOWER(id) = LOWER(?) AND LOWER(dealerId) = LOWER(?)');
@@ -487,7 +1171,8 @@ const createUser = (u, dId, dep = 0) => {
     if (db.prepare('SELECT id FROM users WHERE LOWER(id) = ?').get(u.id.toLowerCase())) throw new Error("Username exists.");
     // FIX: hash password before insert
     db.prepare('INSERT INTO users (id, name, password, dealerId, area, contact, wallet, commissionRate, isRestricted, prizeRates, betLimits, avatarUrl) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').run(u.id, u.name, hashPassword(u.password), dId, u.area, u.contact, 0, u.commissionRate, 0, JSON.stringify(u.prizeRates), JSON.stringify(u.betLimits), u.avatarUrl);
-    if (dep > 0) { addLedgerEntry(dId, 'DEALER', 'Seed funding: ' + u.name, dep, 0); addLedgerEntry(u.id, 'USER', 'Initial deposit', 0, dep); }
+    const deposit = toPaisa(dep);
+    if (deposit > 0) postJournal([debitLeg('DEALER', dId, 'Seed funding: ' + u.name, deposit), creditLeg('USER', u.id, 'Initial deposit', deposit)]);
     return findAccountById(u.id, 'users');
 };
 
@@ -509,13 +1194,27 @@ const updateUserByAdmin = (u, uId) => {
     return findAccountById(uId, 'users');
 };
 
-const deleteUserByDealer = (uId, dId) => {
+// Accounts are closed rather than deleted, so their ledger and bets stay intact. Any balance goes back to the
+// dealer in a closing journal; the account is then locked and can no longer log in or be funded.
+const closeUserByDealer = (uId, dId) => {
+    let closed;
     runInTransaction(() => {
-        db.prepare('DELETE FROM ledgers WHERE LOWER(accountId) = LOWER(?) AND accountType = ?').run(uId, 'USER');
-        db.prepare('DELETE FROM bets WHERE LOWER(userId) = LOWER(?)').run(uId);
-        db.prepare('DELETE FROM users WHERE LOWER(id) = LOWER(?) AND LOWER(dealerId) = LOWER(?)').run(uId, dId);
+        const user = db.prepare('SELECT * FROM users WHERE LOWER(id) = LOWER(?) AND LOWER(dealerId) = LOWER(?)').get(uId, dId);
+        if (!user) throw new Error('User not found in your network.');
+        if (user.closedAt) throw new Error(user.name + "'s account is already closed.");
+        if (db.prepare("SELECT id FROM bets WHERE LOWER(userId) = LOWER(?) AND status = 'pending'").get(user.id)) {
+            throw new Error(user.name + ' has unsettled bets; close the account once they are settled.');
+        }
+        if (user.wallet > 0) {
+            postJournal([
+                debitLeg('USER', user.id, 'Account closed: balance returned to dealer', user.wallet),
+                creditLeg('DEALER', user.dealerId, 'Closed account balance: ' + user.id, user.wallet)
+            ]);
+        }
+        db.prepare('UPDATE users SET isRestricted = 1, closedAt = ? WHERE id = ?').run(new Date().toISOString(), user.id);
+        closed = findAccountById(user.id, 'users');
     });
-    return true;
+    return closed;
 };
 
 const toggleAccountRestrictionByAdmin = (id, type) => {
@@ -526,15 +1225,16 @@ const toggleAccountRestrictionByAdmin = (id, type) => {
         if (!acc) throw new Error('Not found.');
         const status = acc.isRestricted ? 0 : 1;
         db.prepare('UPDATE ' + table + ' SET isRestricted = ? WHERE LOWER(id) = LOWER(?)').run(status, id);
-        if (type.toLowerCase() === 'dealer') db.prepare('UPDATE users SET isRestricted = ? WHERE LOWER(dealerId) = LOWER(?)').run(status, id);
+        if (type.toLowerCase() === 'dealer') db.prepare('UPDATE users SET isRestricted = ? WHERE LOWER(dealerId) = LOWER(?) AND closedAt IS NULL').run(status, id);
         result = findAccountById(id, table);
     });
     return result;
 };
 
 const toggleUserRestrictionByDealer = (uId, dId) => {
-    const user = db.prepare('SELECT isRestricted FROM users WHERE LOWER(id) = LOWER(?) AND LOWER(dealerId) = LOWER(?)').get(uId, dId);
+    const user = db.prepare('SELECT isRestricted, closedAt FROM users WHERE LOWER(id) = LOWER(?) AND LOWER(dealerId) = LOWER(?)').get(uId, dId);
     if (!user) throw new Error('Not found.');
+    if (user.closedAt) throw new Error('A closed account cannot be unlocked.');
     db.prepare('UPDATE users SET isRestricted = ? WHERE LOWER(id) = LOWER(?)').run(user.isRestricted ? 0 : 1, uId);
     return findAccountById(uId, 'users');
 };
@@ -542,10 +1242,11 @@ const toggleUserRestrictionByDealer = (uId, dId) => {
 function getNumberStakeSummary(params) {
     try {
         let query = 'SELECT gameId, subGameType, numbers, amountPerNumber, totalAmount FROM bets';
-        const vals = [], conds = [];
+        const vals = [], conds = ["status != 'void'"];
         if (params.gameId) { conds.push('gameId = ?'); vals.push(params.gameId); }
         if (params.dealerId) { conds.push('LOWER(dealerId) = LOWER(?)'); vals.push(params.dealerId); }
-        if (params.date) { conds.push('date(timestamp) = ?'); vals.push(params.date); }
+        // The date is a cycle date, so a bet placed after midnight for a late draw counts with the cycle it belongs to.
+        if (params.date) { conds.push('cycleDate = ?'); vals.push(params.date); }
         if (conds.length > 0) query += ' WHERE ' + conds.join(' AND ');
 
         const bets = db.prepare(query).all(...vals);
@@ -563,12 +1264,12 @@ function getNumberStakeSummary(params) {
             } catch (e) { }
         });
 
-        const sort = (m) => Array.from(m.entries()).map(e => ({ number: e[0], stake: e[1] })).sort((a, b) => b.stake - a.stake);
+        const sort = (m) => Array.from(m.entries()).map(e => ({ number: e[0], stake: toRupees(e[1]) })).sort((a, b) => b.stake - a.stake);
         return {
             twoDigit: sort(map2),
             oneDigitOpen: sort(mapO),
             oneDigitClose: sort(mapC),
-            gameBreakdown: Array.from(mapG.entries()).map(e => ({ gameId: e[0], stake: e[1] }))
+            gameBreakdown: Array.from(mapG.entries()).map(e => ({ gameId: e[0], stake: toRupees(e[1]) }))
         };
     } catch (e) {
         logError('NUMBER_SUMMARY', e);
@@ -576,36 +1277,199 @@ function getNumberStakeSummary(params) {
     }
 }
 
-const placeBulkBets = (uId, gId, groups) => {
+// --- NUMBER LIMIT ENFORCEMENT ---
+// number_limits buckets bets by '1-open' / '1-close' / '2-digit'; Bulk and Combo
+// bets carry two-digit numbers so they share the '2-digit' bucket.
+const getLimitGameType = (subGameType) => subGameType === '1 Digit Open' ? '1-open' : subGameType === '1 Digit Close' ? '1-close' : '2-digit';
+
+// Sums the current cycle's stakes on a game in paisa, per '<bucket>__<number>' key and in
+// total. Pass { userId } or { dealerId } to only count that player's / network's bets.
+const getCycleStakes = (game, filter = {}) => {
+    let query = "SELECT subGameType, numbers, amountPerNumber, totalAmount FROM bets WHERE gameId = ? AND cycleDate = ? AND status != 'void'";
+    const vals = [game.id, getCycleDate(game)];
+    if (filter.userId) { query += ' AND LOWER(userId) = LOWER(?)'; vals.push(filter.userId); }
+    if (filter.dealerId) { query += ' AND LOWER(dealerId) = LOWER(?)'; vals.push(filter.dealerId); }
+
+    const byNumber = new Map();
+    let total = 0;
+    db.prepare(query).all(...vals).forEach(b => {
+        total += b.totalAmount;
+        const type = getLimitGameType(b.subGameType);
+        JSON.parse(b.numbers).forEach(n => {
+            const key = type + '__' + n;
+            byNumber.set(key, (byNumber.get(key) || 0) + b.amountPerNumber);
+        });
+    });
+    return { byNumber: byNumber, total: total };
+};
+
+// Picks the most specific limit for each number: game+dealer > game > dealer > global.
+// A dealer-scoped limit caps that dealer's network book; any other limit caps the
+// whole game's book on that number.
+const LIMIT_SCOPE_RANK = { 'game-dealer': 4, 'game': 3, 'dealer': 2, 'global': 1 };
+const getLimitScope = (l) => l.gameId && l.dealerId ? 'game-dealer' : l.gameId ? 'game' : l.dealerId ? 'dealer' : 'global';
+
+const resolveNumberLimits = (gameId, dealerId) => {
+    const rows = db.prepare('SELECT * FROM number_limits WHERE (gameId IS NULL OR gameId = ?) AND (dealerId IS NULL OR LOWER(dealerId) = LOWER(?))').all(gameId, dealerId || '');
+    const resolved = new Map();
+    rows.forEach(l => {
+        const key = l.gameType + '__' + l.numberValue;
+        const current = resolved.get(key);
+        if (!current || LIMIT_SCOPE_RANK[getLimitScope(l)] > LIMIT_SCOPE_RANK[getLimitScope(current)]) resolved.set(key, l);
+    });
+    return resolved;
+};
+
+// Compares the requested stake per number against the effective limits, taking
+// into account everything already staked on that number in the current cycle.
+// Must run inside the placement transaction so concurrent bets see each other.
+const findNumberLimitViolations = (game, dealerId, groups) => {
+    const limitMap = resolveNumberLimits(game.id, dealerId);
+    if (limitMap.size === 0) return [];
+
+    const requested = new Map();
+    groups.forEach(g => g.numbers.forEach(n => {
+        const key = getLimitGameType(g.subGameType) + '__' + n;
+        if (limitMap.has(key)) requested.set(key, (requested.get(key) || 0) + g.amountPerNumber);
+    }));
+    if (requested.size === 0) return [];
+
+    let gameStakes = null, dealerStakes = null;
+    const violations = [];
+    requested.forEach((amount, key) => {
+        const limit = limitMap.get(key);
+        const scope = getLimitScope(limit);
+        let existing;
+        if (scope === 'game-dealer' || scope === 'dealer') existing = (dealerStakes = dealerStakes || getCycleStakes(game, { dealerId: dealerId })).byNumber;
+        else existing = (gameStakes = gameStakes || getCycleStakes(game)).byNumber;
+
+        const currentStake = existing.get(key) || 0;
+        if (currentStake + amount > limit.limitAmount) {
+            const parts = key.split('__');
+            violations.push({
+                gameId: game.id, gameName: game.name, gameType: parts[0], number: parts[1], scope: scope,
+                limitAmount: toRupees(limit.limitAmount), currentStake: toRupees(currentStake), requested: toRupees(amount),
+                remaining: toRupees(Math.max(0, limit.limitAmount - currentStake))
+            });
+        }
+    });
+    return violations;
+};
+
+// --- PER-USER BET LIMITS ---
+// User.betLimits caps the stake a single player may hold per one-digit number,
+// per two-digit number and in total per draw. A missing or zero value means uncapped.
+// The caps are kept in rupees on the user and compared here in paisa.
+const getUserBetLimits = (user) => {
+    const limits = user.betLimits || {};
+    const cap = (v) => toPaisa(v) > 0 ? toPaisa(v) : null;
+    return { oneDigit: cap(limits.oneDigit), twoDigit: cap(limits.twoDigit), perDraw: cap(limits.perDraw) };
+};
+
+const checkUserBetLimits = (user, game, groups) => {
+    const limits = getUserBetLimits(user);
+    if (!limits.oneDigit && !limits.twoDigit && !limits.perDraw) return;
+    const stakes = getCycleStakes(game, { userId: user.id });
+
+    if (limits.perDraw) {
+        const requestTotal = sumPaisa(groups.map(g => g.numbers.length * g.amountPerNumber));
+        const remaining = Math.max(0, limits.perDraw - stakes.total);
+        if (requestTotal > remaining) {
+            throw new Error('Per-draw limit of Rs ' + toRupees(limits.perDraw) + ' reached for ' + game.name + '. Remaining allowance: Rs ' + toRupees(remaining) + '.');
+        }
+    }
+
+    const requested = new Map();
+    groups.forEach(g => g.numbers.forEach(n => {
+        const key = getLimitGameType(g.subGameType) + '__' + n;
+        requested.set(key, (requested.get(key) || 0) + g.amountPerNumber);
+    }));
+    requested.forEach((amount, key) => {
+        const parts = key.split('__');
+        const isTwoDigit = parts[0] === '2-digit';
+        const cap = isTwoDigit ? limits.twoDigit : limits.oneDigit;
+        if (!cap) return;
+        const remaining = Math.max(0, cap - (stakes.byNumber.get(key) || 0));
+        if (amount > remaining) {
+            throw new Error((isTwoDigit ? '2-digit' : '1-digit') + ' limit of Rs ' + toRupees(cap) + ' per number exceeded on ' + parts[1] + ' in ' + game.name + '. Remaining allowance: Rs ' + toRupees(remaining) + '.');
+        }
+    });
+};
+
+// Remaining per-draw allowance and per-number stakes for each game this cycle,
+// so the betting modal can show the player where they stand before submitting.
+const getBetAllowances = (userId) => {
+    const user = findAccountById(userId, 'users');
+    if (!user) return [];
+    const limits = getUserBetLimits(user);
+    const orNull = (paisa) => paisa === null ? null : toRupees(paisa);
+    return db.prepare('SELECT * FROM games WHERE isArchived = 0').all().map(g => {
+        const stakes = getCycleStakes(g, { userId: user.id });
+        return {
+            gameId: g.id,
+            oneDigitLimit: orNull(limits.oneDigit),
+            twoDigitLimit: orNull(limits.twoDigit),
+            perDrawLimit: orNull(limits.perDraw),
+            perDrawUsed: toRupees(stakes.total),
+            perDrawRemaining: limits.perDraw ? toRupees(Math.max(0, limits.perDraw - stakes.total)) : null,
+            stakedByNumber: Object.fromEntries(Array.from(stakes.byNumber, ([key, stake]) => [key, toRupees(stake)]))
+        };
+    });
+};
+
+// Stakes arrive in rupees; everything from here on works on paisa.
+const toStakeGroups = (groups) => (Array.isArray(groups) ? groups : []).map(g => {
+    const amountPerNumber = parseRupeeAmount(g.amountPerNumber);
+    if (amountPerNumber === null) throw new Error('Stake per number must be a positive amount with at most two decimal places.');
+    return { ...g, amountPerNumber };
+});
+
+const placeBulkBets = (uId, gId, betGroups) => {
     let result = null;
+    const groups = toStakeGroups(betGroups);
     runInTransaction(() => {
         const user = findAccountById(uId, 'users');
         if (!user || user.isRestricted) throw new Error('Access denied.');
         const game = findAccountById(gId, 'games');
         // FIX: Use isMarketOpen flag set by findAccountById, no duplicate isGameOpen call.
+        if (game && game.isSuspended) throw new Error(game.name + ' is suspended.');
+        if (game && game.isHoliday) throw new Error(game.name + ' is closed for ' + game.holidayReason + '.');
         if (!game || !game.isMarketOpen) throw new Error("Market is closed.");
+        const unavailable = groups.find(g => !isSubGameAllowed(game, g.subGameType));
+        if (unavailable) throw new Error(unavailable.subGameType + ' is not available in ' + game.name + '.');
+
+        checkUserBetLimits(user, game, groups);
+
+        const violations = findNumberLimitViolations(game, user.dealerId, groups);
+        if (violations.length > 0) {
+            const err = new Error('Number limit exceeded in ' + game.name + ': ' + violations.map(v => v.number + ' (Rs ' + v.remaining + ' left)').join(', '));
+            err.violations = violations;
+            throw err;
+        }
+
         const dealer = findAccountById(user.dealerId, 'dealers');
-        const requestTotal = groups.reduce((s, g) => s + g.numbers.length * g.amountPerNumber, 0);
-        if (user.wallet < requestTotal) throw new Error('Balance too low.');
+        const requestTotal = sumPaisa(groups.map(g => g.numbers.length * g.amountPerNumber));
+        if (toPaisa(user.wallet) < requestTotal) throw new Error('Balance too low.');
 
         // FIX: Validate commission rates to prevent negative dealer commission.
         if (user.commissionRate > dealer.commissionRate) {
             throw new Error('Configuration error: user commission rate exceeds dealer rate.');
         }
 
-        // FIX: Use dynamic admin lookup, not hardcoded 'Guru'.
-        const admin = getAdminAccount();
-        const userComm = Math.round(requestTotal * (user.commissionRate / 100) * 100) / 100;
-        const dComm = Math.round(requestTotal * ((dealer.commissionRate - user.commissionRate) / 100) * 100) / 100;
-
-        addLedgerEntry(user.id, 'USER', 'Bet: ' + game.name, requestTotal, 0);
-        if (userComm > 0) addLedgerEntry(user.id, 'USER', 'Comm earned', 0, userComm);
-        addLedgerEntry(admin.id, 'ADMIN', 'Stake: ' + user.name, 0, requestTotal);
-        if (userComm > 0) addLedgerEntry(admin.id, 'ADMIN', 'Comm paid', userComm, 0);
-        if (dComm > 0) {
-            addLedgerEntry(admin.id, 'ADMIN', 'Override payout', dComm, 0);
-            addLedgerEntry(dealer.id, 'DEALER', 'Comm cut: ' + user.name, 0, dComm);
-        }
+        // Commission is fixed per bet at placement so a later void can reverse exactly what was paid.
+        // The ledger posts the sum of the per-bet amounts, so voiding every bet nets back to zero.
+        const betCommissions = groups.map(g => getCommissions(g.numbers.length * g.amountPerNumber, user, dealer));
+        const userComm = sumPaisa(betCommissions.map(c => c.user));
+        const dComm = sumPaisa(betCommissions.map(c => c.dealer));
+
+        postJournal([
+            debitLeg('USER', user.id, 'Bet: ' + game.name, requestTotal),
+            creditLeg('USER', user.id, 'Comm earned', userComm),
+            creditLeg('TREASURY', TREASURY_ID, 'Stake: ' + user.name, requestTotal),
+            debitLeg('TREASURY', TREASURY_ID, 'Comm paid', userComm),
+            debitLeg('TREASURY', TREASURY_ID, 'Override payout', dComm),
+            creditLeg('DEALER', dealer.id, 'Comm cut: ' + user.name, dComm)
+        ]);
 
         const created = [];
         for (var i = 0; i < groups.length; i++) {
@@ -614,50 +1478,570 @@ const placeBulkBets = (uId, gId, groups) => {
                 id: uuidv4(), userId: uId, dealerId: dealer.id, gameId: game.id,
                 subGameType: g.subGameType, numbers: JSON.stringify(g.numbers),
                 amountPerNumber: g.amountPerNumber, totalAmount: g.numbers.length * g.amountPerNumber,
-                timestamp: new Date().toISOString()
+                timestamp: new Date().toISOString(), cycleDate: getCycleDate(game), status: 'pending',
+                userCommission: betCommissions[i].user, dealerCommission: betCommissions[i].dealer
             };
-            db.prepare('INSERT INTO bets (id, userId, dealerId, gameId, subGameType, numbers, amountPerNumber, totalAmount, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)').run(b.id, b.userId, b.dealerId, b.gameId, b.subGameType, b.numbers, b.amountPerNumber, b.totalAmount, b.timestamp);
+            db.prepare('INSERT INTO bets (id, userId, dealerId, gameId, subGameType, numbers, amountPerNumber, totalAmount, timestamp, cycleDate, status, userCommission, dealerCommission) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+                .run(b.id, b.userId, b.dealerId, b.gameId, b.subGameType, b.numbers, b.amountPerNumber, b.totalAmount, b.timestamp, b.cycleDate, b.status, b.userCommission, b.dealerCommission);
             b.numbers = g.numbers;
-            created.push(b);
+            created.push(inRupees('bets', b));
         }
         result = created;
     });
+    emitChange('bet', { userId: uId, dealerId: result[0] ? result[0].dealerId : null, gameId: gId });
     return result;
 };
 
-const updateGameDrawTime = (id, time) => {
-    db.prepare('UPDATE games SET drawTime = ? WHERE id = ?').run(time, id);
+// Voids a bet and writes compensating entries for every leg placeBulkBets posted:
+// the stake, the user's commission and the dealer's override. Users may cancel within
+// the grace window while the market is open, dealers any bet in their network while
+// the market is open, admins any bet of the current cycle until payouts are approved.
+const voidBet = (betId, actorId, actorRole) => {
+    let voided = null;
+    runInTransaction(() => {
+        const bet = db.prepare('SELECT * FROM bets WHERE id = ?').get(betId);
+        if (!bet) throw new Error('Bet not found.');
+        if (bet.status === 'void') throw new Error('Bet is already void.');
+        const game = findAccountById(bet.gameId, 'games');
+        if (!game) throw new Error('Game not found.');
+        if (bet.cycleDate !== getCycleDate(game)) throw new Error('Bets from a previous draw cycle cannot be voided.');
+
+        if (actorRole === 'USER') {
+            if (bet.userId.toLowerCase() !== String(actorId).toLowerCase()) throw new Error('Bet not found.');
+            if (!game.isMarketOpen) throw new Error('Market is closed.');
+            if (Date.now() - new Date(bet.timestamp).getTime() > BET_VOID_GRACE_MINUTES * 60 * 1000) {
+                throw new Error('Bets can only be cancelled within ' + BET_VOID_GRACE_MINUTES + ' minute(s) of placement.');
+            }
+        } else if (actorRole === 'DEALER') {
+            if (bet.dealerId.toLowerCase() !== String(actorId).toLowerCase()) throw new Error('Bet not found in your network.');
+            if (!game.isMarketOpen) throw new Error('Market is closed.');
+        } else if (actorRole === 'ADMIN') {
+            if (game.payoutsApproved) throw new Error('Payouts already approved for ' + game.name + '.');
+        } else {
+            throw new Error('Access denied.');
+        }
+
+        const user = findAccountById(bet.userId, 'users');
+        const dealer = findAccountById(bet.dealerId, 'dealers');
+        if (!user || !dealer) throw new Error('Bet owner no longer exists.');
+        const { user: userComm, dealer: dComm } = getBetCommissions(bet, user, dealer);
+
+        postJournal([
+            creditLeg('USER', user.id, 'Bet void: ' + game.name, bet.totalAmount),
+            debitLeg('USER', user.id, 'Comm reversal', userComm),
+            debitLeg('TREASURY', TREASURY_ID, 'Stake refund: ' + user.name, bet.totalAmount),
+            creditLeg('TREASURY', TREASURY_ID, 'Comm reversal', userComm),
+            // The dealer may have spent the override already; the refund must not wait on it.
+            debitLeg('DEALER', dealer.id, 'Comm cut reversal: ' + user.name, dComm, true),
+            creditLeg('TREASURY', TREASURY_ID, 'Override reversal', dComm)
+        ]);
+
+        db.prepare("UPDATE bets SET status = 'void', voidedAt = ?, voidedBy = ? WHERE id = ?").run(new Date().toISOString(), actorId, bet.id);
+        voided = parseBet(db.prepare('SELECT * FROM bets WHERE id = ?').get(bet.id));
+    });
+    emitChange('bet', { userId: voided.userId, dealerId: voided.dealerId, gameId: voided.gameId });
+    return voided;
+};
+
+// --- GAME MANAGEMENT ---
+const GAME_KINDS = ['standard', 'open-half', 'close-half'];
+const MAX_LOGO_BYTES = 200 * 1024;
+const MAX_CLOSE_BUFFER_MINUTES = 180;
+const MAX_AUTO_APPROVE_MINUTES = 24 * 60;
+
+const getActiveGames = () => getAllFromTable('games').filter(g => !g.isArchived);
+
+const validateGame = (g, existing) => {
+    const name = String(g.name || '').trim();
+    if (!name || name.length > 30) throw new Error('Game name is required (max 30 characters).');
+    const clash = db.prepare('SELECT id FROM games WHERE LOWER(name) = LOWER(?) AND id != ?').get(name, existing ? existing.id : '');
+    if (clash) throw new Error('A game named ' + name + ' already exists.');
+    if (!isValidTime(g.drawTime)) throw new Error('Draw time must be in HH:MM format.');
+    const openTime = g.openTime === undefined ? (existing ? existing.openTime : DEFAULT_OPEN_TIME) : g.openTime;
+    if (!isValidTime(openTime)) throw new Error('Open time must be in HH:MM format.');
+    if (openTime === g.drawTime) throw new Error('Open time and draw time cannot be the same.');
+    const closeBufferMinutes = g.closeBufferMinutes === undefined ? (existing ? existing.closeBufferMinutes : 0) : Number(g.closeBufferMinutes);
+    if (!Number.isInteger(closeBufferMinutes) || closeBufferMinutes < 0 || closeBufferMinutes > MAX_CLOSE_BUFFER_MINUTES) {
+        throw new Error('Close buffer must be a whole number of minutes between 0 and ' + MAX_CLOSE_BUFFER_MINUTES + '.');
+    }
+    const { openAt, closeAt } = getGameCycle({ drawTime: g.drawTime, openTime, closeBufferMinutes });
+    if (closeAt <= openAt) throw new Error('Close buffer is longer than the time between open and draw.');
+    let autoApproveMinutes = g.autoApproveMinutes === undefined ? (existing ? existing.autoApproveMinutes : null) : g.autoApproveMinutes;
+    if (autoApproveMinutes === '' || autoApproveMinutes === 0) autoApproveMinutes = null;
+    if (autoApproveMinutes !== null && (!Number.isInteger(Number(autoApproveMinutes)) || autoApproveMinutes < 1 || autoApproveMinutes > MAX_AUTO_APPROVE_MINUTES)) {
+        throw new Error('Auto-approve delay must be between 1 and ' + MAX_AUTO_APPROVE_MINUTES + ' minutes, or empty to approve manually.');
+    }
+    if (autoApproveMinutes !== null) autoApproveMinutes = Number(autoApproveMinutes);
+
+    const kind = g.kind || 'standard';
+    if (!GAME_KINDS.includes(kind)) throw new Error('Invalid game kind.');
+    let parentGameId = null;
+    if (kind === 'close-half') {
+        const parent = g.parentGameId ? db.prepare('SELECT * FROM games WHERE id = ?').get(g.parentGameId) : null;
+        if (!parent || parent.kind !== 'open-half' || parent.isArchived) throw new Error('A close-half game must be linked to an active open-half game.');
+        const sibling = db.prepare("SELECT name FROM games WHERE kind = 'close-half' AND parentGameId = ? AND isArchived = 0 AND id != ?").get(parent.id, existing ? existing.id : '');
+        if (sibling) throw new Error(parent.name + ' is already completed by ' + sibling.name + '.');
+        parentGameId = parent.id;
+    }
+    if (existing) {
+        const kindChanged = existing.kind !== kind || (existing.parentGameId || null) !== parentGameId;
+        if (kindChanged && existing.winningNumber) throw new Error('Cannot change the game type while a result is declared.');
+        if (kindChanged && existing.kind === 'open-half' && findCloseHalf(existing)) throw new Error('Unlink the close-half game from ' + existing.name + ' first.');
+    }
+
+    let logo = existing ? existing.logo : null;
+    if (g.logo !== undefined) {
+        if (g.logo && (!/^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,/.test(g.logo) || Buffer.byteLength(g.logo.split(',')[1], 'base64') > MAX_LOGO_BYTES)) {
+            throw new Error('Logo must be a PNG, JPEG, GIF, WebP or SVG image under 200 KB.');
+        }
+        logo = g.logo || null;
+    }
+    return { name, drawTime: g.drawTime, openTime, closeBufferMinutes, autoApproveMinutes, kind, parentGameId, logo };
+};
+
+const createGame = (g) => {
+    let created;
+    runInTransaction(() => {
+        const v = validateGame(g, null);
+        const nextNumber = Math.max(0, ...db.prepare('SELECT id FROM games').all().map(r => parseInt(String(r.id).replace(/^g/, ''), 10)).filter(n => !isNaN(n))) + 1;
+        const id = 'g' + nextNumber;
+        db.prepare('INSERT INTO games (id, name, drawTime, openTime, closeBufferMinutes, autoApproveMinutes, kind, parentGameId, logo) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)')
+            .run(id, v.name, v.drawTime, v.openTime, v.closeBufferMinutes, v.autoApproveMinutes, v.kind, v.parentGameId, v.logo);
+        created = findAccountById(id, 'games');
+    });
+    return created;
+};
+
+const updateGame = (id, g) => {
+    let updated;
+    runInTransaction(() => {
+        const existing = db.prepare('SELECT * FROM games WHERE id = ?').get(id);
+        if (!existing) throw new Error('Game not found.');
+        const v = validateGame(g, existing);
+        db.prepare('UPDATE games SET name = ?, drawTime = ?, openTime = ?, closeBufferMinutes = ?, autoApproveMinutes = ?, kind = ?, parentGameId = ?, logo = ? WHERE id = ?')
+            .run(v.name, v.drawTime, v.openTime, v.closeBufferMinutes, v.autoApproveMinutes, v.kind, v.parentGameId, v.logo, id);
+        updated = findAccountById(id, 'games');
+    });
+    return updated;
+};
+
+// Retired games keep their bets and ledger history but disappear from the markets and stop taking bets.
+const setGameArchived = (id, archived) => {
+    let updated;
+    runInTransaction(() => {
+        const game = db.prepare('SELECT * FROM games WHERE id = ?').get(id);
+        if (!game) throw new Error('Game not found.');
+        if (archived) {
+            if (getUnsettledBets(game).length > 0) throw new Error(game.name + ' still has unsettled bets this cycle.');
+            const closeHalf = findCloseHalf(game);
+            if (closeHalf && !closeHalf.isArchived) throw new Error('Retire ' + closeHalf.name + ' before ' + game.name + '.');
+        } else if (game.kind === 'close-half') {
+            const parent = findParentGame(game);
+            if (!parent || parent.isArchived) throw new Error('Restore the parent game of ' + game.name + ' first.');
+        }
+        db.prepare('UPDATE games SET isArchived = ? WHERE id = ?').run(archived ? 1 : 0, id);
+        updated = findAccountById(id, 'games');
+    });
+    return updated;
+};
+
+// Instant switch: a suspended market stops taking bets until it is resumed, across cycle resets.
+const setGameSuspended = (id, suspended) => {
+    const game = db.prepare('SELECT * FROM games WHERE id = ?').get(id);
+    if (!game) throw new Error('Game not found.');
+    if (suspended && game.isArchived) throw new Error(game.name + ' is retired.');
+    db.prepare('UPDATE games SET isSuspended = ? WHERE id = ?').run(suspended ? 1 : 0, id);
     return findAccountById(id, 'games');
 };
 
-function getAllNumberLimits() { return db.prepare('SELECT * FROM number_limits').all(); }
+// --- MARKET HOLIDAY CALENDAR ---
+// A closure removes the cycle that opens on its (PKT) date, for one game or, without a gameId, for all of them.
+const getMarketClosures = () => db.prepare('SELECT * FROM market_closures ORDER BY date DESC, gameId').all();
+
+const addMarketClosure = (closure, actorId) => {
+    const date = String(closure.date || '');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date + 'T00:00:00Z'))) throw new Error('Date must be in YYYY-MM-DD format.');
+    // The running cycle may have opened yesterday (e.g. a 02:10 draw), so its date still counts.
+    const earliest = getActiveGames().map(g => getCycleDate(g)).concat(getMarketDate(new Date())).sort()[0];
+    if (date < earliest) throw new Error('Cannot add a holiday in the past.');
+    const reason = String(closure.reason || '').trim();
+    if (!reason) throw new Error('A reason is required.');
+    const gameId = closure.gameId || null;
+    if (gameId && !db.prepare('SELECT id FROM games WHERE id = ?').get(gameId)) throw new Error('Game not found.');
+    if (db.prepare("SELECT id FROM market_closures WHERE date = ? AND IFNULL(gameId, '') = ?").get(date, gameId || '')) {
+        throw new Error('A holiday is already set for that date.');
+    }
+    const info = db.prepare('INSERT INTO market_closures (gameId, date, reason, createdBy, createdAt) VALUES (?, ?, ?, ?, ?)')
+        .run(gameId, date, reason, actorId, new Date().toISOString());
+    return db.prepare('SELECT * FROM market_closures WHERE id = ?').get(info.lastInsertRowid);
+};
+
+const deleteMarketClosure = (id) => {
+    if (db.prepare('DELETE FROM market_closures WHERE id = ?').run(id).changes === 0) throw new Error('Holiday not found.');
+};
+
+// Changes only the draw time, through the same checks as a full edit.
+const updateGameDrawTime = (id, time) => {
+    const existing = db.prepare('SELECT * FROM games WHERE id = ?').get(id);
+    if (!existing) throw new Error('Game not found.');
+    return updateGame(id, { name: existing.name, kind: existing.kind, parentGameId: existing.parentGameId, drawTime: time });
+};
+
+function getAllNumberLimits() { return db.prepare('SELECT * FROM number_limits ORDER BY gameType, numberValue').all().map(l => inRupees('number_limits', l)); }
+// Upserts on (gameType, numberValue, gameId, dealerId); an empty gameId / dealerId means "all".
 function saveNumberLimit(limit) {
-    db.prepare('INSERT OR REPLACE INTO number_limits (gameType, numberValue, limitAmount) VALUES (?, ?, ?)').run(limit.gameType, limit.numberValue, limit.limitAmount);
-    return db.prepare('SELECT * FROM number_limits WHERE gameType = ? AND numberValue = ?').get(limit.gameType, limit.numberValue);
+    const gameId = limit.gameId || null, dealerId = limit.dealerId || null;
+    if (!['1-open', '1-close', '2-digit'].includes(limit.gameType)) throw new Error('Invalid game type.');
+    if (!/^\d+$/.test(String(limit.numberValue || '')) || String(limit.numberValue).length !== (limit.gameType === '2-digit' ? 2 : 1)) throw new Error('Invalid number: ' + limit.numberValue);
+    const limitAmount = parseRupeeAmount(limit.limitAmount);
+    if (limitAmount === null) throw new Error('Limit amount must be greater than zero, with at most two decimal places.');
+    if (gameId && !db.prepare('SELECT id FROM games WHERE id = ?').get(gameId)) throw new Error('Game not found.');
+    if (dealerId && !db.prepare('SELECT id FROM dealers WHERE LOWER(id) = LOWER(?)').get(dealerId)) throw new Error('Dealer not found.');
+
+    const scopeWhere = 'gameType = ? AND numberValue = ? AND IFNULL(gameId, \'\') = ? AND IFNULL(dealerId, \'\') = ?';
+    const scopeVals = [limit.gameType, limit.numberValue, gameId || '', dealerId || ''];
+    const existing = db.prepare('SELECT id FROM number_limits WHERE ' + scopeWhere).get(...scopeVals);
+    if (existing) {
+        db.prepare('UPDATE number_limits SET limitAmount = ? WHERE id = ?').run(limitAmount, existing.id);
+    } else {
+        db.prepare('INSERT INTO number_limits (gameType, numberValue, limitAmount, gameId, dealerId) VALUES (?, ?, ?, ?, ?)').run(limit.gameType, limit.numberValue, limitAmount, gameId, dealerId);
+    }
+    return inRupees('number_limits', db.prepare('SELECT * FROM number_limits WHERE ' + scopeWhere).get(...scopeVals));
+}
+function saveNumberLimits(limits) {
+    if (!Array.isArray(limits) || limits.length === 0) throw new Error('No limits supplied.');
+    let saved = [];
+    runInTransaction(() => { saved = limits.map(saveNumberLimit); });
+    return saved;
 }
 function deleteNumberLimit(id) { db.prepare('DELETE FROM number_limits WHERE id = ?').run(id); }
+function deleteNumberLimits(ids) {
+    if (!Array.isArray(ids) || ids.length === 0) throw new Error('No limits selected.');
+    runInTransaction(() => { ids.forEach(deleteNumberLimit); });
+}
+
+// Resets a game whose new cycle has started. A game on holiday keeps its last result until its
+// next trading cycle, and a declared result keeps it until its payouts are approved (held, waiting
+// for a second admin or simply not approved yet): clearing it would leave that cycle's bets pending
+// for good. approvePayoutsForGame then resets the game itself. Bets are never deleted: each one is
+// filed under its cycleDate, so the new cycle simply starts with none. `dueAt` is when the new
+// cycle opened, which may be in the past when a missed reset is caught up.
+function resetGame(gameId, dueAt = new Date()) {
+    const game = findAccountById(gameId, 'games');
+    if (!game) return;
+    if (game.isHoliday) {
+        console.log('--- [DATABASE] Holiday, reset skipped for: ' + gameId + ' ---');
+        return;
+    }
+    if (game.winningNumber && !game.payoutsApproved) {
+        console.log('--- [DATABASE] Payouts not yet approved, reset deferred for: ' + gameId + ' ---');
+        return;
+    }
+    runInTransaction(() => {
+        const before = getAuditSnapshot('game', gameId);
+        // File the result under the cycle it was recorded for. Results from before that was stored fall back to the
+        // cycle that just ended (a minute before the open), unless that was a holiday.
+        const cycleDate = game.resultCycleDate || getCycleDate(game, new Date(dueAt.getTime() - 60 * 1000));
+        if (!findMarketClosure(game, cycleDate)) archiveDraw(game, cycleDate);
+        db.prepare('UPDATE games SET winningNumber = NULL, payoutsApproved = 0, resultChangedAt = NULL, resultCycleDate = NULL, approvalHeld = 0, declaredBy = NULL, confirmedBy = NULL, confirmedAt = NULL WHERE id = ?').run(gameId);
+        recordSystemAudit('game.reset', gameId, before);
+    });
+    console.log('--- [DATABASE] Cycle Reset Triggered for: ' + gameId + ' ---');
+}
+
+// --- JOBS ---
+// Persistent schedule for background work. An instance claims a due job with a lock; the job's
+// effects and its rescheduling then commit in one transaction that re-checks the lock, so a run is
+// applied at most once across restarts and instances. A crashed run rolls back and is retried once
+// its lock expires; a missed run is caught up by the next tick.
+const JOB_LOCK_MS = 5 * 60 * 1000;
 
-// FIX: Only delete today's bets on reset, not all historical records.
-function resetAllGames() {
+const getJobs = () => db.prepare('SELECT * FROM jobs ORDER BY name').all();
+
+// Only moves a job that is not yet due, so a pending catch-up run is never dropped.
+const scheduleJob = (name, scheduledFor) => {
+    db.prepare('INSERT INTO jobs (name, scheduledFor) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET scheduledFor = excluded.scheduledFor WHERE jobs.scheduledFor > ?')
+        .run(name, scheduledFor.toISOString(), new Date().toISOString());
+};
+
+// `run(dueAt)` does the work and returns when the job should next run.
+const runJob = (name, owner, run) => {
+    const now = new Date().toISOString();
+    const claimed = db.prepare('UPDATE jobs SET lockedBy = ?, lockedUntil = ? WHERE name = ? AND scheduledFor <= ? AND (lockedUntil IS NULL OR lockedUntil < ?)')
+        .run(owner, new Date(Date.now() + JOB_LOCK_MS).toISOString(), name, now, now).changes === 1;
+    if (!claimed) return false;
+    const job = db.prepare('SELECT * FROM jobs WHERE name = ?').get(name);
     try {
         runInTransaction(() => {
-            db.prepare('UPDATE games SET winningNumber = NULL, payoutsApproved = 0').run();
-            db.prepare("DELETE FROM bets WHERE date(timestamp) = date('now')").run();
+            if (!db.prepare('SELECT name FROM jobs WHERE name = ? AND lockedBy = ? AND scheduledFor = ?').get(name, owner, job.scheduledFor)) {
+                throw new Error('Lost the lock on ' + name + '.');
+            }
+            const nextAt = run(new Date(job.scheduledFor));
+            db.prepare("UPDATE jobs SET scheduledFor = ?, lastRunAt = ?, lastStatus = 'ok', lastError = NULL, lockedBy = NULL, lockedUntil = NULL WHERE name = ?")
+                .run(nextAt.toISOString(), new Date().toISOString(), name);
         });
-        console.log('--- [DATABASE] Daily Reset Triggered. ---');
     } catch (e) {
-        logError('DAILY_RESET', e);
+        // Keep it due but back off for a lock period before retrying.
+        db.prepare("UPDATE jobs SET lastRunAt = ?, lastStatus = 'failed', lastError = ?, lockedBy = NULL, lockedUntil = ? WHERE name = ? AND lockedBy = ?")
+            .run(new Date().toISOString(), e.message, new Date(Date.now() + JOB_LOCK_MS).toISOString(), name, owner);
+        throw e;
     }
-}
+    return true;
+};
+
+const ensureJob = (name, scheduledFor) => {
+    db.prepare('INSERT OR IGNORE INTO jobs (name, scheduledFor) VALUES (?, ?)').run(name, scheduledFor.toISOString());
+};
+
+// One 'game-reset:<id>' job per active game, due at the game's next open time.
+const syncGameResetJobs = () => {
+    const games = getActiveGames();
+    games.forEach(g => scheduleJob('game-reset:' + g.id, getGameCycle(g).nextOpenAt));
+    const keep = new Set(games.map(g => 'game-reset:' + g.id));
+    getJobs().filter(j => j.name.startsWith('game-reset:') && !keep.has(j.name)).forEach(j => db.prepare('DELETE FROM jobs WHERE name = ?').run(j.name));
+};
+
+const runGameResetJob = (gameId, dueAt) => {
+    resetGame(gameId, dueAt);
+    const game = findAccountById(gameId, 'games');
+    if (!game) throw new Error('Game ' + gameId + ' not found.');
+    return getGameCycle(game).nextOpenAt;
+};
+
+// --- DELTA SYNC ---
+
+const getChangeCursor = () => db.prepare('SELECT seq FROM sync_state WHERE id = 1').get().seq;
+
+const formatSyncedAccount = (acc, table) => {
+    inRupees(table, acc);
+    acc.commissionRate = Number(acc.commissionRate) || 0;
+    if (acc.prizeRates && typeof acc.prizeRates === 'string') acc.prizeRates = JSON.parse(acc.prizeRates);
+    if (acc.betLimits && typeof acc.betLimits === 'string') acc.betLimits = JSON.parse(acc.betLimits);
+    if ('isRestricted' in acc) acc.isRestricted = !!acc.isRestricted;
+    return acc;
+};
+
+// What /api/{role}/data?since= returns: rows of the viewer's data stamped after `since`, plus the IDs deleted
+// since then. Accounts come without their ledger; new ledger rows are listed in ledgerEntries for the client
+// to append. The caller's own account (and the treasury, for admins) is always included.
+const getDataChangesSince = (since, role, accountId) => {
+    let changes = null;
+    runInTransaction(() => {
+        const cursor = getChangeCursor();
+        const rows = (table, where, ...params) => db.prepare('SELECT * FROM ' + table + ' WHERE changeSeq > ?' + (where ? ' AND (' + where + ')' : '') + ' ORDER BY changeSeq').all(since, ...params);
+        const deleted = (table, where, ...params) => db.prepare('SELECT rowId FROM sync_deletions WHERE seq > ? AND tableName = ?' + (where ? ' AND (' + where + ')' : '')).all(since, table, ...params).map(r => r.rowId);
+        const ledgerEntries = (where, ...params) => db.prepare('SELECT * FROM ledgers WHERE changeSeq > ? AND (' + where + ') ORDER BY timestamp, rowid').all(since, ...params).map(ledgerInRupees);
+
+        if (role === 'ADMIN') {
+            const treasury = inRupees('treasury', db.prepare('SELECT * FROM treasury WHERE id = ?').get(TREASURY_ID));
+            changes = {
+                account: findAccountById(accountId, 'admins'),
+                treasury,
+                dealers: rows('dealers').map(d => formatSyncedAccount(d, 'dealers')),
+                users: rows('users').map(u => formatSyncedAccount(u, 'users')),
+                bets: rows('bets').map(parseBet),
+                ledgerEntries: ledgerEntries('1 = 1'),
+                deleted: { dealers: deleted('dealers'), users: deleted('users'), bets: deleted('bets') }
+            };
+        } else if (role === 'DEALER') {
+            const dealer = db.prepare('SELECT * FROM dealers WHERE LOWER(id) = LOWER(?)').get(accountId);
+            changes = {
+                account: dealer && formatSyncedAccount(dealer, 'dealers'),
+                users: rows('users', 'LOWER(dealerId) = LOWER(?)', accountId).map(u => formatSyncedAccount(u, 'users')),
+                bets: rows('bets', 'LOWER(dealerId) = LOWER(?)', accountId).map(parseBet),
+                ledgerEntries: ledgerEntries("(accountType = 'DEALER' AND LOWER(accountId) = LOWER(?)) OR (accountType = 'USER' AND LOWER(accountId) IN (SELECT LOWER(id) FROM users WHERE LOWER(dealerId) = LOWER(?)))", accountId, accountId),
+                deleted: { users: deleted('users', 'LOWER(scopeId) = LOWER(?)', accountId), bets: deleted('bets', 'LOWER(scopeId) = LOWER(?)', accountId) }
+            };
+        } else {
+            const user = db.prepare('SELECT * FROM users WHERE LOWER(id) = LOWER(?)').get(accountId);
+            changes = {
+                account: user && formatSyncedAccount(user, 'users'),
+                bets: rows('bets', 'LOWER(userId) = LOWER(?)', accountId).map(parseBet),
+                ledgerEntries: ledgerEntries("accountType = 'USER' AND LOWER(accountId) = LOWER(?)", accountId),
+                deleted: {}
+            };
+        }
+        changes.delta = true;
+        changes.cursor = cursor;
+    });
+    return changes;
+};
+
+// --- PAGED QUERIES ---
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const LEDGER_SORTS = ['timestamp', 'debit', 'credit', 'balance'];
+const BET_SORTS = ['timestamp', 'totalAmount'];
+
+// Adds timestamp bounds for the optional from / to filters, which are inclusive PKT calendar days (YYYY-MM-DD).
+const addDayRange = (filters, where, params) => {
+    const isDate = (d) => /^\d{4}-\d{2}-\d{2}$/.test(d) && !isNaN(Date.parse(d + 'T00:00:00Z'));
+    if ((filters.from && !isDate(filters.from)) || (filters.to && !isDate(filters.to))) throw new Error('Dates must be in YYYY-MM-DD format.');
+    if (filters.from) { where.push('timestamp >= ?'); params.push(new Date(filters.from + 'T00:00:00+05:00').toISOString()); }
+    if (filters.to) { where.push('timestamp < ?'); params.push(new Date(Date.parse(filters.to + 'T00:00:00+05:00') + 24 * 60 * 60 * 1000).toISOString()); }
+};
+
+// Keyset pagination: the cursor holds the sort value and rowid of the last row handed out, so later pages
+// neither skip nor repeat rows while new ones are being written. nextCursor is null on the last page.
+const queryPage = (table, where, params, filters, sorts) => {
+    const sort = filters.sort || 'timestamp';
+    if (!sorts.includes(sort)) throw new Error('Cannot sort by ' + sort + '.');
+    const order = filters.order === 'asc' ? 'ASC' : 'DESC';
+    const op = order === 'ASC' ? '>' : '<';
+    const limit = Math.min(Math.max(parseInt(filters.limit, 10) || PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const clauses = where.slice(), values = params.slice();
+    if (filters.cursor) {
+        let last = null;
+        try { last = JSON.parse(Buffer.from(String(filters.cursor), 'base64url').toString()); } catch (e) { }
+        if (!Array.isArray(last) || last.length !== 2) throw new Error('Invalid page cursor.');
+        clauses.push('(' + sort + ' ' + op + ' ? OR (' + sort + ' = ? AND rowid ' + op + ' ?))');
+        values.push(last[0], last[0], last[1]);
+    }
+    const rows = db.prepare('SELECT rowid AS pageRowId, * FROM ' + table + (clauses.length ? ' WHERE ' + clauses.join(' AND ') : '') +
+        ' ORDER BY ' + sort + ' ' + order + ', rowid ' + order + ' LIMIT ?').all(...values, limit + 1);
+    const items = rows.slice(0, limit);
+    const tail = items[items.length - 1];
+    const nextCursor = rows.length > limit ? Buffer.from(JSON.stringify([tail[sort], tail.pageRowId])).toString('base64url') : null;
+    items.forEach(row => { delete row.pageRowId; });
+    return { items, nextCursor };
+};
+
+// One account's ledger, newest first unless sorted otherwise. q matches the description; dealerId limits a
+// user ledger to that dealer's users.
+const getLedgerPage = (filters = {}) => {
+    if (!LEDGER_TABLES[filters.accountType] || !filters.accountId) throw new Error('An account type and ID are required.');
+    const where = ['accountType = ?', 'LOWER(accountId) = LOWER(?)'], params = [filters.accountType, filters.accountId];
+    if (filters.dealerId) { where.push('LOWER(accountId) IN (SELECT LOWER(id) FROM users WHERE LOWER(dealerId) = LOWER(?))'); params.push(filters.dealerId); }
+    addDayRange(filters, where, params);
+    if (filters.q) { where.push('description LIKE ?'); params.push('%' + filters.q + '%'); }
+    const page = queryPage('ledgers', where, params, filters, LEDGER_SORTS);
+    page.items.forEach(ledgerInRupees);
+    return page;
+};
+
+// Bets matching every given filter. number matches any number on the ticket. The first page also carries totals
+// for the whole result (void bets excluded); with a number filter the stake is what rides on that number.
+const getBetPage = (filters = {}) => {
+    const where = [], params = [];
+    addDayRange(filters, where, params);
+    if (filters.userId) { where.push('LOWER(userId) = LOWER(?)'); params.push(filters.userId); }
+    if (filters.dealerId) { where.push('LOWER(dealerId) = LOWER(?)'); params.push(filters.dealerId); }
+    if (filters.gameId) { where.push('gameId = ?'); params.push(filters.gameId); }
+    if (filters.subGameType) { where.push('subGameType = ?'); params.push(filters.subGameType); }
+    if (filters.status) { where.push('status = ?'); params.push(filters.status); }
+    if (filters.number) { where.push('EXISTS (SELECT 1 FROM json_each(bets.numbers) WHERE value = ?)'); params.push(String(filters.number).trim()); }
+    const page = queryPage('bets', where, params, filters, BET_SORTS);
+    page.items.forEach(parseBet);
+    if (!filters.cursor) {
+        const stake = filters.number ? 'amountPerNumber' : 'totalAmount';
+        page.summary = db.prepare('SELECT COUNT(*) AS count, COALESCE(SUM(' + stake + '), 0) AS totalStake FROM bets WHERE ' + where.concat("status != 'void'").join(' AND ')).get(...params);
+        page.summary.totalStake = toRupees(page.summary.totalStake);
+    }
+    return page;
+};
+
+// --- LEDGER VERIFICATION ---
+
+// Walks every account's hash chain in insertion order. A 'link' break means an entry was removed, inserted or
+// reordered before this one; a 'content' break means this entry's own fields no longer match its hash.
+const verifyLedgerChains = (maxBreaks = 200) => {
+    const breaks = [];
+    let accounts = 0, entries = 0, key = null, expected = GENESIS_HASH;
+    const report = (row, reason) => {
+        if (breaks.length < maxBreaks) breaks.push({ accountType: row.accountType, accountId: row.accountId, entryId: row.id, timestamp: row.timestamp, description: row.description, reason });
+    };
+    for (const row of db.prepare('SELECT * FROM ledgers ORDER BY accountType, LOWER(accountId), rowid').iterate()) {
+        const rowKey = row.accountType + ':' + row.accountId.toLowerCase();
+        if (rowKey !== key) { key = rowKey; expected = GENESIS_HASH; accounts++; }
+        entries++;
+        if (row.prevHash !== expected) report(row, 'link');
+        if (!row.hash || hashLedgerEntry(ledgerInRupees({ ...row }), row.prevHash) !== row.hash) report(row, 'content');
+        expected = row.hash;
+    }
+    // Every journal must have at least two legs whose debits and credits cancel out.
+    const unbalancedJournals = db.prepare('SELECT journalId, COUNT(*) AS legs, SUM(credit - debit) AS net FROM ledgers WHERE journalId IS NOT NULL GROUP BY journalId HAVING net != 0 OR legs < 2 LIMIT ?')
+        .all(maxBreaks).map(j => ({ journalId: j.journalId, legs: j.legs, net: toRupees(j.net) }));
+    return { checkedAt: new Date().toISOString(), accounts, entries, ok: breaks.length === 0 && unbalancedJournals.length === 0, breaks, unbalancedJournals };
+};
+
+// Every wallet must equal the balance of its account's last ledger entry (zero when it has none). Amounts are compared
+// in paisa and reported in rupees.
+const reconcileWallets = (maxMismatches = 200) => {
+    const mismatches = [];
+    let accounts = 0;
+    Object.entries(LEDGER_TABLES).forEach(([accountType, table]) => {
+        db.prepare('SELECT a.id, a.name, a.wallet, (SELECT l.balance FROM ledgers l WHERE l.accountType = ? AND LOWER(l.accountId) = LOWER(a.id) ORDER BY l.rowid DESC LIMIT 1) AS ledgerBalance FROM ' + table + ' a')
+            .all(accountType).forEach(row => {
+                accounts++;
+                const ledgerBalance = row.ledgerBalance === null ? 0 : row.ledgerBalance;
+                if (row.wallet === ledgerBalance || mismatches.length >= maxMismatches) return;
+                mismatches.push({ accountType, accountId: row.id, name: row.name, wallet: toRupees(row.wallet), ledgerBalance: toRupees(ledgerBalance), difference: toRupees(row.wallet - ledgerBalance) });
+            });
+    });
+    return { checkedAt: new Date().toISOString(), accounts, ok: mismatches.length === 0, mismatches };
+};
+
+// --- AUDIT LOG ---
+// Append-only record of every mutating request (triggers reject UPDATE and DELETE). Routes name what they
+// change; its row is captured before and after so the event shows exactly what moved.
+const AUDIT_SNAPSHOTS = {
+    user: (id) => inRupees('users', db.prepare('SELECT * FROM users WHERE LOWER(id) = LOWER(?)').get(id)),
+    dealer: (id) => inRupees('dealers', db.prepare('SELECT * FROM dealers WHERE LOWER(id) = LOWER(?)').get(id)),
+    admin: (id) => db.prepare('SELECT id, name, avatarUrl, permissions FROM admins WHERE LOWER(id) = LOWER(?)').get(id),
+    treasury: () => inRupees('treasury', db.prepare('SELECT * FROM treasury WHERE id = ?').get(TREASURY_ID)),
+    game: (id) => db.prepare('SELECT * FROM games WHERE id = ?').get(id),
+    bet: (id) => inRupees('bets', db.prepare('SELECT * FROM bets WHERE id = ?').get(id)),
+    number_limit: (id) => inRupees('number_limits', db.prepare('SELECT * FROM number_limits WHERE id = ?').get(id)),
+    market_closure: (id) => db.prepare('SELECT * FROM market_closures WHERE id = ?').get(id),
+    settings: () => Object.fromEntries(db.prepare('SELECT key, value FROM settings').all().map(r => [r.key, r.value])),
+};
+
+const hasAuditSnapshot = (targetType) => !!AUDIT_SNAPSHOTS[targetType];
+const getAuditSnapshot = (targetType, targetId) => (AUDIT_SNAPSHOTS[targetType] && AUDIT_SNAPSHOTS[targetType](targetId)) || null;
+
+// Passwords never reach the log, and uploaded images are reduced to a marker.
+const toAuditJson = (value) => value == null ? null : JSON.stringify(value, (key, v) => {
+    if (/password/i.test(key)) return undefined;
+    if (typeof v === 'string' && v.startsWith('data:')) return '[data url]';
+    return v;
+});
+
+const recordAuditEvent = (e) => {
+    db.prepare('INSERT INTO audit_events (timestamp, actorId, actorRole, action, targetType, targetId, before, after, ip) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(new Date().toISOString(), e.actorId || null, e.actorRole || null, e.action, e.targetType || null,
+            e.targetId == null ? null : String(e.targetId), toAuditJson(e.before), toAuditJson(e.after), e.ip || null);
+};
+
+// Scheduled work has no request behind it, so it is logged as the system, in the transaction that made the change.
+const recordSystemAudit = (action, gameId, before) => recordAuditEvent({
+    actorId: 'system', actorRole: 'SYSTEM', action, targetType: 'game', targetId: gameId, before, after: getAuditSnapshot('game', gameId)
+});
+
+// Newest first. q matches actor, action, target and the before/after payloads; dates are PKT calendar days.
+const getAuditEvents = (filters = {}, maxRows = 500) => {
+    const where = [], params = [];
+    addDayRange(filters, where, params);
+    if (filters.q) {
+        where.push("(actorId LIKE ? OR action LIKE ? OR targetId LIKE ? OR before LIKE ? OR after LIKE ?)");
+        const like = '%' + filters.q + '%';
+        params.push(like, like, like, like, like);
+    }
+    if (filters.action) { where.push('action = ?'); params.push(filters.action); }
+    if (filters.actorId) { where.push('LOWER(actorId) = LOWER(?)'); params.push(filters.actorId); }
+    return db.prepare('SELECT * FROM audit_events' + (where.length ? ' WHERE ' + where.join(' AND ') : '') + ' ORDER BY id DESC LIMIT ?')
+        .all(...params, maxRows);
+};
 
 module.exports = {
-    connect, verifySchema, migratePasswords, verifyPassword,
+    changes, connect, verifySchema, getChangeCursor, getDataChangesSince, getLedgerPage, getBetPage, migratePasswords, migrateSchema, verifyPassword,
     findAccountById, findAccountForLogin, updatePassword, getAllFromTable,
-    runInTransaction, addLedgerEntry, createDealer, updateDealer, updateAdmin,
+    runInTransaction, postJournal, debitLeg, creditLeg, getJournalForEntry, verifyLedgerChains, reconcileWallets, getTreasuryAccount, createDealer, updateDealer, updateAdmin, createAdmin, getAdmins, setAdminPermissions, hasAdminPermission,
     findUsersByDealerId, findUserByDealer, findBetsByUserId, createUser, updateUser,
-    updateUserByAdmin, deleteUserByDealer, toggleAccountRestrictionByAdmin,
+    updateUserByAdmin, closeUserByDealer, toggleAccountRestrictionByAdmin,
     toggleUserRestrictionByDealer, declareWinnerForGame, updateWinningNumber,
-    approvePayoutsForGame, getFinancialSummary, getNumberStakeSummary, placeBulkBets,
-    updateGameDrawTime, resetAllGames, getAllNumberLimits, saveNumberLimit,
-    deleteNumberLimit, findBetsByDealerId, findBetsByGameId
+    approvePayoutsForGame, confirmResult, getApprovalPolicy, setMakerChecker, resettleGame, getResettlements, getDrawResults, getFinancialSummary, getNumberStakeSummary, placeBulkBets,
+    updateGameDrawTime, getActiveGames, createGame, updateGame, setGameArchived, setGameSuspended, getMarketClosures, addMarketClosure, deleteMarketClosure, getGameCycle,
+    getJobs, runJob, ensureJob, syncGameResetJobs, runGameResetJob, setApprovalHeld, runAutoApprovals, getAllNumberLimits, saveNumberLimit, saveNumberLimits,
+    deleteNumberLimit, deleteNumberLimits, findBetsByDealerId, findBetsByGameId, getBetAllowances, voidBet,
+    hasAuditSnapshot, getAuditSnapshot, recordAuditEvent, getAuditEvents
 };
\ No newline at end of file
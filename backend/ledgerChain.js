@@ -0,0 +1,19 @@
+// Hash chain over ledger entries. Each account's entries link to the previous entry's hash, so editing,
+// removing or reordering a row breaks every hash after it.
+const crypto = require('crypto');
+
+// prevHash of an account's first entry.
+const GENESIS_HASH = '0'.repeat(64);
+
+// accountId is left out on purpose: renaming a dealer or user moves its whole chain intact, while moving
+// a single row to another account still breaks the link on both sides.
+// Amounts are hashed in rupees, as the entry reads through the API, so chains sealed before the ledger
+// moved to integer paisa still verify.
+// journalId is only hashed when present, so entries from before journal postings keep their hashes.
+const hashLedgerEntry = (entry, prevHash) => crypto
+    .createHash('sha256')
+    .update(JSON.stringify([prevHash, entry.id, entry.accountType, entry.timestamp, entry.description, entry.debit, entry.credit, entry.balance]
+        .concat(entry.journalId ? [entry.journalId] : [])))
+    .digest('hex');
+
+module.exports = { GENESIS_HASH, hashLedgerEntry };
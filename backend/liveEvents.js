@@ -0,0 +1,57 @@
+// Server-sent event stream. Each client holds one /api/events response open; publish() fans an event out
+// to the clients its audience covers. Events only say what changed, clients refetch the data themselves.
+const HEARTBEAT_MS = 25 * 1000;
+const clients = new Set();
+let pending = [];
+
+// audience: { public: true } for everyone, otherwise { admins, accounts } for all admins and/or named accounts.
+const canSee = (viewer, audience) => {
+    if (audience.public) return true;
+    if (!viewer) return false;
+    if (audience.admins && viewer.role === 'ADMIN') return true;
+    return (audience.accounts || []).some(id => id && id.toLowerCase() === viewer.id.toLowerCase());
+};
+
+// Events raised during one database transaction go out together once it has committed, each at most once per client.
+const flush = () => {
+    const batch = pending;
+    pending = [];
+    clients.forEach(client => {
+        const sent = new Set();
+        batch.forEach(({ type, data, audience }) => {
+            if (!canSee(client.viewer, audience)) return;
+            const message = 'event: ' + type + '\ndata: ' + JSON.stringify(data) + '\n\n';
+            if (sent.has(message)) return;
+            sent.add(message);
+            client.res.write(message);
+        });
+    });
+};
+
+const publish = (type, data, audience) => {
+    if (clients.size === 0) return;
+    if (pending.length === 0) setImmediate(flush);
+    pending.push({ type, data, audience });
+};
+
+// viewer is the token's { id, role }, or null for the public landing page.
+const subscribe = (req, res, viewer) => {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+    const client = { res, viewer };
+    clients.add(client);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        clients.delete(client);
+    });
+};
+
+const clientCount = () => clients.size;
+
+module.exports = { publish, subscribe, clientCount };
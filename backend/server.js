@@ -1,46 +1,163 @@
 require('dotenv').config();
+const os = require('os');
 const express = require('express');
 const cors = require('cors');
 const jwt = require('jsonwebtoken');
-const { JWT_SECRET } = require('./config'); // FIX: shared secret with authMiddleware
+const { JWT_SECRET, BET_VOID_GRACE_MINUTES, TREASURY_ID, TRUST_PROXY, STREAM_TICKET_AUDIENCE } = require('./config'); // FIX: shared secret with authMiddleware
 const authMiddleware = require('./authMiddleware');
 const { GoogleGenAI } = require('@google/genai');
 const database = require('./database');
+const live = require('./liveEvents');
+const { parseRupeeAmount } = require('./shared/money');
 const { v4: uuidv4 } = require('uuid');
 
 const app = express();
+// Behind Nginx, so req.ip (logged with audit events) comes from X-Forwarded-For rather than the proxy's address.
+app.set('trust proxy', TRUST_PROXY);
 app.use(cors());
-app.use(express.json());
+// Raised from the 100kb default so game logos can be uploaded as data URLs.
+app.use(express.json({ limit: '1mb' }));
 
-// --- AUTOMATIC GAME RESET SCHEDULER ---
-const PKT_OFFSET_HOURS = 5;
-const RESET_HOUR_PKT = 16; // 4:00 PM PKT
-let resetTimer = null;
+// Every /api/admin route goes through here. Reads need no permission, so an admin without any is view-only;
+// mutating routes name the permission(s) they need.
+const requireAdmin = (...permissions) => (req, res, next) => {
+    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+    const missing = permissions.find(p => !database.hasAdminPermission(req.user.id, p));
+    if (missing) return res.status(403).json({ message: 'Your admin account does not have the "' + missing + '" permission.' });
+    next();
+};
+
+// Runs a mutating route and writes its audit_events row in the same transaction, so a change never commits
+// without its record. The response is held until the transaction commits; an error response rolls back
+// whatever the route wrote. target(req, result) names the row it changes (result is the JSON the route
+// responded with, for IDs assigned on create); that row is captured before and after. Without a capturable
+// target the request body is recorded as the "after" state. Audited routes must respond synchronously.
+const AUDIT_ROLLBACK = new Error('audit rollback');
+const audit = (action, target) => (req, res, next) => {
+    const ref = () => (target && target(req, res.locals.auditResult)) || {};
+    const json = res.json.bind(res);
+    let pending = null;
+    res.json = (body) => { res.locals.auditResult = body; return json(body); };
+    res.send = (...args) => { pending = args; return res; };
+    try {
+        database.runInTransaction(() => {
+            const initial = ref();
+            const before = database.getAuditSnapshot(initial.type, initial.id);
+            next();
+            if (!pending) throw new Error(action + ' did not respond synchronously.');
+            if (res.statusCode >= 400) throw AUDIT_ROLLBACK;
+            const final = ref();
+            database.recordAuditEvent({
+                actorId: req.user ? req.user.id : req.body.loginId,
+                actorRole: req.user ? req.user.role : null,
+                action,
+                targetType: final.type,
+                targetId: final.id,
+                before,
+                after: database.hasAuditSnapshot(final.type) ? database.getAuditSnapshot(final.type, final.id) : req.body,
+                ip: req.ip
+            });
+        });
+    } catch (e) {
+        if (e !== AUDIT_ROLLBACK) {
+            console.error('--- [AUDIT] ' + action + ' rolled back: ' + e.message + ' ---');
+            if (!pending || res.statusCode < 400) {
+                res.status(500);
+                pending = [{ message: 'The change could not be recorded, so it was not saved.' }];
+            }
+        }
+    }
+    delete res.send;
+    if (!res.headersSent) res.send(...pending);
+};
+
+// --- JOB SCHEDULER ---
+// Jobs live in the database (see runJob), so a restart catches up missed runs and several
+// instances can tick side by side without running a job twice.
+const INSTANCE_ID = os.hostname() + ':' + process.pid;
+const JOB_TICK_MS = 30 * 1000;
+const AUTO_APPROVE_CHECK_MS = 60 * 1000;
+const JOB_HANDLERS = {
+    'game-reset': (gameId, dueAt) => database.runGameResetJob(gameId, dueAt),
+    'auto-approve': () => { database.runAutoApprovals(); return new Date(Date.now() + AUTO_APPROVE_CHECK_MS); },
+};
 
-function scheduleNextGameReset() {
-    if (resetTimer) clearTimeout(resetTimer);
+function runDueJobs() {
+    const now = new Date().toISOString();
+    database.getJobs().filter(job => job.scheduledFor <= now).forEach(job => {
+        const [type, arg] = job.name.split(':');
+        if (!JOB_HANDLERS[type]) return;
+        try {
+            if (database.runJob(job.name, INSTANCE_ID, dueAt => JOB_HANDLERS[type](arg, dueAt))) {
+                // FIX: use console.log for informational messages, not console.error
+                console.log('--- [SCHEDULER] Ran ' + job.name + ' (due ' + job.scheduledFor + ') ---');
+            }
+        } catch (e) {
+            console.error('--- [SCHEDULER] ' + job.name + ' failed: ' + (e.message || e) + ' ---');
+        }
+    });
+}
 
-    const now = new Date();
-    const resetHourUTC = RESET_HOUR_PKT - PKT_OFFSET_HOURS;
-    let resetTime = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), resetHourUTC, 0, 5, 0));
+function startJobScheduler() {
+    database.syncGameResetJobs();
+    database.ensureJob('auto-approve', new Date());
+    runDueJobs();
+    setInterval(runDueJobs, JOB_TICK_MS);
+}
 
-    if (now >= resetTime) {
-        resetTime.setUTCDate(resetTime.getUTCDate() + 1);
+// --- LIVE EVENTS ---
+// Replaces client polling: 'wallet' and 'bet' go to the accounts involved and to admins as they are written.
+// Market state follows the clock as much as admin actions, so public game events come from diffing the games on a short tick.
+const GAME_WATCH_MS = 2000;
+const PUBLIC = { public: true };
+
+database.changes.on('wallet', ({ accountType, accountId, dealerId }) => {
+    live.publish('wallet', { accountType, accountId }, { admins: true, accounts: accountType === 'TREASURY' ? [] : [accountId, dealerId] });
+});
+database.changes.on('bet', ({ userId, dealerId, gameId }) => {
+    live.publish('bet', { gameId }, { admins: true, accounts: [userId, dealerId] });
+});
+
+let lastGameStates = null;
+function watchGames() {
+    if (live.clientCount() === 0) { lastGameStates = null; return; }
+    const states = {};
+    // changeSeq moves with every write to the row; the rest follow the clock, holidays and the approval policy.
+    database.getActiveGames().forEach(g => { states[g.id] = { game: g, key: [g.changeSeq, g.isMarketOpen, g.isHoliday, g.awaitingConfirmation, g.autoApproveAt].join('|') }; });
+    if (lastGameStates) {
+        Object.keys(Object.assign({}, lastGameStates, states)).forEach(gameId => {
+            const prev = lastGameStates[gameId], next = states[gameId];
+            if (!prev || !next) return live.publish('game', { gameId }, PUBLIC);
+            if (prev.key === next.key) return;
+            if (prev.game.isMarketOpen !== next.game.isMarketOpen) live.publish('market', { gameId, isMarketOpen: next.game.isMarketOpen }, PUBLIC);
+            if (prev.game.winningNumber !== next.game.winningNumber) live.publish('result', { gameId, winningNumber: next.game.winningNumber }, PUBLIC);
+            if (!prev.game.payoutsApproved && next.game.payoutsApproved) live.publish('payouts', { gameId }, PUBLIC);
+            live.publish('game', { gameId }, PUBLIC);
+        });
     }
+    lastGameStates = states;
+}
+
+// EventSource cannot send headers, so a signed-in client first trades its token for a short-lived ticket
+// and passes that in the query string, where it may end up in access logs. Without one only public events are sent.
+const STREAM_TICKET_SECONDS = 30;
 
-    const delay = resetTime.getTime() - now.getTime();
-    // FIX: use console.log for informational messages, not console.error
-    console.log('--- [SCHEDULER] Next reset at: ' + resetTime.toUTCString() + ' ---');
+app.post('/api/events/ticket', authMiddleware, (req, res) => {
+    res.json({ ticket: jwt.sign({ id: req.user.id, role: req.user.role }, JWT_SECRET, { expiresIn: STREAM_TICKET_SECONDS, audience: STREAM_TICKET_AUDIENCE }) });
+});
 
-    resetTimer = setTimeout(() => {
+app.get('/api/events', (req, res) => {
+    let viewer = null;
+    if (req.query.ticket) {
         try {
-            database.resetAllGames();
+            const decoded = jwt.verify(String(req.query.ticket), JWT_SECRET, { audience: STREAM_TICKET_AUDIENCE });
+            viewer = { id: decoded.id, role: decoded.role };
         } catch (e) {
-            console.error('--- [SCHEDULER] Error: ' + (e.message || e) + ' ---');
+            return res.status(401).json({ message: 'Invalid or expired stream ticket.' });
         }
-        scheduleNextGameReset();
-    }, delay);
-}
+    }
+    live.subscribe(req, res, viewer);
+});
 
 // --- AUTHENTICATION ROUTES ---
 app.post('/api/auth/login', (req, res) => {
@@ -75,6 +192,8 @@ app.get('/api/auth/verify', authMiddleware, (req, res) => {
             extra.bets = database.findBetsByDealerId(req.user.id);
         } else if (role === 'USER') {
             extra.bets = database.findBetsByUserId(req.user.id);
+            extra.allowances = database.getBetAllowances(req.user.id);
+            extra.betVoidGraceMinutes = BET_VOID_GRACE_MINUTES;
         } else if (role === 'ADMIN') {
             extra.dealers = database.getAllFromTable('dealers', true);
             extra.users = database.getAllFromTable('users', true);
@@ -87,7 +206,7 @@ app.get('/api/auth/verify', authMiddleware, (req, res) => {
 });
 
 // FIX: Wired up resetPassword route (was a stub in the frontend)
-app.post('/api/auth/reset-password', (req, res) => {
+app.post('/api/auth/reset-password', audit('account.reset-password', req => ({ type: 'account', id: req.body.loginId })), (req, res) => {
     try {
         const { loginId, contact, newPassword } = req.body;
         if (!loginId || !contact || !newPassword) return res.status(400).json({ message: 'All fields required.' });
@@ -101,41 +220,96 @@ app.post('/api/auth/reset-password', (req, res) => {
 
 // --- DATA ROUTES ---
 app.get('/api/games', (req, res) => {
-    const data = database.getAllFromTable('games');
+    const data = database.getActiveGames();
     res.json(data || []);
 });
 
+app.get('/api/games/:id/results', (req, res) => {
+    try { res.json(database.getDrawResults(req.params.id, req.query.from, req.query.to)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+// ?since=<cursor from an earlier response> returns only what changed after it (see getDataChangesSince).
+// Without one, or with a cursor this database never issued (e.g. after a restore), the full snapshot is sent.
+const parseSinceCursor = (req) => {
+    if (req.query.since === undefined) return null;
+    const since = Number(req.query.since);
+    return Number.isInteger(since) && since >= 0 && since <= database.getChangeCursor() ? since : null;
+};
+
 app.get('/api/user/data', authMiddleware, (req, res) => {
     if (req.user.role !== 'USER') return res.sendStatus(403);
-    res.json({
+    const since = parseSinceCursor(req);
+    const extra = { allowances: database.getBetAllowances(req.user.id), betVoidGraceMinutes: BET_VOID_GRACE_MINUTES };
+    if (since !== null) return res.json(Object.assign(database.getDataChangesSince(since, 'USER', req.user.id), extra));
+    res.json(Object.assign({
+        cursor: database.getChangeCursor(),
         account: database.findAccountById(req.user.id, 'users'),
-        games: database.getAllFromTable('games'),
+        games: database.getActiveGames(),
         bets: database.findBetsByUserId(req.user.id)
-    });
+    }, extra));
 });
 
 app.get('/api/dealer/data', authMiddleware, (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
+    const since = parseSinceCursor(req);
+    if (since !== null) return res.json(database.getDataChangesSince(since, 'DEALER', req.user.id));
     res.json({
+        cursor: database.getChangeCursor(),
         account: database.findAccountById(req.user.id, 'dealers'),
         users: database.findUsersByDealerId(req.user.id),
         bets: database.findBetsByDealerId(req.user.id)
     });
 });
 
-app.get('/api/admin/data', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+// Paged ledger and bet history (see getLedgerPage / getBetPage for the filters). Users get their own rows,
+// dealers their own and their users', admins everyone's.
+app.get('/api/ledger', authMiddleware, (req, res) => {
+    try {
+        const filters = Object.assign({}, req.query);
+        const { role, id } = req.user;
+        if (role === 'USER') Object.assign(filters, { accountType: 'USER', accountId: id });
+        else if (role === 'DEALER') {
+            if (filters.accountType === 'USER') filters.dealerId = id;
+            else Object.assign(filters, { accountType: 'DEALER', accountId: id });
+        } else if (role !== 'ADMIN') return res.sendStatus(403);
+        res.json(database.getLedgerPage(filters));
+    } catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+// All legs of the journal posting a ledger entry belongs to, if the caller can see that entry.
+app.get('/api/ledger/:entryId/journal', authMiddleware, (req, res) => {
+    const journal = database.getJournalForEntry(req.params.entryId, req.user.role, req.user.id);
+    if (!journal) return res.status(404).json({ message: 'Ledger entry not found.' });
+    res.json(journal);
+});
+
+app.get('/api/bets', authMiddleware, (req, res) => {
+    try {
+        const filters = Object.assign({}, req.query);
+        if (req.user.role === 'USER') filters.userId = req.user.id;
+        else if (req.user.role === 'DEALER') filters.dealerId = req.user.id;
+        else if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+        res.json(database.getBetPage(filters));
+    } catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.get('/api/admin/data', authMiddleware, requireAdmin(), (req, res) => {
+    const since = parseSinceCursor(req);
+    if (since !== null) return res.json(database.getDataChangesSince(since, 'ADMIN', req.user.id));
     res.json({
+        cursor: database.getChangeCursor(),
         account: database.findAccountById(req.user.id, 'admins'),
+        treasury: database.getTreasuryAccount(),
         dealers: database.getAllFromTable('dealers', true),
         users: database.getAllFromTable('users', true),
-        games: database.getAllFromTable('games'),
+        games: database.getActiveGames(),
         bets: database.getAllFromTable('bets')
     });
 });
 
 // --- ACTION ROUTES ---
-app.post('/api/user/bets', authMiddleware, (req, res) => {
+app.post('/api/user/bets', authMiddleware, audit('bet.place', req => ({ type: 'user', id: req.user.id })), (req, res) => {
     if (req.user.role !== 'USER') return res.sendStatus(403);
     const body = req.body;
     try {
@@ -159,177 +333,330 @@ app.post('/api/user/bets', authMiddleware, (req, res) => {
             res.status(201).json(database.placeBulkBets(req.user.id, body.gameId, body.betGroups));
         }
     } catch (e) {
-        res.status(400).json({ message: e.message || 'Processing failed' });
+        res.status(400).json({ message: e.message || 'Processing failed', violations: e.violations });
     }
 });
 
-app.post('/api/dealer/bets/bulk', authMiddleware, (req, res) => {
+app.post('/api/user/bets/:id/void', authMiddleware, audit('bet.void', req => ({ type: 'bet', id: req.params.id })), (req, res) => {
+    if (req.user.role !== 'USER') return res.sendStatus(403);
+    try { res.json(database.voidBet(req.params.id, req.user.id, 'USER')); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/dealer/bets/bulk', authMiddleware, audit('bet.place', req => ({ type: 'user', id: req.body.userId })), (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
     try { res.status(201).json(database.placeBulkBets(req.body.userId, req.body.gameId, req.body.betGroups)); }
+    catch (e) { res.status(400).json({ message: e.message, violations: e.violations }); }
+});
+
+app.post('/api/dealer/bets/:id/void', authMiddleware, audit('bet.void', req => ({ type: 'bet', id: req.params.id })), (req, res) => {
+    if (req.user.role !== 'DEALER') return res.sendStatus(403);
+    try { res.json(database.voidBet(req.params.id, req.user.id, 'DEALER')); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/dealer/users', authMiddleware, (req, res) => {
+app.post('/api/dealer/users', authMiddleware, audit('user.create', (req, result) => ({ type: 'user', id: result && result.id })), (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
     try { res.status(201).json(database.createUser(req.body.userData, req.user.id, req.body.initialDeposit)); }
     catch (e) { res.status(500).json({ message: e.message }); }
 });
 
-app.put('/api/dealer/users/:id', authMiddleware, (req, res) => {
+app.put('/api/dealer/users/:id', authMiddleware, audit('user.update', (req, result) => ({ type: 'user', id: result && result.id ? result.id : req.params.id })), (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
     try { res.json(database.updateUser(req.body, req.params.id, req.user.id)); }
     catch (e) { res.status(500).json({ message: e.message }); }
 });
 
-app.delete('/api/dealer/users/:id', authMiddleware, (req, res) => {
+app.post('/api/dealer/users/:id/close', authMiddleware, audit('user.close', req => ({ type: 'user', id: req.params.id })), (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
-    try { database.deleteUserByDealer(req.params.id, req.user.id); res.sendStatus(204); }
-    catch (e) { res.status(500).json({ message: e.message }); }
+    try { res.json(database.closeUserByDealer(req.params.id, req.user.id)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/dealer/topup/user', authMiddleware, (req, res) => {
+// Top-ups and withdrawals take rupees; the ledger takes paisa.
+const parseTransferAmount = (req) => {
+    const amount = parseRupeeAmount(req.body.amount);
+    if (amount === null) throw new Error('Amount must be greater than zero, with at most two decimal places.');
+    return amount;
+};
+
+app.post('/api/dealer/topup/user', authMiddleware, audit('user.topup', req => ({ type: 'user', id: req.body.userId })), (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
     try {
-        const { userId, amount } = req.body;
+        const { userId } = req.body;
+        const amount = parseTransferAmount(req);
         const user = database.findUserByDealer(userId, req.user.id);
         if (!user) throw new Error('User not found in your network.');
-        database.runInTransaction(() => {
-            database.addLedgerEntry(req.user.id, 'DEALER', 'User funding: ' + userId, amount, 0);
-            database.addLedgerEntry(userId, 'USER', 'Wallet refill', 0, amount);
-        });
+        if (user.closedAt) throw new Error(user.name + "'s account is closed.");
+        database.postJournal([
+            database.debitLeg('DEALER', req.user.id, 'User funding: ' + userId, amount),
+            database.creditLeg('USER', userId, 'Wallet refill', amount)
+        ]);
         res.json({ message: "Success" });
     } catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/dealer/withdraw/user', authMiddleware, (req, res) => {
+app.post('/api/dealer/withdraw/user', authMiddleware, audit('user.withdraw', req => ({ type: 'user', id: req.body.userId })), (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
     try {
-        const { userId, amount } = req.body;
+        const { userId } = req.body;
+        const amount = parseTransferAmount(req);
         const user = database.findUserByDealer(userId, req.user.id);
         if (!user) throw new Error('User not found in your network.');
-        database.runInTransaction(() => {
-            database.addLedgerEntry(userId, 'USER', 'Withdrawal by Dealer', amount, 0);
-            database.addLedgerEntry(req.user.id, 'DEALER', 'User withdrawal credit: ' + userId, 0, amount);
-        });
+        if (user.closedAt) throw new Error(user.name + "'s account is closed.");
+        database.postJournal([
+            database.debitLeg('USER', userId, 'Withdrawal by Dealer', amount),
+            database.creditLeg('DEALER', req.user.id, 'User withdrawal credit: ' + userId, amount)
+        ]);
         res.json({ message: "Success" });
     } catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.put('/api/dealer/users/:id/toggle-restriction', authMiddleware, (req, res) => {
+app.put('/api/dealer/users/:id/toggle-restriction', authMiddleware, audit('user.toggle-restriction', req => ({ type: 'user', id: req.params.id })), (req, res) => {
     if (req.user.role !== 'DEALER') return res.sendStatus(403);
     try { res.json(database.toggleUserRestrictionByDealer(req.params.id, req.user.id)); }
     catch (e) { res.status(500).json({ message: e.message }); }
 });
 
 // --- ADMIN ROUTES ---
-app.get('/api/admin/summary', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.get('/api/admin/summary', authMiddleware, requireAdmin(), (req, res) => {
     res.json(database.getFinancialSummary());
 });
 
-app.get('/api/admin/number-summary', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.get('/api/admin/number-summary', authMiddleware, requireAdmin(), (req, res) => {
     res.json(database.getNumberStakeSummary(req.query));
 });
 
-app.post('/api/admin/dealers', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.post('/api/admin/dealers', authMiddleware, requireAdmin('accounts'), audit('dealer.create', (req, result) => ({ type: 'dealer', id: result && result.id })), (req, res) => {
     try { res.status(201).json(database.createDealer(req.body)); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.put('/api/admin/dealers/:id', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.put('/api/admin/dealers/:id', authMiddleware, requireAdmin('accounts'), audit('dealer.update', (req, result) => ({ type: 'dealer', id: result && result.id ? result.id : req.params.id })), (req, res) => {
     try { res.json(database.updateDealer(req.body, req.params.id)); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.put('/api/admin/users/:id', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.put('/api/admin/users/:id', authMiddleware, requireAdmin('accounts'), audit('user.update', (req, result) => ({ type: 'user', id: result && result.id ? result.id : req.params.id })), (req, res) => {
     try { res.json(database.updateUserByAdmin(req.body, req.params.id)); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.put('/api/admin/profile', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.put('/api/admin/profile', authMiddleware, requireAdmin(), audit('admin.update-profile', req => ({ type: 'admin', id: req.user.id })), (req, res) => {
     try { res.json(database.updateAdmin(req.body, req.user.id)); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/admin/topup/dealer', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.post('/api/admin/topup/dealer', authMiddleware, requireAdmin('funding'), audit('dealer.topup', req => ({ type: 'dealer', id: req.body.dealerId })), (req, res) => {
     try {
-        const { dealerId, amount } = req.body;
-        database.runInTransaction(() => {
-            database.addLedgerEntry(req.user.id, 'ADMIN', `Funding Dealer ${dealerId}`, amount, 0);
-            database.addLedgerEntry(dealerId, 'DEALER', 'Deposit from Admin', 0, amount);
-        });
+        const { dealerId } = req.body;
+        const amount = parseTransferAmount(req);
+        database.postJournal([
+            database.debitLeg('TREASURY', TREASURY_ID, `Funding Dealer ${dealerId} (by ${req.user.id})`, amount),
+            database.creditLeg('DEALER', dealerId, 'Deposit from Admin', amount)
+        ]);
         res.json({ message: "Success" });
     } catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/admin/withdraw/dealer', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.post('/api/admin/withdraw/dealer', authMiddleware, requireAdmin('funding'), audit('dealer.withdraw', req => ({ type: 'dealer', id: req.body.dealerId })), (req, res) => {
     try {
-        const { dealerId, amount } = req.body;
-        database.runInTransaction(() => {
-            database.addLedgerEntry(dealerId, 'DEALER', 'Withdrawal by Admin', amount, 0);
-            database.addLedgerEntry(req.user.id, 'ADMIN', `Withdrawal from ${dealerId}`, 0, amount);
-        });
+        const { dealerId } = req.body;
+        const amount = parseTransferAmount(req);
+        database.postJournal([
+            database.debitLeg('DEALER', dealerId, 'Withdrawal by Admin', amount),
+            database.creditLeg('TREASURY', TREASURY_ID, `Withdrawal from ${dealerId} (by ${req.user.id})`, amount)
+        ]);
         res.json({ message: "Success" });
     } catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.put('/api/admin/accounts/:type/:id/toggle-restriction', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.put('/api/admin/accounts/:type/:id/toggle-restriction', authMiddleware, requireAdmin('accounts'), audit('account.toggle-restriction', req => ({ type: req.params.type, id: req.params.id })), (req, res) => {
     try { res.json(database.toggleAccountRestrictionByAdmin(req.params.id, req.params.type)); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/admin/bulk-bet', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.post('/api/admin/bulk-bet', authMiddleware, requireAdmin('bets'), audit('bet.place', req => ({ type: 'user', id: req.body.userId })), (req, res) => {
     try { res.status(201).json(database.placeBulkBets(req.body.userId, req.body.gameId, req.body.betGroups)); }
+    catch (e) { res.status(400).json({ message: e.message, violations: e.violations }); }
+});
+
+app.post('/api/admin/bets/:id/void', authMiddleware, requireAdmin('bets'), audit('bet.void', req => ({ type: 'bet', id: req.params.id })), (req, res) => {
+    try { res.json(database.voidBet(req.params.id, req.user.id, 'ADMIN')); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/admin/games/:id/declare-winner', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
-    try { res.json(database.declareWinnerForGame(req.params.id, req.body.winningNumber)); }
+app.get('/api/admin/games', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.getAllFromTable('games'));
+});
+
+app.post('/api/admin/games', authMiddleware, requireAdmin('games'), audit('game.create', (req, result) => ({ type: 'game', id: result && result.id })), (req, res) => {
+    try { res.status(201).json(database.createGame(req.body)); database.syncGameResetJobs(); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.put('/api/admin/games/:id/update-winner', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
-    try { res.json(database.updateWinningNumber(req.params.id, req.body.newWinningNumber)); }
+app.put('/api/admin/games/:id', authMiddleware, requireAdmin('games'), audit('game.update', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.updateGame(req.params.id, req.body)); database.syncGameResetJobs(); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.post('/api/admin/games/:id/approve-payouts', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.post('/api/admin/games/:id/archive', authMiddleware, requireAdmin('games'), audit('game.archive', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.setGameArchived(req.params.id, true)); database.syncGameResetJobs(); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/restore', authMiddleware, requireAdmin('games'), audit('game.restore', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.setGameArchived(req.params.id, false)); database.syncGameResetJobs(); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/suspend', authMiddleware, requireAdmin('games'), audit('game.suspend', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.setGameSuspended(req.params.id, true)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/resume', authMiddleware, requireAdmin('games'), audit('game.resume', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.setGameSuspended(req.params.id, false)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+// Audit trail, newest first. ?format=csv downloads the same filtered rows as a spreadsheet.
+const AUDIT_CSV_COLUMNS = ['id', 'timestamp', 'actorId', 'actorRole', 'action', 'targetType', 'targetId', 'before', 'after', 'ip'];
+// Cells that a spreadsheet would read as a formula are prefixed with a quote.
+const toCsvCell = (v) => {
+    if (v == null) return '';
+    const text = /^[=+\-@]/.test(String(v)) ? "'" + v : String(v);
+    return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+};
+
+app.get('/api/admin/audit', authMiddleware, requireAdmin(), (req, res) => {
+    try {
+        const csv = req.query.format === 'csv';
+        const events = database.getAuditEvents(req.query, csv ? 50000 : 500);
+        if (!csv) return res.json(events);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="audit-events.csv"');
+        res.send([AUDIT_CSV_COLUMNS.join(',')].concat(events.map(e => AUDIT_CSV_COLUMNS.map(c => toCsvCell(e[c])).join(','))).join('\r\n'));
+    } catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+// Walks every account's ledger hash chain and lists the entries where it breaks.
+app.get('/api/admin/ledger/verify', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.verifyLedgerChains());
+});
+
+app.get('/api/admin/ledger/reconcile', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.reconcileWallets());
+});
+
+app.get('/api/admin/jobs', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.getJobs());
+});
+
+app.get('/api/admin/market-closures', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.getMarketClosures());
+});
+
+app.post('/api/admin/market-closures', authMiddleware, requireAdmin('games'), audit('market-closure.create', (req, result) => ({ type: 'market_closure', id: result && result.id })), (req, res) => {
+    try { res.status(201).json(database.addMarketClosure(req.body, req.user.id)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.delete('/api/admin/market-closures/:id', authMiddleware, requireAdmin('games'), audit('market-closure.delete', req => ({ type: 'market_closure', id: req.params.id })), (req, res) => {
+    try { database.deleteMarketClosure(req.params.id); res.sendStatus(204); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/declare-winner', authMiddleware, requireAdmin('results'), audit('game.declare-result', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.declareWinnerForGame(req.params.id, req.body.winningNumber, req.user.id)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.put('/api/admin/games/:id/update-winner', authMiddleware, requireAdmin('results'), audit('game.update-result', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.updateWinningNumber(req.params.id, req.body.newWinningNumber, req.user.id)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/approve-payouts', authMiddleware, requireAdmin('payouts'), audit('game.approve-payouts', req => ({ type: 'game', id: req.params.id })), (req, res) => {
     try { res.json(database.approvePayoutsForGame(req.params.id)); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.put('/api/admin/games/:id/draw-time', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
-    try { res.json(database.updateGameDrawTime(req.params.id, req.body.newDrawTime)); }
+app.post('/api/admin/games/:id/confirm-result', authMiddleware, requireAdmin('results'), audit('game.confirm-result', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.confirmResult(req.params.id, req.user.id)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.get('/api/admin/approval-policy', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.getApprovalPolicy());
+});
+
+app.put('/api/admin/approval-policy', authMiddleware, requireAdmin('admins'), audit('settings.approval-policy', () => ({ type: 'settings' })), (req, res) => {
+    try { res.json(database.setMakerChecker(!!req.body.makerChecker)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.get('/api/admin/admins', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.getAdmins());
+});
+
+app.post('/api/admin/admins', authMiddleware, requireAdmin('admins'), audit('admin.create', (req, result) => ({ type: 'admin', id: result && result.id })), (req, res) => {
+    try {
+        const admin = database.createAdmin(req.body);
+        res.status(201).json({ id: admin.id, name: admin.name, avatarUrl: admin.avatarUrl });
+    } catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.put('/api/admin/admins/:id/permissions', authMiddleware, requireAdmin('admins'), audit('admin.set-permissions', req => ({ type: 'admin', id: req.params.id })), (req, res) => {
+    try { res.json(database.setAdminPermissions(req.params.id, req.body.permissions, req.user.id)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/hold-approval', authMiddleware, requireAdmin('payouts'), audit('game.hold-approval', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.setApprovalHeld(req.params.id, true)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/release-approval', authMiddleware, requireAdmin('payouts'), audit('game.release-approval', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.setApprovalHeld(req.params.id, false)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/games/:id/resettle', authMiddleware, requireAdmin('results', 'payouts'), audit('game.resettle', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.resettleGame(req.params.id, req.body.newWinningNumber, req.body.reason, req.user.id)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.get('/api/admin/games/:id/resettlements', authMiddleware, requireAdmin(), (req, res) => {
+    res.json(database.getResettlements(req.params.id));
+});
+
+app.put('/api/admin/games/:id/draw-time', authMiddleware, requireAdmin('games'), audit('game.update-draw-time', req => ({ type: 'game', id: req.params.id })), (req, res) => {
+    try { res.json(database.updateGameDrawTime(req.params.id, req.body.newDrawTime)); database.syncGameResetJobs(); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
 // --- NUMBER LIMITS ---
-app.get('/api/admin/number-limits', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.get('/api/admin/number-limits', authMiddleware, requireAdmin(), (req, res) => {
     res.json(database.getAllNumberLimits());
 });
 
-app.post('/api/admin/number-limits', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.post('/api/admin/number-limits', authMiddleware, requireAdmin('limits'), audit('number-limit.save', (req, result) => ({ type: 'number_limit', id: result && result.id })), (req, res) => {
     try { res.json(database.saveNumberLimit(req.body)); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
 
-app.delete('/api/admin/number-limits/:id', authMiddleware, (req, res) => {
-    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+app.post('/api/admin/number-limits/bulk', authMiddleware, requireAdmin('limits'), audit('number-limit.save-bulk'), (req, res) => {
+    try { res.json(database.saveNumberLimits(req.body.limits)); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.post('/api/admin/number-limits/bulk-delete', authMiddleware, requireAdmin('limits'), audit('number-limit.delete-bulk'), (req, res) => {
+    try { database.deleteNumberLimits(req.body.ids); res.sendStatus(204); }
+    catch (e) { res.status(400).json({ message: e.message }); }
+});
+
+app.delete('/api/admin/number-limits/:id', authMiddleware, requireAdmin('limits'), audit('number-limit.delete', req => ({ type: 'number_limit', id: req.params.id })), (req, res) => {
     try { database.deleteNumberLimit(req.params.id); res.sendStatus(204); }
     catch (e) { res.status(400).json({ message: e.message }); }
 });
@@ -355,8 +682,10 @@ const startServer = () => {
         database.verifySchema();
         // FIX: Migrate any existing plaintext passwords to bcrypt hashes on startup.
         database.migratePasswords();
+        database.migrateSchema();
 
-        scheduleNextGameReset();
+        startJobScheduler();
+        setInterval(watchGames, GAME_WATCH_MS);
         const port = process.env.PORT || 3001;
         app.listen(port, () => {
             // FIX: use console.log for normal startup messages
@@ -368,4 +697,7 @@ const startServer = () => {
     }
 };
 
-startServer();
\ No newline at end of file
+// Tests require the app and serve it themselves, against a scratch database.
+if (require.main === module) startServer();
+
+module.exports = app;
@@ -2,8 +2,13 @@ const fs = require('fs');
 const path = require('path');
 const Database = require('better-sqlite3');
 const { v4: uuidv4 } = require('uuid');
+const { DEFAULT_GAME_LOGOS } = require('./defaultGameLogos');
+const { getCycleDate } = require('./shared/schedule');
+const { DB_PATH, TREASURY_ID } = require('./config');
+const { GENESIS_HASH, hashLedgerEntry } = require('./ledgerChain');
+const { SYNC_TABLES, SYNC_STATE_SQL, changeTrackingSql } = require('./changeTracking');
+const { toPaisa, toRupees } = require('./shared/money');
 
-const DB_PATH = path.join(__dirname, 'database.sqlite');
 const JSON_DB_PATH = path.join(__dirname, 'db.json');
 
 function main() {
@@ -28,9 +33,16 @@ function main() {
                 id TEXT PRIMARY KEY,
                 name TEXT NOT NULL,
                 password TEXT NOT NULL,
-                wallet REAL NOT NULL,
+                wallet INTEGER NOT NULL,
                 prizeRates TEXT NOT NULL,
-                avatarUrl TEXT
+                avatarUrl TEXT,
+                permissions TEXT
+            );
+            CREATE TABLE treasury (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                wallet INTEGER NOT NULL DEFAULT 0,
+                changeSeq INTEGER
             );
             CREATE TABLE dealers (
                 id TEXT PRIMARY KEY,
@@ -38,11 +50,12 @@ function main() {
                 password TEXT NOT NULL,
                 area TEXT,
                 contact TEXT,
-                wallet REAL NOT NULL,
+                wallet INTEGER NOT NULL,
                 commissionRate REAL NOT NULL,
                 isRestricted INTEGER NOT NULL DEFAULT 0,
                 prizeRates TEXT NOT NULL,
-                avatarUrl TEXT
+                avatarUrl TEXT,
+                changeSeq INTEGER
             );
             CREATE TABLE users (
                 id TEXT PRIMARY KEY,
@@ -51,12 +64,14 @@ function main() {
                 dealerId TEXT NOT NULL,
                 area TEXT,
                 contact TEXT,
-                wallet REAL NOT NULL,
+                wallet INTEGER NOT NULL,
                 commissionRate REAL NOT NULL,
                 isRestricted INTEGER NOT NULL DEFAULT 0,
                 prizeRates TEXT NOT NULL,
                 betLimits TEXT,
                 avatarUrl TEXT,
+                closedAt TEXT,
+                changeSeq INTEGER,
                 FOREIGN KEY (dealerId) REFERENCES dealers(id)
             );
             CREATE TABLE games (
@@ -64,7 +79,22 @@ function main() {
                 name TEXT NOT NULL,
                 drawTime TEXT NOT NULL,
                 winningNumber TEXT,
-                payoutsApproved INTEGER DEFAULT 0
+                payoutsApproved INTEGER DEFAULT 0,
+                kind TEXT NOT NULL DEFAULT 'standard',
+                parentGameId TEXT,
+                isArchived INTEGER NOT NULL DEFAULT 0,
+                logo TEXT,
+                openTime TEXT NOT NULL DEFAULT '16:00',
+                closeBufferMinutes INTEGER NOT NULL DEFAULT 0,
+                isSuspended INTEGER NOT NULL DEFAULT 0,
+                autoApproveMinutes INTEGER,
+                resultChangedAt TEXT,
+                approvalHeld INTEGER NOT NULL DEFAULT 0,
+                declaredBy TEXT,
+                confirmedBy TEXT,
+                confirmedAt TEXT,
+                resultCycleDate TEXT,
+                changeSeq INTEGER
             );
             CREATE TABLE bets (
                 id TEXT PRIMARY KEY,
@@ -73,9 +103,21 @@ function main() {
                 gameId TEXT NOT NULL,
                 subGameType TEXT NOT NULL,
                 numbers TEXT NOT NULL,
-                amountPerNumber REAL NOT NULL,
-                totalAmount REAL NOT NULL,
+                amountPerNumber INTEGER NOT NULL,
+                totalAmount INTEGER NOT NULL,
                 timestamp TEXT NOT NULL,
+                cycleDate TEXT,
+                status TEXT NOT NULL DEFAULT 'pending',
+                userCommission INTEGER,
+                dealerCommission INTEGER,
+                voidedAt TEXT,
+                voidedBy TEXT,
+                winningNumbers TEXT,
+                payout INTEGER,
+                dealerProfit INTEGER,
+                settledAt TEXT,
+                drawNumber TEXT,
+                changeSeq INTEGER,
                 FOREIGN KEY (userId) REFERENCES users(id),
                 FOREIGN KEY (dealerId) REFERENCES dealers(id),
                 FOREIGN KEY (gameId) REFERENCES games(id)
@@ -86,21 +128,103 @@ function main() {
                 accountType TEXT NOT NULL,
                 timestamp TEXT NOT NULL,
                 description TEXT NOT NULL,
-                debit REAL NOT NULL,
-                credit REAL NOT NULL,
-                balance REAL NOT NULL
+                debit INTEGER NOT NULL,
+                credit INTEGER NOT NULL,
+                balance INTEGER NOT NULL,
+                journalId TEXT,
+                prevHash TEXT,
+                hash TEXT,
+                changeSeq INTEGER
             );
             CREATE TABLE number_limits (
                 id INTEGER PRIMARY KEY AUTOINCREMENT,
                 gameType TEXT NOT NULL,
                 numberValue TEXT NOT NULL,
-                limitAmount REAL NOT NULL,
-                UNIQUE(gameType, numberValue)
+                limitAmount INTEGER NOT NULL,
+                gameId TEXT,
+                dealerId TEXT
+            );
+            CREATE TABLE draws (
+                id TEXT PRIMARY KEY,
+                gameId TEXT NOT NULL,
+                cycleDate TEXT NOT NULL,
+                winningNumber TEXT NOT NULL,
+                declaredAt TEXT,
+                declaredBy TEXT,
+                confirmedAt TEXT,
+                confirmedBy TEXT,
+                payoutsApprovedAt TEXT,
+                UNIQUE (gameId, cycleDate)
+            );
+            CREATE TABLE settings (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            );
+            CREATE TABLE market_closures (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                gameId TEXT,
+                date TEXT NOT NULL,
+                reason TEXT NOT NULL,
+                createdBy TEXT NOT NULL,
+                createdAt TEXT NOT NULL
+            );
+            CREATE TABLE payouts (
+                id TEXT PRIMARY KEY,
+                gameId TEXT NOT NULL,
+                betId TEXT NOT NULL,
+                userId TEXT NOT NULL,
+                dealerId TEXT NOT NULL,
+                winningNumber TEXT NOT NULL,
+                userPrize INTEGER NOT NULL,
+                dealerProfit INTEGER NOT NULL,
+                paidAt TEXT NOT NULL,
+                reversedAt TEXT,
+                cycleDate TEXT
+            );
+            CREATE TABLE resettlements (
+                id TEXT PRIMARY KEY,
+                gameId TEXT NOT NULL,
+                previousNumber TEXT NOT NULL,
+                newNumber TEXT NOT NULL,
+                reason TEXT NOT NULL,
+                actorId TEXT NOT NULL,
+                timestamp TEXT NOT NULL,
+                reversedAmount INTEGER NOT NULL,
+                reappliedAmount INTEGER NOT NULL
+            );
+            CREATE TABLE audit_events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                timestamp TEXT NOT NULL,
+                actorId TEXT,
+                actorRole TEXT,
+                action TEXT NOT NULL,
+                targetType TEXT,
+                targetId TEXT,
+                before TEXT,
+                after TEXT,
+                ip TEXT
             );
+            CREATE INDEX idx_audit_events_timestamp ON audit_events(timestamp);
+            CREATE TRIGGER audit_events_no_update BEFORE UPDATE ON audit_events
+                BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END;
+            CREATE TRIGGER audit_events_no_delete BEFORE DELETE ON audit_events
+                BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END;
+            CREATE INDEX idx_payouts_gameId ON payouts(gameId);
+            CREATE INDEX idx_payouts_game_cycle ON payouts(gameId, cycleDate);
+            CREATE UNIQUE INDEX idx_market_closures_scope ON market_closures(date, IFNULL(gameId, ''));
+            CREATE UNIQUE INDEX idx_number_limits_scope ON number_limits(gameType, numberValue, IFNULL(gameId, ''), IFNULL(dealerId, ''));
             CREATE INDEX idx_ledgers_accountId ON ledgers(accountId);
             CREATE INDEX idx_bets_userId ON bets(userId);
+            CREATE INDEX idx_bets_game_cycle ON bets(gameId, cycleDate);
             CREATE INDEX idx_users_dealerId ON users(dealerId);
+            CREATE INDEX idx_ledgers_account_time ON ledgers(accountType, LOWER(accountId), timestamp);
+            CREATE INDEX idx_ledgers_journalId ON ledgers(journalId);
+            CREATE INDEX idx_bets_user_time ON bets(LOWER(userId), timestamp);
+            CREATE INDEX idx_bets_dealer_time ON bets(LOWER(dealerId), timestamp);
+            CREATE INDEX idx_bets_timestamp ON bets(timestamp);
         `);
+        db.exec(SYNC_STATE_SQL);
+        Object.keys(SYNC_TABLES).forEach(table => db.exec(changeTrackingSql(table)));
         console.error('Database schema created.');
     };
     
@@ -108,36 +232,50 @@ function main() {
         const insertAdmin = db.prepare('INSERT INTO admins (id, name, password, wallet, prizeRates, avatarUrl) VALUES (?, ?, ?, ?, ?, ?)');
         const insertDealer = db.prepare('INSERT INTO dealers (id, name, password, area, contact, wallet, commissionRate, isRestricted, prizeRates, avatarUrl) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
         const insertUser = db.prepare('INSERT INTO users (id, name, password, dealerId, area, contact, wallet, commissionRate, isRestricted, prizeRates, betLimits, avatarUrl) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
-        const insertGame = db.prepare('INSERT INTO games (id, name, drawTime, winningNumber, payoutsApproved) VALUES (?, ?, ?, ?, ?)');
-        const insertBet = db.prepare('INSERT INTO bets (id, userId, dealerId, gameId, subGameType, numbers, amountPerNumber, totalAmount, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)');
-        const insertLedger = db.prepare('INSERT INTO ledgers (id, accountId, accountType, timestamp, description, debit, credit, balance) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+        const insertGame = db.prepare('INSERT INTO games (id, name, drawTime, winningNumber, payoutsApproved, kind, parentGameId, logo, openTime, closeBufferMinutes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+        const insertBet = db.prepare('INSERT INTO bets (id, userId, dealerId, gameId, subGameType, numbers, amountPerNumber, totalAmount, timestamp, cycleDate) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+        const insertLedgerRow = db.prepare('INSERT INTO ledgers (id, accountId, accountType, timestamp, description, debit, credit, balance, prevHash, hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+        // db.json holds rupees; the tables hold integer paisa. Seeded entries are chained the same way addLedgerEntry does.
+        const lastHash = {};
+        const insertLedger = (id, accountId, accountType, timestamp, description, debit, credit, balance) => {
+            const key = accountType + ':' + accountId.toLowerCase();
+            const prevHash = lastHash[key] || GENESIS_HASH;
+            const [d, c, b] = [debit, credit, balance].map(toPaisa);
+            lastHash[key] = hashLedgerEntry({ id, accountType, timestamp, description, debit: toRupees(d), credit: toRupees(c), balance: toRupees(b) }, prevHash);
+            insertLedgerRow.run(id, accountId, accountType, timestamp, description, d, c, b, prevHash, lastHash[key]);
+        };
 
         db.transaction(() => {
-            // Admin
+            // Admin. The admin's wallet and ledger are the house's money, so they seed the treasury instead.
             const admin = jsonData.admin;
-            insertAdmin.run(admin.id, admin.name, admin.password, admin.wallet, JSON.stringify(admin.prizeRates), admin.avatarUrl);
-            admin.ledger.forEach(l => insertLedger.run(uuidv4(), admin.id, 'ADMIN', new Date(l.timestamp).toISOString(), l.description, l.debit, l.credit, l.balance));
+            insertAdmin.run(admin.id, admin.name, admin.password, 0, JSON.stringify(admin.prizeRates), admin.avatarUrl);
+            db.prepare("INSERT INTO treasury (id, name, wallet) VALUES (?, 'House Treasury', ?)").run(TREASURY_ID, toPaisa(admin.wallet));
+            admin.ledger.forEach(l => insertLedger(uuidv4(), TREASURY_ID, 'TREASURY', new Date(l.timestamp).toISOString(), l.description, l.debit, l.credit, l.balance));
             
             // Dealers
             jsonData.dealers.forEach(dealer => {
-                insertDealer.run(dealer.id, dealer.name, dealer.password, dealer.area, dealer.contact, dealer.wallet, dealer.commissionRate, dealer.isRestricted ? 1 : 0, JSON.stringify(dealer.prizeRates), dealer.avatarUrl);
-                dealer.ledger.forEach(l => insertLedger.run(uuidv4(), dealer.id, 'DEALER', new Date(l.timestamp).toISOString(), l.description, l.debit, l.credit, l.balance));
+                insertDealer.run(dealer.id, dealer.name, dealer.password, dealer.area, dealer.contact, toPaisa(dealer.wallet), dealer.commissionRate, dealer.isRestricted ? 1 : 0, JSON.stringify(dealer.prizeRates), dealer.avatarUrl);
+                dealer.ledger.forEach(l => insertLedger(uuidv4(), dealer.id, 'DEALER', new Date(l.timestamp).toISOString(), l.description, l.debit, l.credit, l.balance));
             });
 
             // Users
             jsonData.users.forEach(user => {
-                insertUser.run(user.id, user.name, user.password, user.dealerId, user.area, user.contact, user.wallet, user.commissionRate, user.isRestricted ? 1 : 0, JSON.stringify(user.prizeRates), user.betLimits ? JSON.stringify(user.betLimits) : null, user.avatarUrl);
-                user.ledger.forEach(l => insertLedger.run(uuidv4(), user.id, 'USER', new Date(l.timestamp).toISOString(), l.description, l.debit, l.credit, l.balance));
+                insertUser.run(user.id, user.name, user.password, user.dealerId, user.area, user.contact, toPaisa(user.wallet), user.commissionRate, user.isRestricted ? 1 : 0, JSON.stringify(user.prizeRates), user.betLimits ? JSON.stringify(user.betLimits) : null, user.avatarUrl);
+                user.ledger.forEach(l => insertLedger(uuidv4(), user.id, 'USER', new Date(l.timestamp).toISOString(), l.description, l.debit, l.credit, l.balance));
             });
 
             // Games
             jsonData.games.forEach(game => {
-                insertGame.run(game.id, game.name, game.drawTime, game.winningNumber || null, game.payoutsApproved ? 1 : 0);
+                insertGame.run(game.id, game.name, game.drawTime, game.winningNumber || null, game.payoutsApproved ? 1 : 0, game.kind || 'standard', game.parentGameId || null, game.logo || DEFAULT_GAME_LOGOS[game.name] || null, game.openTime || '16:00', game.closeBufferMinutes || 0);
             });
 
             // Bets
+            const gamesById = Object.fromEntries(jsonData.games.map(g => [g.id, g]));
             jsonData.bets.forEach(bet => {
-                insertBet.run(bet.id, bet.userId, bet.dealerId, bet.gameId, bet.subGameType, JSON.stringify(bet.numbers), bet.amountPerNumber, bet.totalAmount, new Date(bet.timestamp).toISOString());
+                const placedAt = new Date(bet.timestamp);
+                const game = gamesById[bet.gameId];
+                const cycleDate = game ? getCycleDate(game, placedAt) : null;
+                insertBet.run(bet.id, bet.userId, bet.dealerId, bet.gameId, bet.subGameType, JSON.stringify(bet.numbers), toPaisa(bet.amountPerNumber), toPaisa(bet.totalAmount), placedAt.toISOString(), cycleDate);
             });
             
             console.error('Data migration complete.');
@@ -0,0 +1,31 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+const { toPaisa } = require('../shared/money');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const walletOf = (id, table) => toPaisa(database.findAccountById(id, table).wallet);
+
+test('closing a user returns the balance to the dealer and keeps the history', () => {
+    openGameNow(sql, 'g5');
+    database.placeBulkBets('user01', 'g5', [{ subGameType: '2 Digit', numbers: ['21'], amountPerNumber: 10 }]);
+    assert.throws(() => database.closeUserByDealer('user01', 'dealer01'), /unsettled bets/);
+    database.declareWinnerForGame('g5', '99', 'Guru');
+    database.approvePayoutsForGame('g5');
+
+    const balance = walletOf('user01', 'users'), dealerBalance = walletOf('dealer01', 'dealers');
+    const ledgerRows = sql.prepare("SELECT COUNT(*) AS n FROM ledgers WHERE accountId = 'user01'").get().n;
+    const closed = database.closeUserByDealer('user01', 'dealer01');
+
+    assert.ok(closed.closedAt);
+    assert.strictEqual(walletOf('user01', 'users'), 0);
+    assert.strictEqual(walletOf('dealer01', 'dealers'), dealerBalance + balance);
+    assert.strictEqual(sql.prepare("SELECT COUNT(*) AS n FROM ledgers WHERE accountId = 'user01'").get().n, ledgerRows + 1);
+    assert.strictEqual(sql.prepare("SELECT COUNT(*) AS n FROM bets WHERE userId = 'user01'").get().n, 1);
+    assert.strictEqual(database.findAccountForLogin('user01').account, null);
+    assert.throws(() => database.toggleUserRestrictionByDealer('user01', 'dealer01'), /closed account/);
+    assert.strictEqual(database.verifyLedgerChains().ok, true);
+    assert.strictEqual(database.reconcileWallets().ok, true);
+});
@@ -0,0 +1,20 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+test('a scheduled reset is audited as the system along with the change', () => {
+    openGameNow(sql, 'g3');
+    database.declareWinnerForGame('g3', '55', 'Guru');
+    database.approvePayoutsForGame('g3');
+
+    database.runGameResetJob('g3', new Date());
+
+    const [event] = database.getAuditEvents({ action: 'game.reset' });
+    assert.strictEqual(event.actorId, 'system');
+    assert.strictEqual(event.targetId, 'g3');
+    assert.strictEqual(JSON.parse(event.before).winningNumber, '55');
+    assert.strictEqual(JSON.parse(event.after).winningNumber, null);
+});
@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const declaredMinutesAgo = (gameId, number, minutes) => {
+    openGameNow(sql, gameId);
+    sql.prepare('UPDATE games SET autoApproveMinutes = 30 WHERE id = ?').run(gameId);
+    database.placeBulkBets('user01', gameId, [{ subGameType: '2 Digit', numbers: [number], amountPerNumber: 10 }]);
+    database.declareWinnerForGame(gameId, number, 'Guru');
+    sql.prepare('UPDATE games SET resultChangedAt = ? WHERE id = ?').run(new Date(Date.now() - minutes * 60 * 1000).toISOString(), gameId);
+};
+
+test('results whose delay has run out are approved automatically, others wait', () => {
+    declaredMinutesAgo('g1', '71', 31);
+    declaredMinutesAgo('g2', '72', 10);
+    declaredMinutesAgo('g3', '73', 45);
+    database.setApprovalHeld('g3', true);
+
+    database.runAutoApprovals();
+
+    assert.ok(database.findAccountById('g1', 'games').payoutsApproved);
+    assert.ok(!database.findAccountById('g2', 'games').payoutsApproved);
+    assert.ok(!database.findAccountById('g3', 'games').payoutsApproved);
+    assert.strictEqual(database.findAccountById('g3', 'games').autoApproveAt, null);
+    assert.deepStrictEqual(database.getAuditEvents({ action: 'game.auto-approve' }).map(e => e.targetId), ['g1']);
+});
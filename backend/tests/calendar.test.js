@@ -0,0 +1,33 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow, previousDate } = require('./helpers');
+const { getCycleDate } = require('../shared/schedule');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const bet = (gameId) => database.placeBulkBets('user01', gameId, [{ subGameType: '2 Digit', numbers: ['27'], amountPerNumber: 10 }]);
+
+test('a suspended market takes no bets until it is resumed', () => {
+    openGameNow(sql, 'g1');
+    database.setGameSuspended('g1', true);
+    assert.strictEqual(database.findAccountById('g1', 'games').isMarketOpen, false);
+    assert.throws(() => bet('g1'), /Ali Baba is suspended/);
+    database.setGameSuspended('g1', false);
+    bet('g1');
+});
+
+test("a holiday closes the cycle that opens on its date, for one game or all of them", () => {
+    openGameNow(sql, 'g2');
+    openGameNow(sql, 'g3');
+    const today = getCycleDate(database.findAccountById('g2', 'games'), new Date());
+    assert.throws(() => database.addMarketClosure({ date: previousDate(previousDate(today)), reason: 'Past' }, 'Guru'), /in the past/);
+
+    const closure = database.addMarketClosure({ date: today, gameId: 'g2', reason: 'Eid' }, 'Guru');
+    assert.throws(() => bet('g2'), /GSM is closed for Eid/);
+    bet('g3');
+    assert.throws(() => database.addMarketClosure({ date: today, gameId: 'g2', reason: 'Again' }, 'Guru'), /already set/);
+
+    database.deleteMarketClosure(closure.id);
+    bet('g2');
+});
@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const placeBet = () => database.placeBulkBets('user01', 'g4', [{ subGameType: '2 Digit', numbers: ['12'], amountPerNumber: 10 }]);
+const recordChanges = (fn) => {
+    const seen = [];
+    const listener = (type) => (data) => seen.push(type);
+    const onWallet = listener('wallet'), onBet = listener('bet');
+    database.changes.on('wallet', onWallet).on('bet', onBet);
+    try { fn(); } catch (e) { }
+    database.changes.off('wallet', onWallet).off('bet', onBet);
+    return seen;
+};
+
+test('changes are only announced once their transaction commits', () => {
+    openGameNow(sql, 'g4');
+    const rolledBack = recordChanges(() => database.runInTransaction(() => { placeBet(); throw new Error('rollback'); }));
+    assert.deepStrictEqual(rolledBack, []);
+
+    const committed = recordChanges(() => database.runInTransaction(() => {
+        placeBet();
+        try { database.runInTransaction(() => { placeBet(); throw new Error('rollback'); }); } catch (e) { }
+    }));
+    assert.strictEqual(committed.filter(type => type === 'bet').length, 1);
+});
@@ -0,0 +1,28 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+const { getCycleDate } = require('../shared/schedule');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+test("the daily reset keeps each cycle's result in the draw history", () => {
+    openGameNow(sql, 'g4');
+    const cycleDate = getCycleDate(database.findAccountById('g4', 'games'), new Date());
+    database.declareWinnerForGame('g4', '36', 'Guru');
+    database.approvePayoutsForGame('g4');
+
+    database.runGameResetJob('g4', new Date());
+
+    assert.strictEqual(database.findAccountById('g4', 'games').winningNumber, null);
+    const [draw] = database.getDrawResults('g4', cycleDate, cycleDate);
+    assert.strictEqual(draw.winningNumber, '36');
+    assert.ok(draw.payoutsApprovedAt);
+});
+
+test('a half-declared open/close result is not a draw result yet', () => {
+    openGameNow(sql, 'g6');
+    database.declareWinnerForGame('g6', '4', 'Guru');
+    assert.deepStrictEqual(database.getDrawResults('g6'), []);
+    assert.throws(() => database.getDrawResults('g6', '2026-02-01', '2026-01-01'), /must not be after/);
+});
@@ -0,0 +1,40 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const bet = (gameId, subGameType, numbers) => database.placeBulkBets('user01', gameId, [{ subGameType, numbers, amountPerNumber: 10 }]);
+
+test('an open/close pair is driven by its kind, whatever the games are called', () => {
+    sql.prepare("UPDATE games SET name = 'Karachi Open' WHERE id = 'g6'").run();
+    sql.prepare("UPDATE games SET name = 'Karachi Close' WHERE id = 'g8'").run();
+    openGameNow(sql, 'g6');
+    openGameNow(sql, 'g8');
+    assert.throws(() => bet('g6', '1 Digit Close', ['3']), /1 Digit Close is not available in Karachi Open/);
+    assert.throws(() => bet('g8', '2 Digit', ['34']), /2 Digit is not available in Karachi Close/);
+    bet('g6', '2 Digit', ['47']);
+
+    assert.strictEqual(database.declareWinnerForGame('g6', '4', 'Guru').winningNumber, '4_');
+    database.declareWinnerForGame('g8', '7', 'Guru');
+    assert.strictEqual(database.findAccountById('g6', 'games').winningNumber, '47');
+});
+
+test('admins can add, rename and retire games', () => {
+    const created = database.createGame({ name: 'Lahore Night', drawTime: '22:30', logo: 'data:image/png;base64,iVBORw0KGgo=' });
+    assert.strictEqual(created.id, 'g10');
+    assert.throws(() => database.createGame({ name: 'lahore night', drawTime: '23:00' }), /already exists/);
+    assert.throws(() => database.createGame({ name: 'Orphan', drawTime: '23:00', kind: 'close-half' }), /must be linked to an active open-half game/);
+    assert.throws(() => database.updateGame('g10', { name: 'Lahore Night', drawTime: '22:30', logo: 'data:text/html;base64,PGI+' }), /Logo must be/);
+
+    assert.strictEqual(database.updateGame('g10', { name: 'Lahore Late', drawTime: '22:30' }).name, 'Lahore Late');
+    openGameNow(sql, 'g10');
+    bet('g10', '2 Digit', ['10']);
+    assert.throws(() => database.setGameArchived('g10', true), /still has unsettled bets/);
+    database.declareWinnerForGame('g10', '10', 'Guru');
+    database.approvePayoutsForGame('g10');
+    database.setGameArchived('g10', true);
+    assert.ok(!database.getActiveGames().some(g => g.id === 'g10'));
+    assert.strictEqual(sql.prepare("SELECT COUNT(*) AS n FROM bets WHERE gameId = 'g10'").get().n, 1);
+});
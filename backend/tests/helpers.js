@@ -0,0 +1,42 @@
+// Scratch database for tests: a fresh copy seeded from db.json by setup-database.js, in a temp directory.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const Database = require('better-sqlite3');
+const jwt = require('jsonwebtoken');
+
+// Call before anything requires ../database, which reads DB_PATH when it loads.
+const createTestDatabase = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ababa-test-'));
+    process.env.DB_PATH = path.join(dir, 'database.sqlite');
+    execFileSync(process.execPath, [path.join(__dirname, '..', 'setup-database.js')], { env: process.env, stdio: 'ignore' });
+    const database = require('../database');
+    database.connect();
+    database.migrateSchema();
+    // A second connection for arranging state the API has no call for, such as moving the clock past a cycle.
+    const sql = new Database(process.env.DB_PATH);
+    const cleanup = () => { sql.close(); fs.rmSync(dir, { recursive: true, force: true }); };
+    return { database, sql, cleanup };
+};
+
+// HH:MM in PKT, minutes from now.
+const pktTime = (minutesFromNow) => new Date(Date.now() + (5 * 60 + minutesFromNow) * 60 * 1000).toISOString().slice(11, 16);
+
+// Opens a game's market around the current time.
+const openGameNow = (sql, gameId) => {
+    sql.prepare('UPDATE games SET openTime = ?, drawTime = ?, closeBufferMinutes = 0 WHERE id = ?').run(pktTime(-60), pktTime(60), gameId);
+};
+
+const previousDate = (date) => new Date(Date.parse(date + 'T00:00:00Z') - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// Serves the API (../server, required after createTestDatabase) on a free port. Resolves to its base URL and a close().
+const startTestServer = (app) => new Promise(resolve => {
+    const server = app.listen(0, () => resolve({ url: 'http://127.0.0.1:' + server.address().port, close: () => server.close() }));
+});
+
+// Authorization header for a signed-in account, as the login route would issue it. ../config reads DB_PATH
+// when it loads, so it is only required once createTestDatabase has set it.
+const authHeader = (id, role) => ({ Authorization: 'Bearer ' + jwt.sign({ id, role }, require('../config').JWT_SECRET) });
+
+module.exports = { createTestDatabase, openGameNow, previousDate, startTestServer, authHeader };
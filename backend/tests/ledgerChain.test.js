@@ -0,0 +1,21 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+test('the ledger check flags edited and removed entries', () => {
+    openGameNow(sql, 'g1');
+    ['91', '92', '93'].forEach(n => database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: [n], amountPerNumber: 10 }]));
+    assert.strictEqual(database.verifyLedgerChains().ok, true);
+
+    const entries = sql.prepare("SELECT id FROM ledgers WHERE accountType = 'USER' AND accountId = 'user01' ORDER BY rowid").all();
+    sql.prepare('UPDATE ledgers SET credit = credit + 100000 WHERE id = ?').run(entries[1].id);
+    sql.prepare('DELETE FROM ledgers WHERE id = ?').run(entries[3].id);
+
+    const report = database.verifyLedgerChains();
+    assert.strictEqual(report.ok, false);
+    assert.deepStrictEqual(report.breaks.map(b => [b.entryId, b.reason]), [[entries[1].id, 'content'], [entries[4].id, 'link']]);
+    assert.ok(report.unbalancedJournals.length > 0);
+});
@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+const { toPaisa } = require('../shared/money');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const walletOf = (userId) => toPaisa(database.findAccountById(userId, 'users').wallet);
+const bet = (gameId, subGameType, numbers, amountPerNumber) => database.placeBulkBets('user01', gameId, [{ subGameType, numbers, amountPerNumber }]);
+
+test('a number limit refuses the stake that would take the book past it', () => {
+    openGameNow(sql, 'g1');
+    database.saveNumberLimit({ gameType: '2-digit', numberValue: '11', limitAmount: 50 });
+    bet('g1', '2 Digit', ['11'], 40);
+    const wallet = walletOf('user01');
+
+    assert.throws(() => bet('g1', '2 Digit', ['11'], 20), (e) => {
+        assert.match(e.message, /Number limit exceeded/);
+        assert.deepStrictEqual(e.violations.map(v => [v.number, v.remaining]), [['11', 10]]);
+        return true;
+    });
+    assert.strictEqual(walletOf('user01'), wallet);
+    bet('g1', '2 Digit', ['11'], 10);
+});
+
+test("a player's own bet limits cap each number and the whole draw", () => {
+    openGameNow(sql, 'g2');
+    sql.prepare("UPDATE users SET betLimits = ? WHERE id = 'user01'").run(JSON.stringify({ oneDigit: 0, twoDigit: 30, perDraw: 100 }));
+    try {
+        assert.throws(() => bet('g2', '2 Digit', ['12'], 40), /2-digit limit of Rs 30 per number exceeded on 12/);
+        bet('g2', '2 Digit', ['12', '13'], 30);
+        assert.throws(() => bet('g2', '2 Digit', ['14', '15'], 25), /Per-draw limit of Rs 100 reached .* Remaining allowance: Rs 40\./);
+
+        const allowance = database.getBetAllowances('user01').find(a => a.gameId === 'g2');
+        assert.strictEqual(allowance.perDrawRemaining, 40);
+        assert.strictEqual(allowance.stakedByNumber['2-digit__12'], 30);
+    } finally {
+        sql.prepare("UPDATE users SET betLimits = NULL WHERE id = 'user01'").run();
+    }
+});
+
+test('a game-scoped limit only applies to that game, and a dealer-specific one takes precedence', () => {
+    openGameNow(sql, 'g3');
+    openGameNow(sql, 'g4');
+    database.saveNumberLimit({ gameType: '2-digit', numberValue: '33', limitAmount: 20, gameId: 'g3' });
+    assert.throws(() => bet('g3', '2 Digit', ['33'], 30), /Number limit exceeded in OYO TV/);
+    bet('g4', '2 Digit', ['33'], 30);
+
+    database.saveNumberLimit({ gameType: '2-digit', numberValue: '33', limitAmount: 60, gameId: 'g3', dealerId: 'dealer01' });
+    bet('g3', '2 Digit', ['33'], 30);
+    assert.throws(() => bet('g3', '2 Digit', ['33'], 40), (e) => e.violations[0].scope === 'game-dealer');
+});
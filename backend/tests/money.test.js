@@ -0,0 +1,38 @@
+// Paisa arithmetic and the wallet/ledger reconciliation. Needs `npm run build:shared` first.
+const test = require('node:test');
+const assert = require('node:assert');
+const { toPaisa, toRupees, parseRupeeAmount, percentOf, multiply, sumPaisa } = require('../shared/money');
+const { createTestDatabase, openGameNow } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+test('rupees convert to whole paisa, rounding half away from zero once', () => {
+    assert.strictEqual(toPaisa(1.005), 101);
+    assert.strictEqual(toPaisa('0.1'), 10);
+    assert.strictEqual(toPaisa(-2.345), -235);
+    assert.strictEqual(toPaisa('abc'), 0);
+    assert.strictEqual(toRupees(sumPaisa([toPaisa(0.1), toPaisa(0.2)])), 0.3);
+    assert.strictEqual(percentOf(30, 5), 2);
+    assert.strictEqual(percentOf(-30, 5), -2);
+    assert.strictEqual(multiply(toPaisa(0.35), 90), 3150);
+});
+
+test('amounts a person types must be positive with at most two decimals', () => {
+    assert.strictEqual(parseRupeeAmount(' 12.50 '), 1250);
+    assert.strictEqual(parseRupeeAmount(0.01), 1);
+    for (const input of ['1.005', 0, -5, '', null, 'ten', Infinity]) assert.strictEqual(parseRupeeAmount(input), null, String(input));
+});
+
+test('bets settle wallets to the exact paisa and reconciliation flags a wallet that drifts', () => {
+    openGameNow(sql, 'g1');
+    database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: ['11', '22', '33'], amountPerNumber: 0.1 }]);
+    // Rs 0.30 staked, 5% commission of 1.5 paisa rounded to 2.
+    assert.strictEqual(database.findAccountById('user01', 'users').wallet, 1999.72);
+    assert.strictEqual(database.reconcileWallets().ok, true);
+
+    sql.prepare('UPDATE users SET wallet = wallet + 1 WHERE id = ?').run('user01');
+    const { ok, mismatches } = database.reconcileWallets();
+    assert.strictEqual(ok, false);
+    assert.deepStrictEqual(mismatches.map(m => [m.accountId, m.difference]), [['user01', 0.01]]);
+});
@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow, previousDate, startTestServer, authHeader } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+const app = require('../server');
+let server;
+test.before(async () => { server = await startTestServer(app); });
+test.after(() => { server.close(); cleanup(); });
+
+const get = async (path, headers) => {
+    const res = await fetch(server.url + path, { headers });
+    return { status: res.status, body: await res.json() };
+};
+
+// Follows nextCursor until the last page, returning every page's items in order.
+const readAllPages = async (path, headers, cursor = null) => {
+    const pages = [];
+    do {
+        const { status, body } = await get(path + (cursor ? '&cursor=' + cursor : ''), headers);
+        assert.strictEqual(status, 200);
+        pages.push(body.items);
+        cursor = body.nextCursor;
+    } while (cursor);
+    return pages;
+};
+
+test('bet pages neither skip nor repeat rows while new bets arrive', async () => {
+    openGameNow(sql, 'g1');
+    const placed = [];
+    for (let i = 0; i < 5; i++) placed.push(...database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: [String(10 + i)], amountPerNumber: 10 }]));
+
+    const user = authHeader('user01', 'USER');
+    const first = await get('/api/bets?limit=2', user);
+    assert.strictEqual(first.body.items.length, 2);
+    assert.deepStrictEqual(first.body.summary, { count: 5, totalStake: 50 });
+    // A bet placed after the first page is fetched lands at the top, not in a later page.
+    database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: ['99'], amountPerNumber: 10 }]);
+
+    const rest = await readAllPages('/api/bets?limit=2', user, first.body.nextCursor);
+    const ids = first.body.items.concat(...rest).map(b => b.id);
+    assert.deepStrictEqual(ids.sort(), placed.map(b => b.id).sort());
+    assert.strictEqual((await get('/api/bets?cursor=nonsense', user)).status, 400);
+});
+
+test('day filters are PKT calendar days and callers only page their own rows', async () => {
+    const [bet] = database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: ['42'], amountPerNumber: 5 }]);
+    const today = new Date(Date.now() + 5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    // 01:30 PKT today is still yesterday in UTC.
+    sql.prepare('UPDATE bets SET timestamp = ? WHERE id = ?').run(previousDate(today) + 'T20:30:00.000Z', bet.id);
+
+    const admin = authHeader('Guru', 'ADMIN');
+    const onDay = (await get('/api/bets?number=42&from=' + today + '&to=' + today, admin)).body;
+    assert.deepStrictEqual(onDay.items.map(b => b.id), [bet.id]);
+    assert.deepStrictEqual(onDay.summary, { count: 1, totalStake: 5 });
+    assert.deepStrictEqual((await get('/api/bets?number=42&to=' + previousDate(today), admin)).body.items, []);
+    assert.strictEqual((await get('/api/bets?from=18-10-2026', admin)).status, 400);
+
+    database.createUser({ id: 'other', name: 'Other', password: 'Other@123', area: 'LHR', contact: '', commissionRate: 0, prizeRates: { oneDigitOpen: 70, oneDigitClose: 70, twoDigit: 700 } }, 'dealer01', 100);
+    assert.deepStrictEqual((await get('/api/bets?userId=other', authHeader('other', 'USER'))).body.items, []);
+    const ledger = await readAllPages('/api/ledger?limit=3&accountType=USER&accountId=user01', authHeader('other', 'USER'));
+    assert.ok(ledger.flat().every(entry => entry.accountId.toLowerCase() === 'other'));
+});
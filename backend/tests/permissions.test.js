@@ -0,0 +1,27 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, startTestServer, authHeader } = require('./helpers');
+
+const { database, cleanup } = createTestDatabase();
+const app = require('../server');
+let server;
+test.before(async () => { server = await startTestServer(app); });
+test.after(() => { server.close(); cleanup(); });
+
+const call = (method, path, headers) => fetch(server.url + path, { method, headers: { 'Content-Type': 'application/json', ...headers }, body: method === 'GET' ? undefined : '{}' });
+
+test('an admin without a permission can look but not change', async () => {
+    database.createAdmin({ id: 'viewer', name: 'Viewer', password: 'View@123', permissions: [] });
+    database.createAdmin({ id: 'payer', name: 'Payer', password: 'Pay@1234', permissions: ['payouts'] });
+
+    assert.strictEqual((await call('GET', '/api/admin/games', authHeader('viewer', 'ADMIN'))).status, 200);
+    const refused = await call('POST', '/api/admin/games/g1/approve-payouts', authHeader('viewer', 'ADMIN'));
+    assert.strictEqual(refused.status, 403);
+    assert.match((await refused.json()).message, /does not have the "payouts" permission/);
+    assert.strictEqual((await call('POST', '/api/admin/games/g1/declare-winner', authHeader('payer', 'ADMIN'))).status, 403);
+});
+
+test('other roles and anonymous callers are kept out of admin routes', async () => {
+    assert.strictEqual((await call('GET', '/api/admin/games', authHeader('dealer01', 'DEALER'))).status, 403);
+    assert.strictEqual((await call('GET', '/api/admin/games', {})).status, 401);
+});
@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow, previousDate } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+// Places a bet, declares its number and moves both back a cycle, as if the result was declared yesterday
+// and today's cycle has just opened.
+const declareYesterday = (gameId, number) => {
+    openGameNow(sql, gameId);
+    const [bet] = database.placeBulkBets('user01', gameId, [{ subGameType: '2 Digit', numbers: [number], amountPerNumber: 10 }]);
+    database.declareWinnerForGame(gameId, number, 'Guru');
+    const yesterday = previousDate(bet.cycleDate);
+    sql.prepare('UPDATE bets SET cycleDate = ? WHERE gameId = ?').run(yesterday, gameId);
+    sql.prepare('UPDATE draws SET cycleDate = ? WHERE gameId = ?').run(yesterday, gameId);
+    sql.prepare('UPDATE games SET resultCycleDate = ? WHERE id = ?').run(yesterday, gameId);
+    return { betId: bet.id, yesterday };
+};
+const statusOf = (betId) => sql.prepare('SELECT status FROM bets WHERE id = ?').get(betId).status;
+
+test('a held result survives the reset and is settled under its own cycle once approved', () => {
+    sql.prepare("UPDATE games SET autoApproveMinutes = 30 WHERE id = 'g1'").run();
+    const { betId, yesterday } = declareYesterday('g1', '61');
+    database.setApprovalHeld('g1', true);
+
+    database.runGameResetJob('g1', new Date());
+    assert.strictEqual(database.findAccountById('g1', 'games').winningNumber, '61');
+    assert.strictEqual(statusOf(betId), 'pending');
+
+    database.setApprovalHeld('g1', false);
+    const approved = database.approvePayoutsForGame('g1');
+    assert.strictEqual(statusOf(betId), 'won');
+    assert.strictEqual(approved.winningNumber, null);
+    assert.strictEqual(database.getDrawResults('g1', yesterday, yesterday)[0].winningNumber, '61');
+});
+
+test('a result awaiting a second admin survives the reset until it is confirmed and paid', () => {
+    database.createAdmin({ id: 'checker', name: 'Checker', password: 'Check@123', permissions: ['results', 'payouts'] });
+    database.setMakerChecker(true);
+    try {
+        const { betId } = declareYesterday('g2', '62');
+
+        database.runGameResetJob('g2', new Date());
+        assert.strictEqual(database.findAccountById('g2', 'games').awaitingConfirmation, true);
+        assert.strictEqual(statusOf(betId), 'pending');
+
+        database.confirmResult('g2', 'checker');
+        database.approvePayoutsForGame('g2');
+        assert.strictEqual(statusOf(betId), 'won');
+        assert.strictEqual(database.findAccountById('g2', 'games').winningNumber, null);
+    } finally {
+        database.setMakerChecker(false);
+    }
+});
@@ -0,0 +1,36 @@
+// Market schedule boundaries for draws that fall after midnight. Needs `npm run build:shared` first.
+const test = require('node:test');
+const assert = require('node:assert');
+const { createMarketSchedule, getCycleDate, isMarketOpen } = require('../shared/schedule');
+
+const at = (iso) => createMarketSchedule(() => new Date(iso));
+
+// Both open at the default 16:00 PKT (11:00Z) and draw after midnight PKT.
+const AKC = { drawTime: '00:55' };
+const LS3 = { drawTime: '02:10', closeBufferMinutes: 15 };
+
+test('AKC closes at its 00:55 PKT draw, the evening before in UTC', () => {
+    assert.strictEqual(at('2026-10-18T18:30:00Z').isOpen(AKC), true);
+    assert.strictEqual(at('2026-10-18T19:54:59Z').isOpen(AKC), true);
+    assert.strictEqual(at('2026-10-18T19:55:00Z').isOpen(AKC), false);
+    assert.strictEqual(at('2026-10-18T19:55:00Z').getCycle(AKC).closeAt.toISOString(), '2026-10-18T19:55:00.000Z');
+});
+
+test('LS3 closes 15 minutes before its 02:10 PKT draw', () => {
+    const cycle = at('2026-10-18T20:00:00Z').getCycle(LS3);
+    assert.strictEqual(cycle.drawAt.toISOString(), '2026-10-18T21:10:00.000Z');
+    assert.strictEqual(cycle.closeAt.toISOString(), '2026-10-18T20:55:00.000Z');
+    assert.strictEqual(isMarketOpen(LS3, new Date('2026-10-18T20:54:59Z')), true);
+    assert.strictEqual(isMarketOpen(LS3, new Date('2026-10-18T20:55:00Z')), false);
+});
+
+test('a draw after midnight stays in the cycle of the day the market opened', () => {
+    // 00:30 and 02:00 PKT on the 19th are still the 18th's cycle.
+    assert.strictEqual(getCycleDate(AKC, new Date('2026-10-18T19:30:00Z')), '2026-10-18');
+    assert.strictEqual(getCycleDate(LS3, new Date('2026-10-18T21:00:00Z')), '2026-10-18');
+    // Until the next 16:00 PKT open the closed market still reports that cycle, then rolls over.
+    assert.strictEqual(getCycleDate(LS3, new Date('2026-10-19T10:59:59Z')), '2026-10-18');
+    assert.strictEqual(at('2026-10-19T10:59:59Z').isOpen(LS3), false);
+    assert.strictEqual(getCycleDate(LS3, new Date('2026-10-19T11:00:00Z')), '2026-10-19');
+    assert.strictEqual(at('2026-10-19T11:00:00Z').isOpen(LS3), true);
+});
@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow, previousDate } = require('./helpers');
+const { toPaisa } = require('../shared/money');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const walletOf = (userId) => toPaisa(database.findAccountById(userId, 'users').wallet);
+const placeAndWin = (gameId, number) => {
+    database.placeBulkBets('user01', gameId, [{ subGameType: '2 Digit', numbers: [number], amountPerNumber: 10 }]);
+    database.declareWinnerForGame(gameId, number, 'Guru');
+    database.approvePayoutsForGame(gameId);
+};
+
+test('re-settling a draw only reverses the payouts of its own cycle', () => {
+    openGameNow(sql, 'g1');
+    placeAndWin('g1', '11');
+    // Roll the first win back a day and clear the result, as the daily reset leaves it.
+    const today = sql.prepare("SELECT cycleDate FROM bets WHERE gameId = 'g1'").get().cycleDate;
+    sql.prepare("UPDATE bets SET cycleDate = ? WHERE gameId = 'g1'").run(previousDate(today));
+    sql.prepare("UPDATE payouts SET cycleDate = ? WHERE gameId = 'g1'").run(previousDate(today));
+    sql.prepare("UPDATE draws SET cycleDate = ? WHERE gameId = 'g1'").run(previousDate(today));
+    sql.prepare("UPDATE games SET winningNumber = NULL, payoutsApproved = 0, resultChangedAt = NULL, declaredBy = NULL WHERE id = 'g1'").run();
+
+    placeAndWin('g1', '11');
+    const beforeResettle = walletOf('user01');
+    const todaysPrize = sql.prepare("SELECT userPrize FROM payouts WHERE gameId = 'g1' AND cycleDate = ?").get(today).userPrize;
+
+    database.resettleGame('g1', '22', 'Wrong number entered', 'Guru');
+
+    assert.strictEqual(walletOf('user01'), beforeResettle - todaysPrize);
+    const payouts = sql.prepare("SELECT cycleDate, reversedAt FROM payouts WHERE gameId = 'g1' ORDER BY paidAt").all();
+    assert.deepStrictEqual(payouts.map(p => [p.cycleDate, p.reversedAt !== null]), [[previousDate(today), false], [today, true]]);
+    assert.strictEqual(database.verifyLedgerChains().ok, true);
+    assert.strictEqual(database.reconcileWallets().ok, true);
+});
+
+test('with maker-checker on, a corrected result is not paid until a second admin confirms it', () => {
+    database.createAdmin({ id: 'checker', name: 'Checker', password: 'Check@123', permissions: ['results', 'payouts'] });
+    database.setMakerChecker(true);
+    try {
+        openGameNow(sql, 'g2');
+        database.placeBulkBets('user01', 'g2', [{ subGameType: '2 Digit', numbers: ['33', '44'], amountPerNumber: 10 }]);
+        database.declareWinnerForGame('g2', '33', 'Guru');
+        database.confirmResult('g2', 'checker');
+        database.approvePayoutsForGame('g2');
+        const paid = walletOf('user01');
+        const prize = sql.prepare("SELECT userPrize FROM payouts WHERE gameId = 'g2' AND reversedAt IS NULL").get().userPrize;
+
+        const corrected = database.resettleGame('g2', '44', 'Wrong number entered', 'Guru');
+        assert.ok(!corrected.payoutsApproved);
+        assert.strictEqual(corrected.confirmedBy, null);
+        assert.strictEqual(walletOf('user01'), paid - prize);
+        assert.throws(() => database.approvePayoutsForGame('g2'), /confirmed by a second admin/);
+        assert.throws(() => database.confirmResult('g2', 'Guru'), /different admin/);
+
+        database.confirmResult('g2', 'checker');
+        database.approvePayoutsForGame('g2');
+        assert.strictEqual(walletOf('user01'), paid);
+    } finally {
+        database.setMakerChecker(false);
+    }
+});
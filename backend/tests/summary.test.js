@@ -0,0 +1,17 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow, previousDate } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+test('the number summary reports stakes by cycle, not by the calendar day they were placed', () => {
+    openGameNow(sql, 'g9');
+    const [bet] = database.placeBulkBets('user01', 'g9', [{ subGameType: '2 Digit', numbers: ['58'], amountPerNumber: 25 }]);
+    // As if placed at 03:30 PKT in a cycle that opened at 03:00: still the previous day in UTC.
+    sql.prepare('UPDATE bets SET timestamp = ? WHERE id = ?').run(previousDate(bet.cycleDate) + 'T22:30:00.000Z', bet.id);
+
+    const summary = database.getNumberStakeSummary({ gameId: 'g9', date: bet.cycleDate });
+    assert.deepStrictEqual(summary.twoDigit, [{ number: '58', stake: 25 }]);
+    assert.deepStrictEqual(database.getNumberStakeSummary({ gameId: 'g9', date: previousDate(bet.cycleDate) }).twoDigit, []);
+});
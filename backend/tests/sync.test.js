@@ -0,0 +1,30 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const rates = { oneDigitOpen: 80, oneDigitClose: 80, twoDigit: 800 };
+
+test("a delta holds only the rows changed since the cursor that the viewer may see", () => {
+    openGameNow(sql, 'g1');
+    database.createDealer({ id: 'dealer02', name: 'Other', password: 'Pak@1234', area: 'LHR', contact: '', commissionRate: 10, prizeRates: rates });
+    database.createUser({ id: 'user02', name: 'Other Player', password: 'Pak@1234', area: 'LHR', contact: '', commissionRate: 5, prizeRates: rates }, 'dealer02');
+    const cursor = database.getChangeCursor();
+
+    database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: ['15'], amountPerNumber: 10 }]);
+    sql.prepare("UPDATE users SET name = 'Renamed Other' WHERE id = 'user02'").run();
+
+    const dealer = database.getDataChangesSince(cursor, 'DEALER', 'dealer01');
+    assert.ok(dealer.delta && dealer.cursor > cursor);
+    assert.deepStrictEqual(dealer.users.map(u => u.id), ['user01']);
+    assert.strictEqual(dealer.bets.length, 1);
+    assert.deepStrictEqual([...new Set(dealer.ledgerEntries.map(e => e.accountId))].sort(), ['dealer01', 'user01']);
+
+    const admin = database.getDataChangesSince(cursor, 'ADMIN', 'Guru');
+    assert.deepStrictEqual(admin.users.map(u => u.id).sort(), ['user01', 'user02']);
+
+    const caughtUp = database.getDataChangesSince(dealer.cursor, 'DEALER', 'dealer01');
+    assert.deepStrictEqual([caughtUp.users, caughtUp.bets, caughtUp.ledgerEntries], [[], [], []]);
+});
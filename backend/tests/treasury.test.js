@@ -0,0 +1,20 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+const { toPaisa } = require('../shared/money');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+test('house money posts to the treasury, not to the admin login', () => {
+    openGameNow(sql, 'g1');
+    const treasury = toPaisa(database.getTreasuryAccount().wallet);
+    const adminWallet = toPaisa(database.findAccountById('Guru', 'admins').wallet);
+
+    const [bet] = database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: ['81'], amountPerNumber: 100 }]);
+
+    const kept = toPaisa(bet.totalAmount) - toPaisa(bet.userCommission) - toPaisa(bet.dealerCommission);
+    assert.strictEqual(toPaisa(database.getTreasuryAccount().wallet), treasury + kept);
+    assert.strictEqual(toPaisa(database.findAccountById('Guru', 'admins').wallet), adminWallet);
+    assert.strictEqual(sql.prepare("SELECT COUNT(*) AS n FROM ledgers WHERE accountType = 'ADMIN'").get().n, 0);
+});
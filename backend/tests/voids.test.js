@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createTestDatabase, openGameNow } = require('./helpers');
+const { toPaisa } = require('../shared/money');
+
+const { database, sql, cleanup } = createTestDatabase();
+test.after(cleanup);
+
+const walletOf = (id, table) => toPaisa(database.findAccountById(id, table).wallet);
+
+test('a player can cancel a bet after the dealer has spent the commission on it', () => {
+    openGameNow(sql, 'g1');
+    const before = walletOf('user01', 'users');
+    const [bet] = database.placeBulkBets('user01', 'g1', [{ subGameType: '2 Digit', numbers: ['45'], amountPerNumber: 100 }]);
+    const override = toPaisa(bet.dealerCommission);
+    assert.ok(override > 0);
+    const dealerWallet = walletOf('dealer01', 'dealers');
+    database.postJournal([
+        database.debitLeg('DEALER', 'dealer01', 'Withdrawal', dealerWallet),
+        database.creditLeg('TREASURY', 'treasury', 'Dealer withdrawal', dealerWallet)
+    ]);
+
+    const voided = database.voidBet(bet.id, 'user01', 'USER');
+
+    assert.strictEqual(voided.status, 'void');
+    assert.strictEqual(walletOf('user01', 'users'), before);
+    assert.strictEqual(walletOf('dealer01', 'dealers'), -override);
+    assert.strictEqual(database.reconcileWallets().ok, true);
+});
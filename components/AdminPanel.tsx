@@ -1,14 +1,20 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Dealer, User, Game, PrizeRates, LedgerEntry, Bet, NumberLimit, SubGameType, Admin } from '../types';
-import { Icons } from '../constants';
+import { Dealer, User, Game, PrizeRates, LedgerEntry, Bet, NumberLimit, SubGameType, Admin, Resettlement, GameKind, MarketClosure, Job, AdminSummary, AdminPermission, Treasury, AuditEvent, LedgerVerification, WalletReconciliation } from '../types';
+import { Icons, isSingleDigitGame, ADMIN_PERMISSION_LABELS } from '../constants';
 import { useAuth } from '../hooks/useAuth';
+import { usePagedList, toLedgerEntry, toBet, getBetsRefreshKey } from '../hooks/usePagedList';
+import { getMarketDate, getCycleDate } from '../shared/schedule';
+import { formatRupees } from '../shared/money';
 import { UserForm } from './DealerPanel'; // Import UserForm to reuse it
+import JournalModal from './JournalModal';
 
 // --- TYPE DEFINITIONS ---
+// One game's current cycle; winningNumber is null until it is declared.
 interface GameSummary {
     gameName: string;
-    winningNumber: string;
+    cycleDate: string;
+    winningNumber: string | null;
     totalStake: number;
     totalPayouts: number;
     totalDealerProfit: number;
@@ -31,23 +37,16 @@ interface FinancialSummary {
 type SortKey = 'name' | 'wallet' | 'status';
 type SortDirection = 'asc' | 'desc';
 
-const getTodayDateString = () => new Date().toISOString().split('T')[0];
+// Date filters are PKT days, as the server reads them.
+const getTodayDateString = () => getMarketDate(new Date());
 
 // --- HELPER COMPONENTS (DEFINED OUTSIDE TO PREVENT REMOUNTING) ---
 
-const StatefulLedgerTableWrapper: React.FC<{ entries: LedgerEntry[] }> = ({ entries }) => {
+// Pages the account's ledger from the server; refreshKey (the wallet) reloads it when new entries post.
+const StatefulLedgerTableWrapper: React.FC<{ accountType: 'TREASURY' | 'DEALER' | 'USER'; accountId: string; refreshKey: unknown }> = ({ accountType, accountId, refreshKey }) => {
     const [startDate, setStartDate] = useState(getTodayDateString());
     const [endDate, setEndDate] = useState(getTodayDateString());
-
-    const filteredEntries = useMemo(() => {
-        if (!startDate && !endDate) return entries;
-        return entries.filter(entry => {
-            const entryDateStr = entry.timestamp.toISOString().split('T')[0];
-            if (startDate && entryDateStr < startDate) return false;
-            if (endDate && entryDateStr > endDate) return false;
-            return true;
-        });
-    }, [entries, startDate, endDate]);
+    const ledger = usePagedList('/api/ledger', { accountType, accountId, from: startDate, to: endDate }, toLedgerEntry, { refreshKey });
 
     const inputClass = "w-full bg-slate-800 p-2 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-white font-sans";
 
@@ -64,7 +63,13 @@ const StatefulLedgerTableWrapper: React.FC<{ entries: LedgerEntry[] }> = ({ entr
                 </div>
                 <button onClick={() => { setStartDate(''); setEndDate(''); }} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-md transition-colors h-fit">Show All History</button>
             </div>
-            <LedgerTable entries={filteredEntries} />
+            <LedgerTable entries={ledger.items} />
+            {ledger.error && <p className="text-sm text-red-400 mt-3">{ledger.error}</p>}
+            {ledger.hasMore && (
+                <button onClick={ledger.loadMore} disabled={ledger.isLoading} className="mt-4 w-full bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-2 rounded-md transition-colors disabled:opacity-50">
+                    {ledger.isLoading ? 'Loading...' : 'Load older entries'}
+                </button>
+            )}
         </div>
     );
 };
@@ -105,41 +110,48 @@ const Modal: React.FC<{ isOpen: boolean; onClose: () => void; title: string; chi
     );
 };
 
-const LedgerTable: React.FC<{ entries: LedgerEntry[] }> = ({ entries }) => (
-    <div className="bg-slate-900/50 rounded-lg overflow-hidden border border-slate-700">
-        <div className="overflow-y-auto max-h-[60vh] mobile-scroll-x">
-            <table className="w-full text-left min-w-[600px]">
-                <thead className="bg-slate-800/50 sticky top-0 backdrop-blur-sm">
-                    <tr>
-                        <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Date</th>
-                        <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Description</th>
-                        <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Debit</th>
-                        <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Credit</th>
-                        <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Balance</th>
-                    </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-800">
-                    {Array.isArray(entries) && [...entries].reverse().map(entry => (
-                        <tr key={entry.id} className="hover:bg-cyan-500/10 text-sm transition-colors">
-                            <td className="p-3 text-slate-400 whitespace-nowrap">{entry.timestamp.toLocaleString()}</td>
-                            <td className="p-3 text-white">{entry.description}</td>
-                            <td className="p-3 text-right text-red-400 font-mono">{entry.debit > 0 ? entry.debit.toFixed(2) : '-'}</td>
-                            <td className="p-3 text-right text-green-400 font-mono">{entry.credit > 0 ? entry.credit.toFixed(2) : '-'}</td>
-                            <td className="p-3 text-right font-semibold text-white font-mono">{entry.balance.toFixed(2)}</td>
-                        </tr>
-                    ))}
-                    {(!Array.isArray(entries) || entries.length === 0) && (
-                        <tr>
-                            <td colSpan={5} className="p-8 text-center text-slate-500">
-                                No ledger entries found.
-                            </td>
-                        </tr>
-                    )}
-                </tbody>
-            </table>
-        </div>
-    </div>
-);
+// Clicking a row opens its journal posting with all the counter-entries.
+const LedgerTable: React.FC<{ entries: LedgerEntry[] }> = ({ entries }) => {
+    const [journalEntryId, setJournalEntryId] = useState<string | null>(null);
+    return (
+        <>
+            <div className="bg-slate-900/50 rounded-lg overflow-hidden border border-slate-700">
+                <div className="overflow-y-auto max-h-[60vh] mobile-scroll-x">
+                    <table className="w-full text-left min-w-[600px]">
+                        <thead className="bg-slate-800/50 sticky top-0 backdrop-blur-sm">
+                            <tr>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Date</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Description</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Debit</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Credit</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Balance</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {Array.isArray(entries) && entries.map(entry => (
+                                <tr key={entry.id} onClick={() => setJournalEntryId(entry.id)} className="hover:bg-cyan-500/10 text-sm transition-colors cursor-pointer">
+                                    <td className="p-3 text-slate-400 whitespace-nowrap">{entry.timestamp.toLocaleString()}</td>
+                                    <td className="p-3 text-white">{entry.description}</td>
+                                    <td className="p-3 text-right text-red-400 font-mono">{entry.debit > 0 ? formatRupees(entry.debit) : '-'}</td>
+                                    <td className="p-3 text-right text-green-400 font-mono">{entry.credit > 0 ? formatRupees(entry.credit) : '-'}</td>
+                                    <td className="p-3 text-right font-semibold text-white font-mono">{formatRupees(entry.balance)}</td>
+                                </tr>
+                            ))}
+                            {(!Array.isArray(entries) || entries.length === 0) && (
+                                <tr>
+                                    <td colSpan={5} className="p-8 text-center text-slate-500">
+                                        No ledger entries found.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+            <JournalModal entryId={journalEntryId} onClose={() => setJournalEntryId(null)} />
+        </>
+    );
+};
 
 // --- WINNERS VIEW COMPONENT ---
 interface WinnerRecord {
@@ -154,7 +166,7 @@ interface WinnerRecord {
     winningNumbersInBet: string[];
     stake: number;
     payout: number;
-    payoutApproved: boolean;
+    settledAt: Date | null;
 }
 
 const WinnersView: React.FC<{ bets: Bet[], games: Game[], users: User[], dealers: Dealer[] }> = ({ bets, games, users, dealers }) => {
@@ -163,62 +175,27 @@ const WinnersView: React.FC<{ bets: Bet[], games: Game[], users: User[], dealers
     const [searchTerm, setSearchTerm] = useState('');
 
     const winnerData = useMemo(() => {
-        const records: WinnerRecord[] = [];
-
-        // Only look at games that have a winner declared
-        const finalizedGames = games.filter(g => g.winningNumber && !g.winningNumber.includes('_'));
-
-        finalizedGames.forEach(game => {
-            const gameBets = bets.filter(b => b.gameId === game.id);
-            const winningNumber = game.winningNumber!;
-
-            gameBets.forEach(bet => {
-                const user = users.find(u => u.id === bet.userId);
-                const dealer = dealers.find(d => d.id === bet.dealerId);
-                if (!user) return;
-
-                const winningNumbersInBet = bet.numbers.filter(num => {
-                    switch (bet.subGameType) {
-                        case SubGameType.OneDigitOpen:
-                            return winningNumber.length === 2 && num === winningNumber[0];
-                        case SubGameType.OneDigitClose:
-                            if (game.name === 'AKC') return num === winningNumber;
-                            return winningNumber.length === 2 && num === winningNumber[1];
-                        default: // 2 Digit, Bulk, Combo
-                            return num === winningNumber;
-                    }
-                });
-
-                if (winningNumbersInBet.length > 0) {
-                    const getPrizeMultiplier = (rates: PrizeRates, type: SubGameType) => {
-                        if (type === SubGameType.OneDigitOpen) return rates.oneDigitOpen;
-                        if (type === SubGameType.OneDigitClose) return rates.oneDigitClose;
-                        return rates.twoDigit;
-                    };
-
-                    const multiplier = getPrizeMultiplier(user.prizeRates, bet.subGameType);
-                    const payout = winningNumbersInBet.length * bet.amountPerNumber * multiplier;
-
-                    records.push({
-                        betId: bet.id,
-                        timestamp: bet.timestamp,
-                        userName: user.name,
-                        dealerName: dealer?.name || 'Unknown',
-                        gameName: game.name,
-                        winningNumber: winningNumber,
-                        subGameType: bet.subGameType,
-                        selectedNumbers: bet.numbers,
-                        winningNumbersInBet,
-                        stake: bet.totalAmount,
-                        payout,
-                        payoutApproved: !!game.payoutsApproved
-                    });
-                }
-            });
+        // Winners are settled on the server when payouts are approved; only stored results are listed here.
+        const records: WinnerRecord[] = bets.filter(b => b.status === 'won').map(bet => {
+            const game = games.find(g => g.id === bet.gameId);
+            return {
+                betId: bet.id,
+                timestamp: bet.timestamp,
+                userName: users.find(u => u.id === bet.userId)?.name || 'Unknown',
+                dealerName: dealers.find(d => d.id === bet.dealerId)?.name || 'Unknown',
+                gameName: game?.name || 'Unknown',
+                winningNumber: bet.drawNumber || '-',
+                subGameType: bet.subGameType,
+                selectedNumbers: bet.numbers,
+                winningNumbersInBet: bet.winningNumbers || [],
+                stake: bet.totalAmount,
+                payout: bet.payout || 0,
+                settledAt: bet.settledAt ? new Date(bet.settledAt) : null
+            };
         });
 
         return records.filter(r => {
-            const dateStr = r.timestamp.toISOString().split('T')[0];
+            const dateStr = getMarketDate(r.timestamp);
             const matchesDate = (!startDate || dateStr >= startDate) && (!endDate || dateStr <= endDate);
             const matchesSearch = !searchTerm.trim() ||
                 r.userName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -268,7 +245,7 @@ const WinnersView: React.FC<{ bets: Bet[], games: Game[], users: User[], dealers
                                 <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Winner Pick</th>
                                 <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Stake</th>
                                 <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Prize</th>
-                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-center">Status</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-center">Paid At</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-800">
@@ -286,12 +263,8 @@ const WinnersView: React.FC<{ bets: Bet[], games: Game[], users: User[], dealers
                                         <div className="text-white font-mono">{record.winningNumbersInBet.join(', ')}</div>
                                     </td>
                                     <td className="p-4 text-right font-mono text-slate-300">{record.stake.toFixed(0)}</td>
-                                    <td className="p-4 text-right font-mono text-emerald-400 font-bold">{record.payout.toLocaleString(undefined, { minimumFractionDigits: 2 })}</td>
-                                    <td className="p-4 text-center">
-                                        <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${record.payoutApproved ? 'bg-green-500/20 text-green-400' : 'bg-amber-500/20 text-amber-400'}`}>
-                                            {record.payoutApproved ? 'Paid' : 'Pending'}
-                                        </span>
-                                    </td>
+                                    <td className="p-4 text-right font-mono text-emerald-400 font-bold">{formatRupees(record.payout)}</td>
+                                    <td className="p-4 text-center text-xs text-green-400 whitespace-nowrap">{record.settledAt ? record.settledAt.toLocaleString() : '-'}</td>
                                 </tr>
                             ))}
                         </tbody>
@@ -538,6 +511,334 @@ const SystemSettingsForm: React.FC<{ admin: Admin, onSave: (admin: Admin) => Pro
     );
 };
 
+const JobStatusView: React.FC<{ games: Game[] }> = ({ games }) => {
+    const [jobs, setJobs] = useState<Job[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { fetchWithAuth } = useAuth();
+
+    const fetchJobs = async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetchWithAuth('/api/admin/jobs');
+            if (!response.ok) throw new Error('Failed to fetch');
+            setJobs(await response.json());
+        } catch (error) {
+            console.error('Failed to fetch jobs:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+    useEffect(() => {
+        fetchJobs();
+    }, []);
+
+    const describeJob = (name: string) => {
+        const [type, arg] = name.split(':');
+        if (type === 'game-reset') return `Cycle reset · ${games.find(g => g.id === arg)?.name || arg}`;
+        if (type === 'auto-approve') return 'Payout auto-approval check';
+        return name;
+    };
+    const formatTime = (iso: string | null) => iso ? new Date(iso).toLocaleString() : '—';
+
+    return (
+        <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700 max-w-4xl mx-auto mt-8">
+            <div className="flex justify-between items-center mb-4 border-b border-slate-700 pb-2">
+                <h3 className="text-xl font-bold text-white uppercase tracking-widest">Scheduled Jobs</h3>
+                <button onClick={fetchJobs} className="bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors">Refresh</button>
+            </div>
+            <div className="overflow-x-auto mobile-scroll-x">
+                <table className="w-full text-left min-w-[700px] text-sm">
+                    <thead>
+                        <tr className="text-xs text-slate-400 uppercase tracking-wider">
+                            <th className="p-3">Job</th>
+                            <th className="p-3">Next Run</th>
+                            <th className="p-3">Last Run</th>
+                            <th className="p-3">Status</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800">
+                        {isLoading ? (
+                            <tr><td colSpan={4} className="p-6 text-center text-slate-500">Loading jobs...</td></tr>
+                        ) : jobs.length === 0 ? (
+                            <tr><td colSpan={4} className="p-6 text-center text-slate-500">No jobs scheduled.</td></tr>
+                        ) : jobs.map(job => (
+                            <tr key={job.name}>
+                                <td className="p-3 text-white">{describeJob(job.name)}</td>
+                                <td className="p-3 font-mono text-slate-300">{formatTime(job.scheduledFor)}</td>
+                                <td className="p-3 font-mono text-slate-300">{formatTime(job.lastRunAt)}</td>
+                                <td className="p-3">
+                                    {job.lockedBy ? (
+                                        <span className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-sky-500/20 text-sky-300" title={`Until ${formatTime(job.lockedUntil)}`}>Running on {job.lockedBy}</span>
+                                    ) : job.lastStatus === 'failed' ? (
+                                        <span className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-red-500/20 text-red-400" title={job.lastError || ''}>Failed</span>
+                                    ) : job.lastStatus === 'ok' ? (
+                                        <span className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-green-500/20 text-green-400">OK</span>
+                                    ) : (
+                                        <span className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-slate-500/20 text-slate-400">Not run yet</span>
+                                    )}
+                                    {job.lastStatus === 'failed' && job.lastError && <div className="text-xs text-red-300 mt-1">{job.lastError}</div>}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+// Lists the fields an audit event changed; events without a before-state show what was recorded.
+const describeAuditChange = (event: AuditEvent): string[] => {
+    const parse = (json: string | null) => { try { return json ? JSON.parse(json) : null; } catch { return null; } };
+    const before = parse(event.before), after = parse(event.after);
+    const show = (v: unknown) => v === null || v === undefined ? '—' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+    if (before && after && typeof before === 'object' && typeof after === 'object') {
+        return Object.keys({ ...before, ...after })
+            .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+            .map(key => `${key}: ${show(before[key])} → ${show(after[key])}`);
+    }
+    if (after && typeof after === 'object') return Object.entries(after).map(([key, v]) => `${key}: ${show(v)}`);
+    if (before && typeof before === 'object') return ['deleted'];
+    return [];
+};
+
+const AuditLogView: React.FC = () => {
+    const [events, setEvents] = useState<AuditEvent[]>([]);
+    const [filters, setFilters] = useState({ q: '', actorId: '', from: '', to: '' });
+    const [isLoading, setIsLoading] = useState(true);
+    const { fetchWithAuth } = useAuth();
+
+    const queryString = () => new URLSearchParams(Object.entries(filters).filter(([, v]) => v.trim() !== '')).toString();
+
+    const fetchEvents = async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetchWithAuth(`/api/admin/audit?${queryString()}`);
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Failed to fetch audit log.'); }
+            setEvents(await response.json());
+        } catch (error: any) {
+            alert(error.message || 'Failed to fetch audit log.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+    useEffect(() => {
+        fetchEvents();
+    }, []);
+
+    const handleExport = async () => {
+        try {
+            const query = queryString();
+            const response = await fetchWithAuth(`/api/admin/audit?${query}${query ? '&' : ''}format=csv`);
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Export failed.'); }
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `audit-events-${getMarketDate(new Date())}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            alert(error.message || 'Export failed.');
+        }
+    };
+
+    const inputClass = "w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-white";
+
+    return (
+        <div>
+            <h3 className="text-xl font-semibold text-white mb-1">Audit Log</h3>
+            <p className="text-sm text-slate-400 mb-4">Every change made through the system, newest first. Entries cannot be edited or removed.</p>
+            <form onSubmit={e => { e.preventDefault(); fetchEvents(); }} className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 grid grid-cols-1 sm:grid-cols-6 gap-4 items-end mb-4">
+                <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Search</label>
+                    <input type="text" value={filters.q} onChange={e => setFilters({ ...filters, q: e.target.value })} placeholder="Action, account, number..." className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Actor</label>
+                    <input type="text" value={filters.actorId} onChange={e => setFilters({ ...filters, actorId: e.target.value })} placeholder="Login ID" className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">From</label>
+                    <input type="date" value={filters.from} onChange={e => setFilters({ ...filters, from: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">To</label>
+                    <input type="date" value={filters.to} onChange={e => setFilters({ ...filters, to: e.target.value })} className={inputClass} />
+                </div>
+                <div className="flex gap-2">
+                    <button type="submit" className="flex-1 bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2.5 px-4 rounded-md transition-colors">Search</button>
+                    <button type="button" onClick={handleExport} className="bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-2.5 px-3 rounded-md transition-colors">CSV</button>
+                </div>
+            </form>
+            <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700">
+                <div className="overflow-x-auto mobile-scroll-x">
+                    <table className="w-full text-left min-w-[900px] text-sm">
+                        <thead className="bg-slate-800/50">
+                            <tr className="text-xs text-slate-400 uppercase tracking-wider">
+                                <th className="p-3">Time</th>
+                                <th className="p-3">Actor</th>
+                                <th className="p-3">Action</th>
+                                <th className="p-3">Target</th>
+                                <th className="p-3">Changes</th>
+                                <th className="p-3">IP</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {isLoading ? (
+                                <tr><td colSpan={6} className="p-6 text-center text-slate-500">Loading audit log...</td></tr>
+                            ) : events.length === 0 ? (
+                                <tr><td colSpan={6} className="p-6 text-center text-slate-500">No matching events.</td></tr>
+                            ) : events.map(event => (
+                                <tr key={event.id} className="align-top">
+                                    <td className="p-3 font-mono text-slate-300 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</td>
+                                    <td className="p-3 text-white">{event.actorId || '—'} {event.actorRole && <span className="text-xs text-slate-500">({event.actorRole})</span>}</td>
+                                    <td className="p-3 font-mono text-cyan-300">{event.action}</td>
+                                    <td className="p-3 text-slate-300">{event.targetType ? `${event.targetType} ${event.targetId || ''}` : '—'}</td>
+                                    <td className="p-3 text-xs text-slate-400 font-mono break-all">
+                                        {describeAuditChange(event).map((line, i) => <div key={i}>{line}</div>)}
+                                    </td>
+                                    <td className="p-3 font-mono text-slate-500">{event.ip || '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const AdminAccountsView: React.FC<{ currentAdminId: string }> = ({ currentAdminId }) => {
+    const [admins, setAdmins] = useState<AdminSummary[]>([]);
+    const [makerChecker, setMakerChecker] = useState(false);
+    const [formState, setFormState] = useState({ id: '', name: '', password: '', permissions: [] as AdminPermission[] });
+    const [isSaving, setIsSaving] = useState(false);
+    const { fetchWithAuth } = useAuth();
+    const allPermissions = Object.keys(ADMIN_PERMISSION_LABELS) as AdminPermission[];
+    const togglePermission = (list: AdminPermission[], permission: AdminPermission) =>
+        list.includes(permission) ? list.filter(p => p !== permission) : [...list, permission];
+
+    const fetchAdmins = async () => {
+        try {
+            const [adminsResponse, policyResponse] = await Promise.all([fetchWithAuth('/api/admin/admins'), fetchWithAuth('/api/admin/approval-policy')]);
+            if (!adminsResponse.ok || !policyResponse.ok) throw new Error('Failed to fetch');
+            setAdmins(await adminsResponse.json());
+            setMakerChecker((await policyResponse.json()).makerChecker);
+        } catch (error) {
+            console.error('Failed to fetch admin accounts:', error);
+        }
+    };
+    useEffect(() => {
+        fetchAdmins();
+    }, []);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const response = await fetchWithAuth('/api/admin/admins', { method: 'POST', body: JSON.stringify(formState) });
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Failed to add admin.'); }
+            setFormState({ id: '', name: '', password: '', permissions: [] });
+            await fetchAdmins();
+        } catch (error: any) {
+            alert(error.message || 'Failed to add admin.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const savePermissions = async (target: AdminSummary, permissions: AdminPermission[]) => {
+        try {
+            const response = await fetchWithAuth(`/api/admin/admins/${target.id}/permissions`, { method: 'PUT', body: JSON.stringify({ permissions }) });
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Failed to update permissions.'); }
+            await fetchAdmins();
+        } catch (error: any) {
+            alert(error.message || 'Failed to update permissions.');
+        }
+    };
+
+    const toggleMakerChecker = async () => {
+        try {
+            const response = await fetchWithAuth('/api/admin/approval-policy', { method: 'PUT', body: JSON.stringify({ makerChecker: !makerChecker }) });
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Failed to update approval policy.'); }
+            setMakerChecker((await response.json()).makerChecker);
+        } catch (error: any) {
+            alert(error.message || 'Failed to update approval policy.');
+        }
+    };
+
+    const inputClass = "w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-white";
+
+    return (
+        <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700 max-w-4xl mx-auto mt-8">
+            <h3 className="text-xl font-bold text-white uppercase tracking-widest mb-4 border-b border-slate-700 pb-2">Admin Accounts</h3>
+            <label className="flex items-start gap-3 mb-6 cursor-pointer">
+                <input type="checkbox" checked={makerChecker} onChange={toggleMakerChecker} className="mt-1 h-4 w-4 accent-cyan-500" />
+                <span>
+                    <span className="block text-white font-semibold">Two-person approval</span>
+                    <span className="block text-sm text-slate-400">A declared result must be confirmed by a second admin before payouts can be approved, manually or automatically.</span>
+                </span>
+            </label>
+            <ul className="divide-y divide-slate-800 mb-6">
+                {admins.map(a => {
+                    const isSelf = a.id.toLowerCase() === currentAdminId.toLowerCase();
+                    return (
+                        <li key={a.id} className="py-3 text-sm">
+                            <div className="flex justify-between items-center">
+                                <span className="text-white">{a.name} <span className="font-mono text-slate-400">({a.id})</span></span>
+                                <span className="flex gap-2">
+                                    {a.isPrimary && <span className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-cyan-500/20 text-cyan-300">Primary</span>}
+                                    {isSelf && <span className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-slate-500/20 text-slate-300">You</span>}
+                                    {a.permissions.length === 0 && <span className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-amber-500/20 text-amber-300">View only</span>}
+                                </span>
+                            </div>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+                                {allPermissions.map(permission => (
+                                    <label key={permission} className="flex items-center gap-1.5 text-xs text-slate-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={a.permissions.includes(permission)}
+                                            disabled={a.isPrimary || isSelf}
+                                            onChange={() => savePermissions(a, togglePermission(a.permissions, permission))}
+                                            className="accent-cyan-500"
+                                        />
+                                        {ADMIN_PERMISSION_LABELS[permission]}
+                                    </label>
+                                ))}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+            <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Login ID</label>
+                    <input type="text" value={formState.id} onChange={e => setFormState({ ...formState, id: e.target.value })} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Name</label>
+                    <input type="text" value={formState.name} onChange={e => setFormState({ ...formState, name: e.target.value })} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Password</label>
+                    <input type="password" value={formState.password} onChange={e => setFormState({ ...formState, password: e.target.value })} className={inputClass} required />
+                </div>
+                <button type="submit" disabled={isSaving} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2.5 px-4 rounded-md transition-colors disabled:bg-slate-600 disabled:cursor-wait">
+                    {isSaving ? 'Saving...' : 'Add Admin'}
+                </button>
+                <div className="sm:col-span-4 flex flex-wrap gap-x-4 gap-y-1">
+                    {allPermissions.map(permission => (
+                        <label key={permission} className="flex items-center gap-1.5 text-xs text-slate-300">
+                            <input type="checkbox" checked={formState.permissions.includes(permission)} onChange={() => setFormState({ ...formState, permissions: togglePermission(formState.permissions, permission) })} className="accent-cyan-500" />
+                            {ADMIN_PERMISSION_LABELS[permission]}
+                        </label>
+                    ))}
+                </div>
+            </form>
+        </div>
+    );
+};
+
 const DealerTransactionForm: React.FC<{
     dealers: Dealer[];
     onTransaction: (dealerId: string, amount: number) => void;
@@ -589,7 +890,78 @@ const DealerTransactionForm: React.FC<{
     );
 };
 
-const DashboardView: React.FC<{ summary: FinancialSummary | null; admin: Admin }> = ({ summary, admin }) => {
+const ResettleForm: React.FC<{
+    game: Game;
+    onResettle: (gameId: string, newWinningNumber: string, reason: string) => Promise<void>;
+    onCancel: () => void;
+}> = ({ game, onResettle, onCancel }) => {
+    const { fetchWithAuth } = useAuth();
+    const singleDigit = isSingleDigitGame(game);
+    const [number, setNumber] = useState('');
+    const [reason, setReason] = useState('');
+    const [history, setHistory] = useState<Resettlement[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        fetchWithAuth(`/api/admin/games/${game.id}/resettlements`)
+            .then(res => res.ok ? res.json() : [])
+            .then(setHistory)
+            .catch(() => setHistory([]));
+    }, [game.id, fetchWithAuth]);
+
+    const inputClass = "w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-red-500 focus:outline-none text-white";
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (number.length !== (singleDigit ? 1 : 2)) {
+            alert(`Please enter a valid ${singleDigit ? '1-digit' : '2-digit'} number.`);
+            return;
+        }
+        if (!reason.trim()) {
+            alert('Please enter a reason for the correction.');
+            return;
+        }
+        if (!window.confirm(`Reverse all ${game.name} payouts for ${game.winningNumber} and pay out again using ${number}? Reversed prizes are clawed back even if wallets go negative. With two-person confirmation on, ${number} is paid only after a second admin confirms it.`)) return;
+        setIsSubmitting(true);
+        try {
+            await onResettle(game.id, number, reason.trim());
+        } catch (e: any) {
+            alert(e.message || 'Re-settlement failed.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4 text-slate-200">
+            <p className="text-sm text-slate-400">Current result: <span className="font-bold text-emerald-400">{game.winningNumber}</span>{game.kind === 'open-half' && ' (only the open digit is corrected here)'}</p>
+            <div>
+                <label htmlFor="resettle-number" className="block text-sm font-medium text-slate-400 mb-1">Corrected Number</label>
+                <input id="resettle-number" type="text" maxLength={singleDigit ? 1 : 2} value={number} onChange={(e) => setNumber(e.target.value.replace(/\D/g, ''))} placeholder={singleDigit ? '0' : '00'} className={`${inputClass} text-center text-xl font-bold`} required />
+            </div>
+            <div>
+                <label htmlFor="resettle-reason" className="block text-sm font-medium text-slate-400 mb-1">Reason</label>
+                <textarea id="resettle-reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} placeholder="e.g. Result mis-typed at declaration" className={inputClass} required />
+            </div>
+            {history.length > 0 && (
+                <div className="bg-slate-900/50 rounded-md border border-slate-700 p-3 space-y-1 max-h-40 overflow-y-auto">
+                    <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Previous Corrections</p>
+                    {history.map(h => (
+                        <div key={h.id} className="text-xs text-slate-300">
+                            <span className="font-mono">{new Date(h.timestamp).toLocaleString()}</span> — {h.previousNumber} → {h.newNumber} by <span className="text-cyan-400">{h.actorId}</span>: {h.reason}
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="flex justify-end space-x-3 pt-4">
+                <button type="button" onClick={onCancel} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-md transition-colors">Cancel</button>
+                <button type="submit" disabled={isSubmitting} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50">{isSubmitting ? 'Re-settling...' : 'Re-settle'}</button>
+            </div>
+        </form>
+    );
+};
+
+const DashboardView: React.FC<{ summary: FinancialSummary | null; treasury: Treasury | null }> = ({ summary, treasury }) => {
     if (!summary) {
         return <div className="text-center p-8 text-slate-400">Loading financial summary...</div>;
     }
@@ -597,7 +969,7 @@ const DashboardView: React.FC<{ summary: FinancialSummary | null; admin: Admin }
     const SummaryCard: React.FC<{ title: string; value: number; color: string }> = ({ title, value, color }) => (
         <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700">
             <p className="text-sm text-slate-400 uppercase tracking-wider">{title}</p>
-            <p className={`text-3xl font-bold font-mono ${color}`}>{value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+            <p className={`text-3xl font-bold font-mono ${color}`}>{formatRupees(value)}</p>
         </div>
     );
 
@@ -605,7 +977,7 @@ const DashboardView: React.FC<{ summary: FinancialSummary | null; admin: Admin }
         <div>
             <h3 className="text-xl font-semibold text-white mb-4">Financial Dashboard</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-                <SummaryCard title="System Wallet" value={admin.wallet} color="text-cyan-400" />
+                <SummaryCard title="House Treasury" value={treasury?.wallet || 0} color="text-cyan-400" />
                 <SummaryCard title="Total Bets Placed" value={summary.totals.totalStake} color="text-white" />
                 <SummaryCard title="Total Prize Payouts" value={summary.totals.totalPayouts} color="text-amber-400" />
                 <SummaryCard title="Net System Profit" value={summary.totals.netProfit} color={summary.totals.netProfit >= 0 ? "text-green-400" : "text-red-400"} />
@@ -628,23 +1000,23 @@ const DashboardView: React.FC<{ summary: FinancialSummary | null; admin: Admin }
                         <tbody className="divide-y divide-slate-800">
                             {summary.games.map(game => (
                                 <tr key={game.gameName} className="hover:bg-cyan-500/10 transition-colors">
-                                    <td className="p-4 font-medium text-white">{game.gameName} <span className="text-xs text-slate-400">({game.winningNumber})</span></td>
-                                    <td className="p-4 text-right font-mono text-white">{game.totalStake.toFixed(2)}</td>
-                                    <td className="p-4 text-right font-mono text-amber-400">{game.totalPayouts.toFixed(2)}</td>
-                                    <td className="p-4 text-right font-mono text-emerald-400">{game.totalDealerProfit.toFixed(2)}</td>
-                                    <td className="p-4 text-right font-mono text-sky-400">{game.totalCommissions.toFixed(2)}</td>
-                                    <td className={`p-4 text-right font-mono font-bold ${game.netProfit >= 0 ? "text-green-400" : "text-red-400"}`}>{game.netProfit.toFixed(2)}</td>
+                                    <td className="p-4 font-medium text-white">{game.gameName} <span className="text-xs text-slate-400">({game.winningNumber || 'pending'} · {game.cycleDate})</span></td>
+                                    <td className="p-4 text-right font-mono text-white">{formatRupees(game.totalStake)}</td>
+                                    <td className="p-4 text-right font-mono text-amber-400">{formatRupees(game.totalPayouts)}</td>
+                                    <td className="p-4 text-right font-mono text-emerald-400">{formatRupees(game.totalDealerProfit)}</td>
+                                    <td className="p-4 text-right font-mono text-sky-400">{formatRupees(game.totalCommissions)}</td>
+                                    <td className={`p-4 text-right font-mono font-bold ${game.netProfit >= 0 ? "text-green-400" : "text-red-400"}`}>{formatRupees(game.netProfit)}</td>
                                 </tr>
                             ))}
                         </tbody>
                         <tfoot className="bg-slate-800/50 border-t-2 border-slate-600">
                             <tr className="font-bold text-white">
                                 <td className="p-4 text-sm uppercase">Grand Total</td>
-                                <td className="p-4 text-right font-mono">{summary.totals.totalStake.toFixed(2)}</td>
-                                <td className="p-4 text-right font-mono text-amber-300">{summary.totals.totalPayouts.toFixed(2)}</td>
-                                <td className="p-4 text-right font-mono text-emerald-300">{summary.totals.totalDealerProfit.toFixed(2)}</td>
-                                <td className="p-4 text-right font-mono text-sky-300">{summary.totals.totalCommissions.toFixed(2)}</td>
-                                <td className={`p-4 text-right font-mono ${summary.totals.netProfit >= 0 ? "text-green-300" : "text-red-300"}`}>{summary.totals.netProfit.toFixed(2)}</td>
+                                <td className="p-4 text-right font-mono">{formatRupees(summary.totals.totalStake)}</td>
+                                <td className="p-4 text-right font-mono text-amber-300">{formatRupees(summary.totals.totalPayouts)}</td>
+                                <td className="p-4 text-right font-mono text-emerald-300">{formatRupees(summary.totals.totalDealerProfit)}</td>
+                                <td className="p-4 text-right font-mono text-sky-300">{formatRupees(summary.totals.totalCommissions)}</td>
+                                <td className={`p-4 text-right font-mono ${summary.totals.netProfit >= 0 ? "text-green-300" : "text-red-300"}`}>{formatRupees(summary.totals.netProfit)}</td>
                             </tr>
                         </tfoot>
                     </table>
@@ -654,14 +1026,362 @@ const DashboardView: React.FC<{ summary: FinancialSummary | null; admin: Admin }
     );
 };
 
-const NumberLimitsView: React.FC = () => {
+const GAME_KIND_LABELS: Record<GameKind, string> = {
+    'standard': 'Standard (2-digit)',
+    'open-half': 'Open half (1st digit)',
+    'close-half': 'Close half (2nd digit)',
+};
+
+const GameForm: React.FC<{
+    game?: Game;
+    allGames: Game[];
+    onSave: (game: Partial<Game>) => Promise<void>;
+    onCancel: () => void;
+}> = ({ game, allGames, onSave, onCancel }) => {
+    const [formData, setFormData] = useState({
+        name: game?.name || '',
+        drawTime: game?.drawTime || '',
+        openTime: game?.openTime || '16:00',
+        closeBufferMinutes: game?.closeBufferMinutes ?? 0,
+        autoApproveMinutes: game?.autoApproveMinutes ? String(game.autoApproveMinutes) : '',
+        kind: (game?.kind || 'standard') as GameKind,
+        parentGameId: game?.parentGameId || '',
+        logo: game?.logo || '',
+    });
+    const [isSaving, setIsSaving] = useState(false);
+    const parentOptions = allGames.filter(g => g.kind === 'open-half' && !g.isArchived && g.id !== game?.id);
+
+    const inputClass = "w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-white";
+
+    const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        if (file.size > 200 * 1024) {
+            alert('Logo must be under 200 KB.');
+            e.target.value = '';
+            return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => setFormData(prev => ({ ...prev, logo: String(reader.result || '') }));
+        reader.readAsDataURL(file);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSave({
+                ...formData,
+                parentGameId: formData.kind === 'close-half' ? formData.parentGameId : null,
+                autoApproveMinutes: formData.autoApproveMinutes ? parseInt(formData.autoApproveMinutes, 10) : null,
+            });
+        } catch (error: any) {
+            alert(error.message || 'Failed to save game.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4 text-slate-200">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Game Name</label>
+                    <input type="text" value={formData.name} onChange={e => setFormData({ ...formData, name: e.target.value })} maxLength={30} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Draw Time (PKT)</label>
+                    <input type="time" value={formData.drawTime} onChange={e => setFormData({ ...formData, drawTime: e.target.value })} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Market Opens (PKT)</label>
+                    <input type="time" value={formData.openTime} onChange={e => setFormData({ ...formData, openTime: e.target.value })} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Close Before Draw (minutes)</label>
+                    <input type="number" min={0} max={180} step={1} value={formData.closeBufferMinutes} onChange={e => setFormData({ ...formData, closeBufferMinutes: parseInt(e.target.value, 10) || 0 })} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Auto-approve Payouts After (minutes)</label>
+                    <input type="number" min={1} max={1440} step={1} value={formData.autoApproveMinutes} onChange={e => setFormData({ ...formData, autoApproveMinutes: e.target.value })} placeholder="Off — approve manually" className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Result Type</label>
+                    <select value={formData.kind} onChange={e => setFormData({ ...formData, kind: e.target.value as GameKind })} className={inputClass}>
+                        {(Object.keys(GAME_KIND_LABELS) as GameKind[]).map(k => <option key={k} value={k}>{GAME_KIND_LABELS[k]}</option>)}
+                    </select>
+                </div>
+                {formData.kind === 'close-half' && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Completes Game</label>
+                        <select value={formData.parentGameId} onChange={e => setFormData({ ...formData, parentGameId: e.target.value })} className={inputClass} required>
+                            <option value="" disabled>-- Choose open-half game --</option>
+                            {parentOptions.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                        </select>
+                    </div>
+                )}
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Logo</label>
+                <div className="flex items-center gap-4">
+                    {formData.logo ? <img src={formData.logo} alt="Logo preview" className="w-14 h-14 rounded-full border-2 border-slate-600" /> : <div className="w-14 h-14 rounded-full border-2 border-dashed border-slate-600" />}
+                    <input type="file" accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml" onChange={handleLogoChange} className="text-sm text-slate-400 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-slate-700 file:text-white hover:file:bg-slate-600" />
+                    {formData.logo && <button type="button" onClick={() => setFormData({ ...formData, logo: '' })} className="text-xs text-red-400 hover:text-red-300">Remove</button>}
+                </div>
+            </div>
+            <div className="flex justify-end space-x-3 pt-4">
+                <button type="button" onClick={onCancel} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-md transition-colors">Cancel</button>
+                <button type="submit" disabled={isSaving} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50">{isSaving ? 'Saving...' : 'Save Game'}</button>
+            </div>
+        </form>
+    );
+};
+
+const MarketCalendarView: React.FC<{ allGames: Game[]; onChanged: () => Promise<void> }> = ({ allGames, onChanged }) => {
+    const [closures, setClosures] = useState<MarketClosure[]>([]);
+    const [formState, setFormState] = useState({ date: getMarketDate(new Date()), gameId: '', reason: '' });
+    const [isSaving, setIsSaving] = useState(false);
+    const { fetchWithAuth } = useAuth();
+    const today = getMarketDate(new Date());
+
+    const fetchClosures = async () => {
+        try {
+            const response = await fetchWithAuth('/api/admin/market-closures');
+            if (!response.ok) throw new Error('Failed to fetch');
+            setClosures(await response.json());
+        } catch (error) {
+            console.error('Failed to fetch holidays:', error);
+        }
+    };
+    useEffect(() => {
+        fetchClosures();
+    }, []);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const response = await fetchWithAuth('/api/admin/market-closures', { method: 'POST', body: JSON.stringify({ ...formState, gameId: formState.gameId || null }) });
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Failed to add holiday.'); }
+            setFormState(prev => ({ ...prev, reason: '' }));
+            await fetchClosures();
+            await onChanged();
+        } catch (error: any) {
+            alert(error.message || 'Failed to add holiday.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (closure: MarketClosure) => {
+        if (!window.confirm(`Remove the ${closure.date} holiday?`)) return;
+        try {
+            const response = await fetchWithAuth(`/api/admin/market-closures/${closure.id}`, { method: 'DELETE' });
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Failed to remove holiday.'); }
+            await fetchClosures();
+            await onChanged();
+        } catch (error: any) {
+            alert(error.message || 'Failed to remove holiday.');
+        }
+    };
+
+    const inputClass = "w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-white";
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-xl font-semibold text-white mb-1">Holiday Calendar</h3>
+            <p className="text-sm text-slate-400 mb-4">A holiday closes the market cycle that opens on that date (PKT). No bets are taken and the daily reset is skipped.</p>
+            <form onSubmit={handleAdd} className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 grid grid-cols-1 sm:grid-cols-4 gap-4 items-end mb-4">
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Date</label>
+                    <input type="date" value={formState.date} onChange={e => setFormState({ ...formState, date: e.target.value })} className={inputClass} required />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Game</label>
+                    <select value={formState.gameId} onChange={e => setFormState({ ...formState, gameId: e.target.value })} className={inputClass}>
+                        <option value="">All games</option>
+                        {allGames.filter(g => !g.isArchived).map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Reason</label>
+                    <input type="text" value={formState.reason} onChange={e => setFormState({ ...formState, reason: e.target.value })} placeholder="e.g. Eid ul Fitr" maxLength={60} className={inputClass} required />
+                </div>
+                <button type="submit" disabled={isSaving} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2.5 px-4 rounded-md transition-colors disabled:bg-slate-600 disabled:cursor-wait">
+                    {isSaving ? 'Saving...' : 'Add Holiday'}
+                </button>
+            </form>
+            <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700">
+                <div className="overflow-x-auto mobile-scroll-x">
+                    <table className="w-full text-left min-w-[600px]">
+                        <thead className="bg-slate-800/50">
+                            <tr>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Date</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Game</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Reason</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {closures.length === 0 ? (
+                                <tr><td colSpan={4} className="p-8 text-center text-slate-500">No holidays scheduled.</td></tr>
+                            ) : closures.map(closure => (
+                                <tr key={closure.id} className={`hover:bg-cyan-500/10 transition-colors ${closure.date < today ? 'opacity-50' : ''}`}>
+                                    <td className="p-4 font-mono text-white">{closure.date}</td>
+                                    <td className="p-4 text-slate-300">{closure.gameId ? (allGames.find(g => g.id === closure.gameId)?.name || closure.gameId) : 'All games'}</td>
+                                    <td className="p-4 text-slate-300">{closure.reason}</td>
+                                    <td className="p-4 text-right">
+                                        <button onClick={() => handleDelete(closure)} className="bg-red-500/20 hover:bg-red-500/40 text-red-300 font-semibold py-1 px-3 rounded-md text-sm transition-colors">Remove</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const AutoApproveCountdown: React.FC<{ at: string }> = ({ at }) => {
+    const [remaining, setRemaining] = useState(() => new Date(at).getTime() - Date.now());
+    useEffect(() => {
+        const update = () => setRemaining(new Date(at).getTime() - Date.now());
+        update();
+        const timer = setInterval(update, 1000);
+        return () => clearInterval(timer);
+    }, [at]);
+
+    if (remaining <= 0) return <span>Auto-approving...</span>;
+    const h = Math.floor(remaining / 3600000), m = Math.floor((remaining % 3600000) / 60000), s = Math.floor((remaining % 60000) / 1000);
+    return <span>Auto-approves in <span className="font-mono">{h > 0 ? `${h}:` : ''}{String(m).padStart(2, '0')}:{String(s).padStart(2, '0')}</span></span>;
+};
+
+const GamesManagementView: React.FC<{ onGamesChanged?: () => Promise<void> }> = ({ onGamesChanged }) => {
+    const [allGames, setAllGames] = useState<Game[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [editing, setEditing] = useState<{ game?: Game } | null>(null);
+    const { fetchWithAuth } = useAuth();
+
+    const fetchGames = async () => {
+        try {
+            const response = await fetchWithAuth('/api/admin/games');
+            if (!response.ok) throw new Error('Failed to fetch');
+            setAllGames(await response.json());
+        } catch (error) {
+            console.error('Failed to fetch games:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+    useEffect(() => {
+        fetchGames();
+    }, []);
+
+    const request = async (url: string, method: string, body?: any) => {
+        const response = await fetchWithAuth(url, { method, body: body ? JSON.stringify(body) : undefined });
+        if (!response.ok) { const e = await response.json().catch(() => ({})); throw new Error(e.message || 'Request failed'); }
+        await fetchGames();
+        if (onGamesChanged) await onGamesChanged();
+    };
+
+    const handleSave = async (data: Partial<Game>) => {
+        if (editing?.game) await request(`/api/admin/games/${editing.game.id}`, 'PUT', data);
+        else await request('/api/admin/games', 'POST', data);
+        setEditing(null);
+    };
+
+    const handleSuspendToggle = async (game: Game) => {
+        const action = game.isSuspended ? 'resume' : 'suspend';
+        if (!game.isSuspended && !window.confirm(`Suspend ${game.name} now? It stops taking bets until you resume it.`)) return;
+        try { await request(`/api/admin/games/${game.id}/${action}`, 'POST'); }
+        catch (error: any) { alert(error.message || `Failed to ${action} game.`); }
+    };
+
+    const handleArchiveToggle = async (game: Game) => {
+        const action = game.isArchived ? 'restore' : 'archive';
+        if (!game.isArchived && !window.confirm(`Retire ${game.name}? It will stop taking bets and disappear from the markets. History is kept.`)) return;
+        try { await request(`/api/admin/games/${game.id}/${action}`, 'POST'); }
+        catch (error: any) { alert(error.message || `Failed to ${action} game.`); }
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold text-white">Manage Games</h3>
+                <button onClick={() => setEditing({})} className="flex items-center bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md whitespace-nowrap transition-colors">
+                    {Icons.plus} Add Game
+                </button>
+            </div>
+            <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700">
+                <div className="overflow-x-auto mobile-scroll-x">
+                    <table className="w-full text-left min-w-[700px]">
+                        <thead className="bg-slate-800/50">
+                            <tr>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Game</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Schedule</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Result Type</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Status</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {isLoading ? (
+                                <tr><td colSpan={5} className="p-8 text-center text-slate-500">Loading games...</td></tr>
+                            ) : allGames.map(game => (
+                                <tr key={game.id} className={`hover:bg-cyan-500/10 transition-colors ${game.isArchived ? 'opacity-50' : ''}`}>
+                                    <td className="p-4">
+                                        <div className="flex items-center gap-3">
+                                            {game.logo ? <img src={game.logo} alt={game.name} className="w-8 h-8 rounded-full" /> : <div className="w-8 h-8 rounded-full bg-slate-700" />}
+                                            <span className="font-medium text-white">{game.name}</span>
+                                        </div>
+                                    </td>
+                                    <td className="p-4 font-mono text-sm text-slate-300">
+                                        {game.openTime || '16:00'} → {game.drawTime}
+                                        {!!game.closeBufferMinutes && <span className="block text-xs text-slate-500">closes {game.closeBufferMinutes} min early</span>}
+                                        {!!game.autoApproveMinutes && <span className="block text-xs text-slate-500">auto-approves after {game.autoApproveMinutes} min</span>}
+                                    </td>
+                                    <td className="p-4 text-sm text-slate-300">
+                                        {GAME_KIND_LABELS[game.kind]}
+                                        {game.kind === 'close-half' && <span className="text-xs text-slate-500"> → {allGames.find(g => g.id === game.parentGameId)?.name || 'unlinked'}</span>}
+                                    </td>
+                                    <td className="p-4">
+                                        <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${game.isArchived ? 'bg-slate-500/20 text-slate-400' : 'bg-green-500/20 text-green-400'}`}>{game.isArchived ? 'Retired' : 'Active'}</span>
+                                        {game.isSuspended && <span className="ml-1 px-2 py-1 rounded text-[10px] font-bold uppercase bg-orange-500/20 text-orange-400">Suspended</span>}
+                                        {game.isHoliday && <span className="ml-1 px-2 py-1 rounded text-[10px] font-bold uppercase bg-amber-500/20 text-amber-300" title={game.holidayReason || ''}>Holiday</span>}
+                                    </td>
+                                    <td className="p-4 text-right space-x-2 whitespace-nowrap">
+                                        <button onClick={() => setEditing({ game })} className="bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors">Edit</button>
+                                        {!game.isArchived && <button onClick={() => handleSuspendToggle(game)} className={`font-semibold py-1 px-3 rounded-md text-sm transition-colors ${game.isSuspended ? 'bg-emerald-500/20 hover:bg-emerald-500/40 text-emerald-300' : 'bg-orange-500/20 hover:bg-orange-500/40 text-orange-300'}`}>{game.isSuspended ? 'Resume' : 'Suspend'}</button>}
+                                        <button onClick={() => handleArchiveToggle(game)} className={`font-semibold py-1 px-3 rounded-md text-sm transition-colors ${game.isArchived ? 'bg-emerald-500/20 hover:bg-emerald-500/40 text-emerald-300' : 'bg-red-500/20 hover:bg-red-500/40 text-red-300'}`}>{game.isArchived ? 'Restore' : 'Retire'}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+            <MarketCalendarView allGames={allGames} onChanged={async () => { await fetchGames(); if (onGamesChanged) await onGamesChanged(); }} />
+            <Modal isOpen={!!editing} onClose={() => setEditing(null)} title={editing?.game ? `Edit ${editing.game.name}` : 'Add Game'} size="lg">
+                {editing && <GameForm game={editing.game} allGames={allGames} onSave={handleSave} onCancel={() => setEditing(null)} />}
+            </Modal>
+        </div>
+    );
+};
+
+const NumberLimitsView: React.FC<{ games: Game[]; dealers: Dealer[] }> = ({ games, dealers }) => {
     const [limits, setLimits] = useState<NumberLimit[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [formState, setFormState] = useState<Omit<NumberLimit, 'id'>>({
-        gameType: '2-digit',
-        numberValue: '',
+    const [formState, setFormState] = useState({
+        gameType: '2-digit' as NumberLimit['gameType'],
+        numberValues: '',
         limitAmount: 0,
+        gameId: '',
+        dealerId: '',
     });
+    const [filters, setFilters] = useState({ gameType: '', gameId: '', dealerId: '', number: '' });
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [bulkAmount, setBulkAmount] = useState('');
     const { fetchWithAuth } = useAuth();
 
     const fetchLimits = async () => {
@@ -671,6 +1391,7 @@ const NumberLimitsView: React.FC = () => {
             if (!response.ok) throw new Error('Failed to fetch');
             const data = await response.json();
             setLimits(data);
+            setSelectedIds(prev => prev.filter(id => data.some((l: NumberLimit) => l.id === id)));
         } catch (error) {
             console.error("Failed to fetch number limits:", error);
         } finally {
@@ -685,12 +1406,8 @@ const NumberLimitsView: React.FC = () => {
         const { name, value } = e.target;
 
         let processedValue = value;
-        if (name === 'numberValue') {
-            processedValue = value.replace(/\D/g, ''); // Digits only
-            const maxLength = formState.gameType === '2-digit' ? 2 : 1;
-            if (processedValue.length > maxLength) {
-                processedValue = processedValue.slice(0, maxLength);
-            }
+        if (name === 'numberValues') {
+            processedValue = value.replace(/[^\d,\s]/g, ''); // Digits, commas and spaces only
         }
 
         setFormState(prev => ({
@@ -699,27 +1416,42 @@ const NumberLimitsView: React.FC = () => {
         }));
     };
 
+    // "Special" filter values: '__none__' narrows to limits that are not scoped on that axis.
+    const filteredLimits = useMemo(() => limits.filter(l => {
+        if (filters.gameType && l.gameType !== filters.gameType) return false;
+        if (filters.gameId === '__none__' ? !!l.gameId : (filters.gameId && l.gameId !== filters.gameId)) return false;
+        if (filters.dealerId === '__none__' ? !!l.dealerId : (filters.dealerId && l.dealerId !== filters.dealerId)) return false;
+        if (filters.number && !l.numberValue.includes(filters.number)) return false;
+        return true;
+    }), [limits, filters]);
+
+    const postLimits = async (payload: Omit<NumberLimit, 'id'>[]) => {
+        const response = await fetchWithAuth('/api/admin/number-limits/bulk', {
+            method: 'POST',
+            body: JSON.stringify({ limits: payload })
+        });
+        if (!response.ok) { const e = await response.json().catch(() => ({})); throw new Error(e.message || 'Save failed'); }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        const { gameType, numberValue, limitAmount } = formState;
-        if (!numberValue.trim() || limitAmount <= 0) {
-            alert("Please enter a valid number and a limit amount greater than zero.");
+        const { gameType, numberValues, limitAmount, gameId, dealerId } = formState;
+        const numbers = [...new Set(numberValues.split(/[,\s]+/).filter(Boolean))];
+        if (numbers.length === 0 || limitAmount <= 0) {
+            alert("Please enter at least one number and a limit amount greater than zero.");
             return;
         }
 
-        const maxLength = formState.gameType === '2-digit' ? 2 : 1;
-        if (numberValue.length !== maxLength) {
-            alert(`Number must be ${maxLength} digit(s) long for this game type.`);
+        const maxLength = gameType === '2-digit' ? 2 : 1;
+        const invalid = numbers.filter(n => n.length !== maxLength);
+        if (invalid.length > 0) {
+            alert(`Number must be ${maxLength} digit(s) long for this game type: ${invalid.join(', ')}`);
             return;
         }
 
         try {
-            const response = await fetchWithAuth('/api/admin/number-limits', {
-                method: 'POST',
-                body: JSON.stringify(formState)
-            });
-            if (!response.ok) { const e = await response.json().catch(() => ({})); throw new Error(e.message || 'Save failed'); }
-            setFormState({ gameType: '2-digit', numberValue: '', limitAmount: 0 });
+            await postLimits(numbers.map(numberValue => ({ gameType, numberValue, limitAmount, gameId: gameId || null, dealerId: dealerId || null })));
+            setFormState(prev => ({ ...prev, numberValues: '', limitAmount: 0 }));
             await fetchLimits();
         } catch (error: any) {
             alert(error.message || "Failed to save limit.");
@@ -738,18 +1470,49 @@ const NumberLimitsView: React.FC = () => {
         }
     };
 
+    const handleBulkUpdate = async () => {
+        const amount = parseFloat(bulkAmount);
+        if (!(amount > 0)) { alert("Enter a limit amount greater than zero."); return; }
+        try {
+            await postLimits(limits.filter(l => selectedIds.includes(l.id)).map(l => ({ gameType: l.gameType, numberValue: l.numberValue, gameId: l.gameId, dealerId: l.dealerId, limitAmount: amount })));
+            setBulkAmount('');
+            await fetchLimits();
+        } catch (error: any) {
+            alert(error.message || "Failed to update limits.");
+        }
+    };
+
+    const handleBulkDelete = async () => {
+        if (!window.confirm(`Delete ${selectedIds.length} selected limit(s)?`)) return;
+        try {
+            const response = await fetchWithAuth('/api/admin/number-limits/bulk-delete', { method: 'POST', body: JSON.stringify({ ids: selectedIds }) });
+            if (!response.ok) { const e = await response.json().catch(() => ({})); throw new Error(e.message || 'Delete failed'); }
+            setSelectedIds([]);
+            await fetchLimits();
+        } catch (error: any) {
+            alert(error.message || "Failed to delete limits.");
+        }
+    };
+
+    const allFilteredSelected = filteredLimits.length > 0 && filteredLimits.every(l => selectedIds.includes(l.id));
+    const toggleSelectAll = () => setSelectedIds(allFilteredSelected ? selectedIds.filter(id => !filteredLimits.some(l => l.id === id)) : [...new Set([...selectedIds, ...filteredLimits.map(l => l.id)])]);
+    const toggleSelected = (id: number) => setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
     const inputClass = "bg-slate-800 p-2 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none w-full";
     const gameTypeLabels: Record<NumberLimit['gameType'], string> = {
         '1-open': '1 Digit Open',
         '1-close': '1 Digit Close',
         '2-digit': '2 Digit',
     };
+    const gameName = (id?: string | null) => id ? (games.find(g => g.id === id)?.name || id) : 'All Games';
+    const dealerName = (id?: string | null) => id ? (dealers.find(d => d.id === id)?.name || id) : 'All Dealers';
 
     return (
         <div>
             <h3 className="text-xl font-semibold text-white mb-4">Manage Number Betting Limits</h3>
+            <p className="text-xs text-slate-500 mb-4">The most specific limit wins: Game + Dealer, then Game, then Dealer, then the global limit. Dealer-scoped limits cap that dealer's network; all others cap the whole game.</p>
             <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 mb-6">
-                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
                     <div>
                         <label className="block text-sm font-medium text-slate-400 mb-1">Game Type</label>
                         <select name="gameType" value={formState.gameType} onChange={handleInputChange} className={inputClass}>
@@ -759,8 +1522,22 @@ const NumberLimitsView: React.FC = () => {
                         </select>
                     </div>
                     <div>
-                        <label className="block text-sm font-medium text-slate-400 mb-1">Number</label>
-                        <input type="text" name="numberValue" value={formState.numberValue} onChange={handleInputChange} className={inputClass} placeholder={formState.gameType === '2-digit' ? 'e.g., 42' : 'e.g., 7'} />
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Number(s)</label>
+                        <input type="text" name="numberValues" value={formState.numberValues} onChange={handleInputChange} className={inputClass} placeholder={formState.gameType === '2-digit' ? 'e.g., 42, 43, 44' : 'e.g., 7, 8'} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Game</label>
+                        <select name="gameId" value={formState.gameId} onChange={handleInputChange} className={inputClass}>
+                            <option value="">All Games</option>
+                            {games.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Dealer</label>
+                        <select name="dealerId" value={formState.dealerId} onChange={handleInputChange} className={inputClass}>
+                            <option value="">All Dealers</option>
+                            {dealers.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                        </select>
                     </div>
                     <div>
                         <label className="block text-sm font-medium text-slate-400 mb-1">Max Stake (PKR)</label>
@@ -769,27 +1546,59 @@ const NumberLimitsView: React.FC = () => {
                     <button type="submit" className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md transition-colors h-fit">Set Limit</button>
                 </form>
             </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                <select value={filters.gameType} onChange={e => setFilters({ ...filters, gameType: e.target.value })} className={inputClass}>
+                    <option value="">All Types</option>
+                    {Object.entries(gameTypeLabels).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <select value={filters.gameId} onChange={e => setFilters({ ...filters, gameId: e.target.value })} className={inputClass}>
+                    <option value="">Any Game Scope</option>
+                    <option value="__none__">All Games (unscoped)</option>
+                    {games.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                </select>
+                <select value={filters.dealerId} onChange={e => setFilters({ ...filters, dealerId: e.target.value })} className={inputClass}>
+                    <option value="">Any Dealer Scope</option>
+                    <option value="__none__">All Dealers (unscoped)</option>
+                    {dealers.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+                <input type="text" value={filters.number} onChange={e => setFilters({ ...filters, number: e.target.value.replace(/\D/g, '') })} className={inputClass} placeholder="Search number" />
+            </div>
+            {selectedIds.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 bg-cyan-500/10 border border-cyan-500/30 p-3 rounded-lg mb-4">
+                    <span className="text-sm text-cyan-300 font-bold">{selectedIds.length} selected</span>
+                    <input type="number" value={bulkAmount} onChange={e => setBulkAmount(e.target.value)} className="bg-slate-800 p-2 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none w-40" placeholder="New limit (PKR)" />
+                    <button onClick={handleBulkUpdate} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md text-sm transition-colors">Apply Amount</button>
+                    <button onClick={handleBulkDelete} className="bg-red-500/20 hover:bg-red-500/40 text-red-300 font-semibold py-2 px-4 rounded-md text-sm transition-colors">Delete Selected</button>
+                    <button onClick={() => setSelectedIds([])} className="text-slate-400 hover:text-white text-sm">Clear</button>
+                </div>
+            )}
             <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700">
                 <div className="overflow-x-auto mobile-scroll-x">
-                    <table className="w-full text-left min-w-[600px]">
+                    <table className="w-full text-left min-w-[800px]">
                         <thead className="bg-slate-800/50">
                             <tr>
+                                <th className="p-4 w-10"><input type="checkbox" checked={allFilteredSelected} onChange={toggleSelectAll} className="h-4 w-4 rounded bg-slate-900 border-slate-600 text-cyan-600 focus:ring-cyan-500" /></th>
                                 <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Game Type</th>
                                 <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Number</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Game</th>
+                                <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Dealer</th>
                                 <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Limit Amount (PKR)</th>
                                 <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Actions</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-800">
                             {isLoading ? (
-                                <tr><td colSpan={4} className="p-8 text-center text-slate-400">Loading limits...</td></tr>
-                            ) : limits.length === 0 ? (
-                                <tr><td colSpan={4} className="p-8 text-center text-slate-500">No limits set.</td></tr>
+                                <tr><td colSpan={7} className="p-8 text-center text-slate-400">Loading limits...</td></tr>
+                            ) : filteredLimits.length === 0 ? (
+                                <tr><td colSpan={7} className="p-8 text-center text-slate-500">No limits set.</td></tr>
                             ) : (
-                                limits.map(limit => (
+                                filteredLimits.map(limit => (
                                     <tr key={limit.id} className="hover:bg-cyan-500/10 transition-colors">
+                                        <td className="p-4"><input type="checkbox" checked={selectedIds.includes(limit.id)} onChange={() => toggleSelected(limit.id)} className="h-4 w-4 rounded bg-slate-900 border-slate-600 text-cyan-600 focus:ring-cyan-500" /></td>
                                         <td className="p-4 text-white">{gameTypeLabels[limit.gameType]}</td>
                                         <td className="p-4 font-mono text-cyan-300 text-lg">{limit.numberValue}</td>
+                                        <td className={`p-4 text-sm ${limit.gameId ? 'text-white' : 'text-slate-500'}`}>{gameName(limit.gameId)}</td>
+                                        <td className={`p-4 text-sm ${limit.dealerId ? 'text-white' : 'text-slate-500'}`}>{dealerName(limit.dealerId)}</td>
                                         <td className="p-4 font-mono text-white">{limit.limitAmount.toLocaleString()}</td>
                                         <td className="p-4">
                                             <button onClick={() => handleDelete(limit.id)} className="bg-red-500/20 hover:bg-red-500/40 text-red-300 font-semibold py-1 px-3 rounded-md text-sm transition-colors">Delete</button>
@@ -822,7 +1631,11 @@ const LiveBookingView: React.FC<{ games: Game[], users: User[], dealers: Dealer[
     const bookingData = useMemo(() => {
         if (!selectedGameId) return null;
 
-        const liveBets = bets.filter(b => b.gameId === selectedGameId);
+        // Bets are kept across cycles, so only the ones in the game's running cycle are live.
+        const game = games.find(g => g.id === selectedGameId);
+        if (!game) return null;
+        const cycleDate = getCycleDate(game, new Date());
+        const liveBets = bets.filter(b => b.gameId === selectedGameId && b.status !== 'void' && b.cycleDate === cycleDate);
         if (liveBets.length === 0) return null;
 
         const dealerMap = new Map<string, number>();
@@ -864,7 +1677,7 @@ const LiveBookingView: React.FC<{ games: Game[], users: User[], dealers: Dealer[
             typeData,
             userData
         } as BookingData;
-    }, [selectedGameId, bets, users, dealers]);
+    }, [selectedGameId, games, bets, users, dealers]);
 
     const BreakdownCard: React.FC<{ title: string; data: { name: string; amount: number }[] | { type: string; amount: number }[]; total: number; children?: React.ReactNode }> = ({ title, data, total }) => (
         <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 h-full flex flex-col">
@@ -878,7 +1691,7 @@ const LiveBookingView: React.FC<{ games: Game[], users: User[], dealers: Dealer[
                         <div key={index} className="text-sm">
                             <div className="flex justify-between items-center mb-1">
                                 <span className="text-slate-300 truncate pr-2">{name}</span>
-                                <span className="font-mono text-white font-semibold">{amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+                                <span className="font-mono text-white font-semibold">{formatRupees(amount)}</span>
                             </div>
                             <div className="w-full bg-slate-700 rounded-full h-1.5">
                                 <div className="bg-cyan-500 h-1.5 rounded-full" style={{ width: `${percentage}%` }}></div>
@@ -921,7 +1734,7 @@ const LiveBookingView: React.FC<{ games: Game[], users: User[], dealers: Dealer[
                         </div>
                         <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700">
                             <p className="text-sm text-slate-400 uppercase tracking-wider">Total Stake</p>
-                            <p className="text-4xl font-bold font-mono text-cyan-400">{bookingData.totalStake.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                            <p className="text-4xl font-bold font-mono text-cyan-400">{formatRupees(bookingData.totalStake)}</p>
                         </div>
                     </div>
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -1106,7 +1919,7 @@ const NumberSummaryView: React.FC<{
             <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 mb-6">
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
                     <div>
-                        <label className="block text-sm font-medium text-slate-400 mb-1">Date</label>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Cycle Date</label>
                         <input type="date" name="date" value={filters.date} onChange={handleFilterChange} className={`${inputClass} font-sans`} />
                     </div>
                     <div>
@@ -1162,6 +1975,7 @@ const NumberSummaryView: React.FC<{
 
 interface AdminPanelProps {
     admin: Admin;
+    treasury: Treasury | null;
     dealers: Dealer[];
     onSaveDealer: (dealer: Dealer, originalId?: string) => Promise<void>;
     onUpdateAdmin: (admin: Admin) => Promise<void>;
@@ -1172,6 +1986,9 @@ interface AdminPanelProps {
     declareWinner: (gameId: string, winningNumber: string) => void;
     updateWinner: (gameId: string, newWinningNumber: string) => void;
     approvePayouts: (gameId: string) => void;
+    confirmResult: (gameId: string) => Promise<void>;
+    setApprovalHold: (gameId: string, held: boolean) => Promise<void>;
+    resettleGame: (gameId: string, newWinningNumber: string, reason: string) => Promise<void>;
     topUpDealerWallet: (dealerId: string, amount: number) => void;
     withdrawFromDealerWallet: (dealerId: string, amount: number) => void;
     toggleAccountRestriction: (accountId: string, accountType: 'user' | 'dealer') => void;
@@ -1181,10 +1998,11 @@ interface AdminPanelProps {
         betGroups: any[];
     }) => Promise<void>;
     updateGameDrawTime: (gameId: string, newDrawTime: string) => Promise<void>;
+    voidBet: (betId: string) => Promise<void>;
     onRefreshData?: () => Promise<void>;
 }
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, onUpdateAdmin, users, setUsers, games, bets, declareWinner, updateWinner, approvePayouts, topUpDealerWallet, withdrawFromDealerWallet, toggleAccountRestriction, onPlaceAdminBets, updateGameDrawTime, onRefreshData }) => {
+const AdminPanel: React.FC<AdminPanelProps> = ({ admin, treasury, dealers, onSaveDealer, onUpdateAdmin, users, setUsers, games, bets, declareWinner, updateWinner, approvePayouts, confirmResult, setApprovalHold, resettleGame, topUpDealerWallet, withdrawFromDealerWallet, toggleAccountRestriction, onPlaceAdminBets, updateGameDrawTime, voidBet, onRefreshData }) => {
     const [activeTab, setActiveTab] = useState('dashboard');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [selectedDealer, setSelectedDealer] = useState<Dealer | undefined>(undefined);
@@ -1193,16 +2011,24 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
 
     // Ledger state by ID/Type to ensure stability across polling updates
     const [viewingLedgerId, setViewingLedgerId] = useState<string | null>(null);
-    const [viewingLedgerType, setViewingLedgerType] = useState<'dealer' | 'admin' | 'user' | null>(null);
+    const [viewingLedgerType, setViewingLedgerType] = useState<'dealer' | 'treasury' | 'user' | null>(null);
 
     const [betSearchQuery, setBetSearchQuery] = useState('');
+    const [betSearchGameId, setBetSearchGameId] = useState('');
     const [isTopUpModalOpen, setIsTopUpModalOpen] = useState(false);
     const [isWithdrawalModalOpen, setIsWithdrawalModalOpen] = useState(false);
     const [summaryData, setSummaryData] = useState<FinancialSummary | null>(null);
     const [editingGame, setEditingGame] = useState<{ id: string, number: string } | null>(null);
+    const [resettlingGame, setResettlingGame] = useState<Game | null>(null);
     const [editingDrawTime, setEditingDrawTime] = useState<{ gameId: string; time: string } | null>(null);
     const { fetchWithAuth } = useAuth();
     const [isRefreshingManual, setIsRefreshingManual] = useState(false);
+    const [ledgerCheck, setLedgerCheck] = useState<LedgerVerification | null>(null);
+    const [isVerifyingLedger, setIsVerifyingLedger] = useState(false);
+    const [walletCheck, setWalletCheck] = useState<WalletReconciliation | null>(null);
+    const [isReconciling, setIsReconciling] = useState(false);
+    // The server enforces permissions; this only hides what the admin could not do anyway.
+    const can = (permission: AdminPermission) => !admin.permissions || admin.permissions.includes(permission);
 
     // User management modal state
     const [isUserEditModalOpen, setIsUserEditModalOpen] = useState(false);
@@ -1217,14 +2043,40 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
     const [userSortKey, setUserSortKey] = useState<SortKey>('name');
     const [userSortDirection, setUserSortDirection] = useState<SortDirection>('asc');
 
+    const handleVerifyLedger = async () => {
+        setIsVerifyingLedger(true);
+        try {
+            const response = await fetchWithAuth('/api/admin/ledger/verify');
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Ledger verification failed.'); }
+            setLedgerCheck(await response.json());
+        } catch (error: any) {
+            alert(error.message || 'Ledger verification failed.');
+        } finally {
+            setIsVerifyingLedger(false);
+        }
+    };
+
+    const handleReconcileWallets = async () => {
+        setIsReconciling(true);
+        try {
+            const response = await fetchWithAuth('/api/admin/ledger/reconcile');
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Wallet reconciliation failed.'); }
+            setWalletCheck(await response.json());
+        } catch (error: any) {
+            alert(error.message || 'Wallet reconciliation failed.');
+        } finally {
+            setIsReconciling(false);
+        }
+    };
+
     // Derived account for the ledger modal - ensures the ledger is always fresh from props
     const activeLedgerAccount = useMemo(() => {
         if (!viewingLedgerId || !viewingLedgerType) return null;
-        if (viewingLedgerType === 'admin') return admin;
+        if (viewingLedgerType === 'treasury') return treasury;
         if (viewingLedgerType === 'dealer') return dealers.find(d => d.id === viewingLedgerId);
         if (viewingLedgerType === 'user') return users.find(u => u.id === viewingLedgerId);
         return null;
-    }, [viewingLedgerId, viewingLedgerType, admin, dealers, users]);
+    }, [viewingLedgerId, viewingLedgerType, treasury, dealers, users]);
 
     useEffect(() => {
         const fetchSummary = async () => {
@@ -1267,34 +2119,34 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
         }
     };
 
-    const handleDeclareWinner = async (gameId: string, gameName: string) => {
-        const num = winningNumbers[gameId];
-        const isSingleDigitGame = gameName === 'AK' || gameName === 'AKC';
-        const isValid = num && !isNaN(parseInt(num)) && (isSingleDigitGame ? num.length === 1 : num.length === 2);
+    const handleDeclareWinner = async (game: Game) => {
+        const num = winningNumbers[game.id];
+        const singleDigit = isSingleDigitGame(game);
+        const isValid = num && !isNaN(parseInt(num)) && (singleDigit ? num.length === 1 : num.length === 2);
 
         if (isValid) {
             try {
-                await declareWinner(gameId, num);
-                setWinningNumbers(prev => ({ ...prev, [gameId]: '' }));
+                await declareWinner(game.id, num);
+                setWinningNumbers(prev => ({ ...prev, [game.id]: '' }));
             } catch (e: any) { alert(e.message || 'Failed to declare winner.'); }
         } else {
-            alert(`Please enter a valid ${isSingleDigitGame ? '1-digit' : '2-digit'} number.`);
+            alert(`Please enter a valid ${singleDigit ? '1-digit' : '2-digit'} number.`);
         }
     };
 
-    const handleUpdateWinner = async (gameId: string, gameName: string) => {
-        const isSingleDigitGame = gameName === 'AK' || gameName === 'AKC';
+    const handleUpdateWinner = async (game: Game) => {
+        const singleDigit = isSingleDigitGame(game);
         if (editingGame) {
             const num = editingGame.number;
-            const isValid = num && !isNaN(parseInt(num)) && (isSingleDigitGame ? num.length === 1 : num.length === 2);
+            const isValid = num && !isNaN(parseInt(num)) && (singleDigit ? num.length === 1 : num.length === 2);
 
             if (isValid) {
                 try {
-                    await updateWinner(gameId, num);
+                    await updateWinner(game.id, num);
                     setEditingGame(null);
                 } catch (e: any) { alert(e.message || 'Failed to update result.'); }
             } else {
-                alert(`Please enter a valid ${isSingleDigitGame ? '1-digit' : '2-digit'} number.`);
+                alert(`Please enter a valid ${singleDigit ? '1-digit' : '2-digit'} number.`);
             }
         }
     };
@@ -1364,19 +2216,28 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
         });
     }, [users, dealers, userSearchQuery, userSortKey, userSortDirection]);
 
-    const flatBets = useMemo(() => bets.flatMap(bet => {
-        const user = users.find(u => u.id === bet.userId);
-        const dealer = dealers.find(d => d.id === bet.dealerId);
+    // Searched on the server a page at a time; the bets list from App only triggers a refresh when it changes.
+    const betSearchNumber = betSearchQuery.trim();
+    const betSearch = usePagedList('/api/bets', { number: betSearchNumber, gameId: betSearchGameId }, toBet, { enabled: !!betSearchNumber, refreshKey: getBetsRefreshKey(bets) });
+    const filteredBets = useMemo(() => betSearch.items.map(bet => {
         const game = games.find(g => g.id === bet.gameId);
-        if (!user || !dealer || !game) return [];
-        return bet.numbers.map(num => ({
-            betId: bet.id, userName: user.name, dealerName: dealer.name, gameName: game.name,
-            subGameType: bet.subGameType, number: num, amount: bet.amountPerNumber, timestamp: bet.timestamp,
-        }));
-    }), [bets, users, dealers, games]);
-
-    const filteredBets = useMemo(() => !betSearchQuery.trim() ? [] : flatBets.filter(bet => bet.number === betSearchQuery.trim()), [flatBets, betSearchQuery]);
-    const searchSummary = useMemo(() => !betSearchQuery.trim() || filteredBets.length === 0 ? null : { number: betSearchQuery.trim(), count: filteredBets.length, totalStake: filteredBets.reduce((s, b) => s + b.amount, 0) }, [filteredBets, betSearchQuery]);
+        return {
+            betId: bet.id, numberCount: bet.numbers.length,
+            userName: users.find(u => u.id === bet.userId)?.name || bet.userId,
+            dealerName: dealers.find(d => d.id === bet.dealerId)?.name || bet.dealerId,
+            gameName: game?.name || bet.gameId,
+            number: betSearchNumber, amount: bet.amountPerNumber, timestamp: bet.timestamp,
+            isVoid: bet.status === 'void', canVoid: bet.status !== 'void' && !!game && !game.payoutsApproved,
+        };
+    }), [betSearch.items, betSearchNumber, users, dealers, games]);
+    const searchSummary = betSearchNumber && betSearch.summary && betSearch.summary.count > 0 ? { number: betSearchNumber, ...betSearch.summary } : null;
+
+    const handleVoidBet = async (betId: string, numberCount: number) => {
+        const ticketNote = numberCount > 1 ? ` This voids the whole ticket (${numberCount} numbers).` : '';
+        if (!window.confirm(`Void this bet and refund the stake?${ticketNote}`)) return;
+        try { await voidBet(betId); }
+        catch (error: any) { alert(error.message || 'Void failed.'); }
+    };
 
     const handleAdminUserUpdate = async (userData: User) => {
         try {
@@ -1404,12 +2265,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
         { id: 'dealers', label: 'Dealers', icon: Icons.userGroup },
         { id: 'users', label: 'Users', icon: Icons.clipboardList },
         { id: 'games', label: 'Games', icon: Icons.gamepad },
+        { id: 'manageGames', label: 'Manage Games', icon: Icons.gamepad, permission: 'games' as AdminPermission },
         { id: 'winners', label: 'Winners', icon: Icons.star },
         { id: 'liveBooking', label: 'Live Booking', icon: Icons.sparkles },
         { id: 'numberSummary', label: 'Number Summary', icon: Icons.chartBar },
-        { id: 'limits', label: 'Limits', icon: Icons.clipboardList },
+        { id: 'limits', label: 'Limits', icon: Icons.clipboardList, permission: 'limits' as AdminPermission },
         { id: 'bettingSheet', label: 'Bet Search', icon: Icons.search },
         { id: 'history', label: 'Ledgers', icon: Icons.bookOpen },
+        { id: 'audit', label: 'Audit', icon: Icons.clipboardList },
         { id: 'settings', label: 'Settings', icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.533 1.533 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.533 1.533 0 01.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" /></svg> },
     ];
 
@@ -1417,19 +2280,27 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
         <div className="p-4 md:p-6 lg:p-8 max-w-7xl mx-auto">
             <h2 className="text-3xl font-bold text-red-400 mb-6 uppercase tracking-widest">Admin Console</h2>
             <div className="bg-slate-800/50 p-1.5 rounded-lg flex items-center space-x-2 mb-6 self-start flex-wrap border border-slate-700">
-                {tabs.map(tab => (
+                {tabs.filter(tab => !tab.permission || can(tab.permission)).map(tab => (
                     <button key={tab.id} onClick={() => setActiveTab(tab.id)} className={`flex items-center space-x-2 py-2 px-4 text-sm font-semibold rounded-md transition-all duration-300 ${activeTab === tab.id ? 'bg-slate-700 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-700/50 hover:text-white'}`}>
                         {tab.icon} <span>{tab.label}</span>
                     </button>
                 ))}
             </div>
 
-            {activeTab === 'dashboard' && <DashboardView summary={summaryData} admin={admin} />}
+            {activeTab === 'dashboard' && <DashboardView summary={summaryData} treasury={treasury} />}
             {activeTab === 'winners' && <WinnersView bets={bets} games={games} users={users} dealers={dealers} />}
             {activeTab === 'liveBooking' && <LiveBookingView games={games} users={users} dealers={dealers} bets={bets} />}
             {activeTab === 'numberSummary' && <NumberSummaryView games={games} dealers={dealers} users={users} onPlaceAdminBets={onPlaceAdminBets} />}
-            {activeTab === 'limits' && <NumberLimitsView />}
-            {activeTab === 'settings' && <SystemSettingsForm admin={admin} onSave={onUpdateAdmin} />}
+            {activeTab === 'limits' && <NumberLimitsView games={games} dealers={dealers} />}
+            {activeTab === 'manageGames' && <GamesManagementView onGamesChanged={onRefreshData} />}
+            {activeTab === 'audit' && <AuditLogView />}
+            {activeTab === 'settings' && (
+                <>
+                    <SystemSettingsForm admin={admin} onSave={onUpdateAdmin} />
+                    {can('admins') && <AdminAccountsView currentAdminId={admin.id} />}
+                    <JobStatusView games={games} />
+                </>
+            )}
 
             {activeTab === 'dealers' && (
                 <div>
@@ -1440,9 +2311,11 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                 <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-slate-400">{Icons.search}</span>
                                 <input type="text" placeholder="Search by name, area, ID..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="bg-slate-800 p-2 pl-10 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none w-full" />
                             </div>
-                            <button onClick={() => { setSelectedDealer(undefined); setIsModalOpen(true); }} className="flex items-center justify-center bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md whitespace-nowrap transition-colors">
-                                {Icons.plus} Create Dealer
-                            </button>
+                            {can('accounts') && (
+                                <button onClick={() => { setSelectedDealer(undefined); setIsModalOpen(true); }} className="flex items-center justify-center bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md whitespace-nowrap transition-colors">
+                                    {Icons.plus} Create Dealer
+                                </button>
+                            )}
                         </div>
                     </div>
                     <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700">
@@ -1466,19 +2339,21 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                                 <span className="font-semibold text-white">{dealer.name}</span>
                                             </div></td>
                                             <td className="p-4 text-slate-400"><div className="font-mono">{dealer.id}</div><div className="text-xs">{dealer.area}</div></td>
-                                            <td className="p-4 font-mono text-white">{dealer.wallet.toLocaleString()}</td>
+                                            <td className="p-4 font-mono text-white">{formatRupees(dealer.wallet)}</td>
                                             <td className="p-4 text-center font-bold text-white">{dealer.commissionRate}%</td>
                                             <td className="p-4"><span className={`px-2.5 py-1 text-xs font-semibold rounded-full ${dealer.isRestricted ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>{dealer.isRestricted ? 'Restricted' : 'Active'}</span></td>
                                             <td className="p-4">
                                                 <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
-                                                    <button onClick={() => { setSelectedDealer(dealer); setIsModalOpen(true); }} className="bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors text-center">Edit</button>
+                                                    {can('accounts') && <button onClick={() => { setSelectedDealer(dealer); setIsModalOpen(true); }} className="bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors text-center">Edit</button>}
                                                     <button onClick={() => { setViewingLedgerId(dealer.id); setViewingLedgerType('dealer'); }} className="bg-slate-700 hover:bg-slate-600 text-emerald-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors text-center">Ledger</button>
-                                                    <button onClick={async () => {
-                                                        try { await toggleAccountRestriction(dealer.id, 'dealer'); }
-                                                        catch (e: any) { alert(e.message || 'Toggle failed.'); }
-                                                    }} className={`font-semibold py-1 px-3 rounded-md text-sm transition-colors text-center ${dealer.isRestricted ? 'bg-green-500/20 hover:bg-green-500/40 text-green-300' : 'bg-red-500/20 hover:bg-red-500/40 text-red-300'}`}>
-                                                        {dealer.isRestricted ? 'Unrestrict' : 'Restrict'}
-                                                    </button>
+                                                    {can('accounts') && (
+                                                        <button onClick={async () => {
+                                                            try { await toggleAccountRestriction(dealer.id, 'dealer'); }
+                                                            catch (e: any) { alert(e.message || 'Toggle failed.'); }
+                                                        }} className={`font-semibold py-1 px-3 rounded-md text-sm transition-colors text-center ${dealer.isRestricted ? 'bg-green-500/20 hover:bg-green-500/40 text-green-300' : 'bg-red-500/20 hover:bg-red-500/40 text-red-300'}`}>
+                                                            {dealer.isRestricted ? 'Unrestrict' : 'Restrict'}
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </td>
                                         </tr>
@@ -1511,10 +2386,11 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                         {games.map(game => {
-                            const isAK = game.name === 'AK';
-                            const isAKC = game.name === 'AKC';
-                            const isSingleDigitGame = isAK || isAKC;
-                            const isAKPending = isAK && game.winningNumber && game.winningNumber.endsWith('_');
+                            const isOpenHalf = game.kind === 'open-half';
+                            const singleDigit = isSingleDigitGame(game);
+                            const isOpenHalfPending = isOpenHalf && game.winningNumber && game.winningNumber.endsWith('_');
+                            const closeHalfGame = isOpenHalf ? games.find(g => g.kind === 'close-half' && g.parentGameId === game.id) : undefined;
+                            const parentGame = game.kind === 'close-half' ? games.find(g => g.id === game.parentGameId) : undefined;
 
                             return (
                                 <div key={game.id} className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
@@ -1526,43 +2402,83 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                                     <p className="text-sm text-slate-400">Winner Declared</p>
                                                     <p className="text-2xl font-bold text-emerald-400">{game.winningNumber}</p>
                                                 </div>
-                                                <div className="flex items-center gap-2 bg-slate-700/50 text-emerald-400 font-semibold py-1 px-3 rounded-md text-sm">
-                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
-                                                    <span>Approved</span>
+                                                <div className="flex flex-col items-end gap-2">
+                                                    <div className="flex items-center gap-2 bg-slate-700/50 text-emerald-400 font-semibold py-1 px-3 rounded-md text-sm">
+                                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
+                                                        <span>Approved</span>
+                                                    </div>
+                                                    {can('results') && can('payouts') && <button onClick={() => setResettlingGame(game)} className="bg-slate-700 hover:bg-slate-600 text-red-400 font-semibold py-1 px-3 rounded-md text-xs transition-colors">Re-settle</button>}
                                                 </div>
                                             </div>
                                         ) : editingGame?.id === game.id ? (
                                             <div className="my-2">
                                                 <p className="text-sm text-slate-400">Editing Number...</p>
                                                 <div className="flex items-center space-x-2 mt-1">
-                                                    <input type="text" maxLength={isSingleDigitGame ? 1 : 2} value={editingGame.number} onChange={(e) => setEditingGame({ ...editingGame, number: e.target.value.replace(/\D/g, '') })} className="w-20 bg-slate-900 p-2 text-center text-xl font-bold rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500" placeholder={isSingleDigitGame ? '0' : '00'} />
-                                                    <button onClick={() => handleUpdateWinner(game.id, game.name)} className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 px-3 rounded-md text-sm transition-colors">Save</button>
+                                                    <input type="text" maxLength={singleDigit ? 1 : 2} value={editingGame.number} onChange={(e) => setEditingGame({ ...editingGame, number: e.target.value.replace(/\D/g, '') })} className="w-20 bg-slate-900 p-2 text-center text-xl font-bold rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500" placeholder={singleDigit ? '0' : '00'} />
+                                                    <button onClick={() => handleUpdateWinner(game)} className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 px-3 rounded-md text-sm transition-colors">Save</button>
                                                     <button onClick={() => setEditingGame(null)} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-3 rounded-md text-sm transition-colors">Cancel</button>
                                                 </div>
                                             </div>
                                         ) : (
                                             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between my-2 gap-2">
-                                                {isAKPending ? (
+                                                {isOpenHalfPending ? (
                                                     <>
                                                         <div>
                                                             <p className="text-sm text-slate-400">Open Declared</p>
                                                             <p className="text-2xl font-bold text-amber-400">{game.winningNumber}</p>
                                                         </div>
                                                         <div className="text-right">
-                                                            <p className="text-sm text-slate-400">Waiting for AKC</p>
+                                                            <p className="text-sm text-slate-400">Waiting for {closeHalfGame?.name || 'close result'}</p>
                                                         </div>
                                                     </>
                                                 ) : (
                                                     <div>
                                                         <p className="text-sm text-slate-400">Pending Approval</p>
                                                         <p className="text-2xl font-bold text-amber-400">{game.winningNumber}</p>
+                                                        {game.declaredBy && (
+                                                            <p className="text-xs text-slate-400 mt-1">
+                                                                Declared by {game.declaredBy}
+                                                                {game.confirmedBy ? ` · confirmed by ${game.confirmedBy}` : game.awaitingConfirmation ? ' · awaiting confirmation by another admin' : ''}
+                                                            </p>
+                                                        )}
+                                                        {!!game.autoApproveMinutes && (
+                                                            <div className="flex items-center gap-2 mt-1 text-xs text-slate-400">
+                                                                {game.approvalHeld ? <span className="text-orange-400 font-semibold">Auto-approval held</span> : game.autoApproveAt && <AutoApproveCountdown at={game.autoApproveAt} />}
+                                                                {can('payouts') && (
+                                                                    <button
+                                                                        onClick={async () => {
+                                                                            try { await setApprovalHold(game.id, !game.approvalHeld); }
+                                                                            catch (e: any) { alert(e.message || 'Failed to update auto-approval.'); }
+                                                                        }}
+                                                                        className="bg-slate-700 hover:bg-slate-600 text-orange-300 font-semibold py-0.5 px-2 rounded"
+                                                                    >
+                                                                        {game.approvalHeld ? 'Release' : 'Hold'}
+                                                                    </button>
+                                                                )}
+                                                            </div>
+                                                        )}
                                                     </div>
                                                 )}
                                                 <div className='flex flex-col sm:flex-row gap-2 self-end sm:self-center'>
-                                                    <button onClick={() => setEditingGame({ id: game.id, number: isAK ? game.winningNumber!.slice(0, 1) : game.winningNumber! })} className="bg-slate-700 hover:bg-slate-600 text-amber-400 font-semibold py-2 px-3 rounded-md text-sm transition-colors">
+                                                    {can('results') && <button onClick={() => setEditingGame({ id: game.id, number: isOpenHalf ? game.winningNumber!.slice(0, 1) : game.winningNumber! })} className="bg-slate-700 hover:bg-slate-600 text-amber-400 font-semibold py-2 px-3 rounded-md text-sm transition-colors">
                                                         Edit
-                                                    </button>
-                                                    {!isAKPending && (
+                                                    </button>}
+                                                    {!isOpenHalfPending && game.awaitingConfirmation && can('results') && (
+                                                        <button
+                                                            onClick={async () => {
+                                                                if (window.confirm(`Confirm ${game.winningNumber} as the result for ${game.name}?`)) {
+                                                                    try { await confirmResult(game.id); }
+                                                                    catch (e: any) { alert(e.message || 'Failed to confirm result.'); }
+                                                                }
+                                                            }}
+                                                            disabled={game.declaredBy?.toLowerCase() === admin.id.toLowerCase()}
+                                                            title={game.declaredBy?.toLowerCase() === admin.id.toLowerCase() ? 'Another admin must confirm your declaration.' : undefined}
+                                                            className="bg-sky-600 hover:bg-sky-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap disabled:bg-slate-600 disabled:cursor-not-allowed"
+                                                        >
+                                                            Confirm Result
+                                                        </button>
+                                                    )}
+                                                    {!isOpenHalfPending && !game.awaitingConfirmation && can('payouts') && (
                                                         <button
                                                             onClick={async () => {
                                                                 if (window.confirm(`Are you sure you want to approve payouts for ${game.name}? This action cannot be undone.`)) {
@@ -1578,10 +2494,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                                 </div>
                                             </div>
                                         )
+                                    ) : !can('results') ? (
+                                        <p className="text-sm text-slate-500 my-2">Awaiting result</p>
                                     ) : (
                                         <div className="flex items-center space-x-2 my-2">
-                                            <input type="text" maxLength={isSingleDigitGame ? 1 : 2} value={winningNumbers[game.id] || ''} onChange={(e) => setWinningNumbers({ ...winningNumbers, [game.id]: e.target.value.replace(/\D/g, '') })} className="w-20 bg-slate-800 p-2 text-center text-xl font-bold rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500" placeholder={isSingleDigitGame ? '0' : '00'} />
-                                            <button onClick={() => handleDeclareWinner(game.id, game.name)} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md transition-colors">Declare</button>
+                                            <input type="text" maxLength={singleDigit ? 1 : 2} value={winningNumbers[game.id] || ''} onChange={(e) => setWinningNumbers({ ...winningNumbers, [game.id]: e.target.value.replace(/\D/g, '') })} className="w-20 bg-slate-800 p-2 text-center text-xl font-bold rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500" placeholder={singleDigit ? '0' : '00'} />
+                                            <button onClick={() => handleDeclareWinner(game)} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md transition-colors">Declare</button>
                                         </div>
                                     )}
                                     <div className="text-sm text-slate-400 flex items-center gap-2">
@@ -1615,19 +2533,19 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                         ) : (
                                             <>
                                                 <span className="font-semibold text-slate-300">{game.drawTime}</span>
-                                                <button
+                                                {can('games') && <button
                                                     onClick={() => setEditingDrawTime({ gameId: game.id, time: game.drawTime })}
                                                     className="bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-1 px-2 rounded-md text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                                     disabled={!!game.winningNumber}
                                                 >
                                                     Edit
-                                                </button>
+                                                </button>}
                                             </>
                                         )}
                                     </div>
-                                    {(isAK || isAKC) && (
+                                    {(closeHalfGame || parentGame) && (
                                         <p className="text-xs text-slate-500 mt-2">
-                                            Note: The AKC result provides the 'close' digit for the AK game.
+                                            Note: The {closeHalfGame ? closeHalfGame.name : game.name} result provides the 'close' digit for the {parentGame ? parentGame.name : game.name} game.
                                         </p>
                                     )}
                                 </div>
@@ -1646,6 +2564,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                             <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-slate-400">{Icons.search}</span>
                             <input id="bet-search" type="text" placeholder="e.g. 42" value={betSearchQuery} onChange={(e) => setBetSearchQuery(e.target.value)} className="bg-slate-800 p-2 pl-10 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none w-full" />
                         </div>
+                        <select value={betSearchGameId} onChange={(e) => setBetSearchGameId(e.target.value)} className="bg-slate-800 p-2 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-white">
+                            <option value="">All games</option>
+                            {games.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                        </select>
                     </div>
 
                     {searchSummary && (
@@ -1667,27 +2589,37 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                         <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">Game</th>
                                         <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Number</th>
                                         <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Stake (PKR)</th>
+                                        <th className="p-4 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Actions</th>
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-slate-800">
                                     {filteredBets.length > 0 ? (
                                         filteredBets.map(bet => (
-                                            <tr key={`${bet.betId}-${bet.number}`} className="hover:bg-cyan-500/10 transition-colors">
+                                            <tr key={`${bet.betId}-${bet.number}`} className={`hover:bg-cyan-500/10 transition-colors ${bet.isVoid ? 'opacity-50 line-through' : ''}`}>
                                                 <td className="p-4 text-sm text-slate-400 whitespace-nowrap">{bet.timestamp.toLocaleString()}</td>
                                                 <td className="p-4 font-semibold text-white">{bet.userName}</td>
                                                 <td className="p-4 text-slate-400">{bet.dealerName}</td>
                                                 <td className="p-4 text-slate-300">{bet.gameName}</td>
                                                 <td className="p-4 text-right font-mono text-cyan-300 text-lg">{bet.number}</td>
                                                 <td className="p-4 text-right font-mono text-white">{bet.amount.toLocaleString()}</td>
+                                                <td className="p-4 text-right">
+                                                    {bet.isVoid ? <span className="text-xs font-bold text-slate-400 uppercase">Void</span>
+                                                        : bet.canVoid && can('bets') && <button onClick={() => handleVoidBet(bet.betId, bet.numberCount)} className="bg-red-500/20 hover:bg-red-500/40 text-red-300 font-semibold py-1 px-3 rounded-md text-sm transition-colors">Void</button>}
+                                                </td>
                                             </tr>
                                         ))
                                     ) : (
-                                        <tr><td colSpan={6} className="text-center p-8 text-slate-500">{betSearchQuery ? 'No bets found.' : 'Enter a number to search.'}</td></tr>
+                                        <tr><td colSpan={7} className="text-center p-8 text-slate-500">{!betSearchNumber ? 'Enter a number to search.' : betSearch.isLoading ? 'Searching...' : betSearch.error || 'No bets found.'}</td></tr>
                                     )}
                                 </tbody>
                             </table>
                         </div>
                     </div>
+                    {betSearch.hasMore && (
+                        <button onClick={betSearch.loadMore} disabled={betSearch.isLoading} className="mt-4 w-full bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-2 rounded-md transition-colors disabled:opacity-50">
+                            {betSearch.isLoading ? 'Loading...' : 'Load more bets'}
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -1726,16 +2658,18 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                                 </div>
                                             </div></td>
                                             <td className="p-4 text-slate-400">{dealers.find(d => d.id === user.dealerId)?.name || 'N/A'}</td>
-                                            <td className="p-4 font-mono text-white">{user.wallet.toLocaleString()}</td>
+                                            <td className="p-4 font-mono text-white">{formatRupees(user.wallet)}</td>
                                             <td className="p-4 text-center font-bold text-white">{user.commissionRate}%</td>
                                             <td className="p-4"><span className={`px-2.5 py-1 text-xs font-semibold rounded-full ${user.isRestricted ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>{user.isRestricted ? 'Restricted' : 'Active'}</span></td>
                                             <td className="p-4 text-center">
                                                 <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-center gap-2">
-                                                    <button onClick={() => { setSelectedUserToEdit(user); setIsUserEditModalOpen(true); }} className="bg-slate-700 hover:bg-slate-600 text-sky-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors w-full sm:w-auto text-center">Edit</button>
+                                                    {can('accounts') && <button onClick={() => { setSelectedUserToEdit(user); setIsUserEditModalOpen(true); }} className="bg-slate-700 hover:bg-slate-600 text-sky-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors w-full sm:w-auto text-center">Edit</button>}
                                                     <button onClick={() => { setViewingLedgerId(user.id); setViewingLedgerType('user'); }} className="bg-slate-700 hover:bg-slate-600 text-emerald-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors w-full sm:w-auto text-center">Ledger</button>
-                                                    <button onClick={() => toggleAccountRestriction(user.id, 'user')} className={`font-semibold py-1 px-3 rounded-md text-sm transition-colors w-full sm:w-auto text-center ${user.isRestricted ? 'bg-green-500/20 hover:bg-green-500/40 text-green-300' : 'bg-red-500/20 hover:bg-red-500/40 text-red-300'}`}>
-                                                        {user.isRestricted ? 'Unrestrict' : 'Restrict'}
-                                                    </button>
+                                                    {can('accounts') && (
+                                                        <button onClick={() => toggleAccountRestriction(user.id, 'user')} className={`font-semibold py-1 px-3 rounded-md text-sm transition-colors w-full sm:w-auto text-center ${user.isRestricted ? 'bg-green-500/20 hover:bg-green-500/40 text-green-300' : 'bg-red-500/20 hover:bg-red-500/40 text-red-300'}`}>
+                                                            {user.isRestricted ? 'Unrestrict' : 'Restrict'}
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </td>
                                         </tr>
@@ -1752,17 +2686,78 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                     <div className="flex flex-col md:flex-row justify-between items-center mb-4 gap-4">
                         <h3 className="text-xl font-semibold text-white">Dealer Transaction Ledgers</h3>
                         <div className="flex flex-wrap gap-2">
-                            <button onClick={() => setIsTopUpModalOpen(true)} className="flex items-center bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap">
-                                {Icons.plus} Wallet Top-Up
+                            {can('funding') && (
+                                <>
+                                    <button onClick={() => setIsTopUpModalOpen(true)} className="flex items-center bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap">
+                                        {Icons.plus} Wallet Top-Up
+                                    </button>
+                                    <button onClick={() => setIsWithdrawalModalOpen(true)} className="flex items-center bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap">
+                                        {Icons.minus} Withdraw Funds
+                                    </button>
+                                </>
+                            )}
+                            <button onClick={() => { if (treasury) { setViewingLedgerId(treasury.id); setViewingLedgerType('treasury'); } }} className="flex items-center bg-sky-600 hover:bg-sky-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap">
+                                {Icons.eye} View Treasury Ledger
                             </button>
-                            <button onClick={() => setIsWithdrawalModalOpen(true)} className="flex items-center bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap">
-                                {Icons.minus} Withdraw Funds
+                            <button onClick={handleVerifyLedger} disabled={isVerifyingLedger} className="flex items-center bg-slate-700 hover:bg-slate-600 text-cyan-400 font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap disabled:opacity-50">
+                                {Icons.checkCircle} {isVerifyingLedger ? 'Verifying...' : 'Verify Ledger'}
                             </button>
-                            <button onClick={() => { setViewingLedgerId(admin.id); setViewingLedgerType('admin'); }} className="flex items-center bg-sky-600 hover:bg-sky-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap">
-                                {Icons.eye} View Admin Ledger
+                            <button onClick={handleReconcileWallets} disabled={isReconciling} className="flex items-center bg-slate-700 hover:bg-slate-600 text-cyan-400 font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap disabled:opacity-50">
+                                {Icons.wallet} {isReconciling ? 'Reconciling...' : 'Reconcile Wallets'}
                             </button>
                         </div>
                     </div>
+                    {ledgerCheck && (
+                        <div className={`mb-4 p-4 rounded-lg border ${ledgerCheck.ok ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
+                            <div className="flex justify-between items-start gap-4">
+                                <p className={`font-semibold ${ledgerCheck.ok ? 'text-emerald-300' : 'text-red-300'}`}>
+                                    {ledgerCheck.ok
+                                        ? `Ledger intact: ${ledgerCheck.entries.toLocaleString()} entries across ${ledgerCheck.accounts} accounts verified.`
+                                        : ledgerCheck.breaks.length > 0
+                                            ? `Ledger chain broken at ${ledgerCheck.breaks.length} point(s) across ${ledgerCheck.entries.toLocaleString()} entries.`
+                                            : `${ledgerCheck.unbalancedJournals.length} journal posting(s) do not balance.`}
+                                </p>
+                                <button onClick={() => setLedgerCheck(null)} className="text-slate-400 hover:text-white text-sm">Dismiss</button>
+                            </div>
+                            <p className="text-xs text-slate-500 mt-1">Checked {new Date(ledgerCheck.checkedAt).toLocaleString()}</p>
+                            {!ledgerCheck.ok && (
+                                <ul className="mt-3 space-y-1 text-sm font-mono text-slate-300 max-h-60 overflow-y-auto">
+                                    {ledgerCheck.breaks.map(b => (
+                                        <li key={`${b.entryId}-${b.reason}`}>
+                                            <span className="text-red-400">{b.reason === 'link' ? 'missing/reordered before' : 'edited'}</span> · {b.accountType} {b.accountId} · {new Date(b.timestamp).toLocaleString()} · {b.description}
+                                        </li>
+                                    ))}
+                                    {ledgerCheck.unbalancedJournals.map(j => (
+                                        <li key={j.journalId}>
+                                            <span className="text-red-400">unbalanced journal</span> · {j.journalId} · {j.legs} leg(s) · off by {formatRupees(j.net)}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    {walletCheck && (
+                        <div className={`mb-4 p-4 rounded-lg border ${walletCheck.ok ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
+                            <div className="flex justify-between items-start gap-4">
+                                <p className={`font-semibold ${walletCheck.ok ? 'text-emerald-300' : 'text-red-300'}`}>
+                                    {walletCheck.ok
+                                        ? `Wallets reconciled: all ${walletCheck.accounts} accounts match their last ledger balance.`
+                                        : `${walletCheck.mismatches.length} of ${walletCheck.accounts} wallets differ from their last ledger balance.`}
+                                </p>
+                                <button onClick={() => setWalletCheck(null)} className="text-slate-400 hover:text-white text-sm">Dismiss</button>
+                            </div>
+                            <p className="text-xs text-slate-500 mt-1">Checked {new Date(walletCheck.checkedAt).toLocaleString()}</p>
+                            {!walletCheck.ok && (
+                                <ul className="mt-3 space-y-1 text-sm font-mono text-slate-300 max-h-60 overflow-y-auto">
+                                    {walletCheck.mismatches.map(m => (
+                                        <li key={`${m.accountType}-${m.accountId}`}>
+                                            {m.accountType} {m.accountId} ({m.name}) · wallet {formatRupees(m.wallet)} · ledger {formatRupees(m.ledgerBalance)} · <span className="text-red-400">off by {formatRupees(m.difference)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
                     <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700">
                         <div className="overflow-x-auto mobile-scroll-x">
                             <table className="w-full text-left min-w-[600px]">
@@ -1782,7 +2777,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                                                 <span className="font-semibold text-white">{dealer.name}</span>
                                             </div></td>
                                             <td className="p-4 text-slate-400">{dealer.area}</td>
-                                            <td className="p-4 font-mono text-white text-right">{dealer.wallet.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                            <td className="p-4 font-mono text-white text-right">{formatRupees(dealer.wallet)}</td>
                                             <td className="p-4 text-center"><button onClick={() => { setViewingLedgerId(dealer.id); setViewingLedgerType('dealer'); }} className="bg-slate-700 hover:bg-slate-600 text-cyan-400 font-semibold py-1 px-3 rounded-md text-sm transition-colors">View Ledger</button></td>
                                         </tr>
                                     ))}
@@ -1812,6 +2807,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
                 )}
             </Modal>
 
+            {resettlingGame && (
+                <Modal isOpen={!!resettlingGame} onClose={() => setResettlingGame(null)} title={`Re-settle ${resettlingGame.name}`} themeColor="red">
+                    <ResettleForm game={resettlingGame} onResettle={async (id, num, reason) => { await resettleGame(id, num, reason); setResettlingGame(null); }} onCancel={() => setResettlingGame(null)} />
+                </Modal>
+            )}
+
             <Modal isOpen={isTopUpModalOpen} onClose={() => setIsTopUpModalOpen(false)} title="Top-Up Dealer Wallet" themeColor="emerald">
                 <DealerTransactionForm type="Top-Up" dealers={dealers} onTransaction={(dealerId, amount) => { topUpDealerWallet(dealerId, amount); setIsTopUpModalOpen(false); }} onCancel={() => setIsTopUpModalOpen(false)} />
             </Modal>
@@ -1822,7 +2823,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ admin, dealers, onSaveDealer, o
 
             {activeLedgerAccount && (
                 <Modal isOpen={!!activeLedgerAccount} onClose={() => { setViewingLedgerId(null); setViewingLedgerType(null); }} title={`Ledger for ${activeLedgerAccount.name}`} size="xl">
-                    <StatefulLedgerTableWrapper entries={activeLedgerAccount.ledger} />
+                    <StatefulLedgerTableWrapper accountType={viewingLedgerType === 'treasury' ? 'TREASURY' : viewingLedgerType === 'dealer' ? 'DEALER' : 'USER'} accountId={activeLedgerAccount.id} refreshKey={activeLedgerAccount.wallet} />
                 </Modal>
             )}
 
@@ -1,10 +1,15 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Dealer, User, PrizeRates, LedgerEntry, BetLimits, Bet, Game, SubGameType } from '../types';
+import { Dealer, User, PrizeRates, LedgerEntry, BetLimits, Bet, Game, SubGameType, NumberLimitViolation } from '../types';
 import { Icons } from '../constants';
 import { useCountdown } from '../hooks/useCountdown';
+import { usePagedList, toBet, getBetsRefreshKey } from '../hooks/usePagedList';
+import { formatRupees } from '../shared/money';
+import { getMarketDate } from '../shared/schedule';
+import JournalModal from './JournalModal';
 
-const getTodayDateString = () => new Date().toISOString().split('T')[0];
+// Date filters are PKT days, as the server reads them.
+const getTodayDateString = () => getMarketDate(new Date());
 
 const Modal: React.FC<{ isOpen: boolean; onClose: () => void; title: string; children: React.ReactNode; size?: 'md' | 'lg' | 'xl'; themeColor?: string }> = ({ isOpen, onClose, title, children, size = 'md', themeColor = 'emerald' }) => {
     if (!isOpen) return null;
@@ -38,70 +43,75 @@ const Toast: React.FC<{ message: string; type: 'success' | 'error'; onClose: ()
     );
 };
 
-const LedgerTable: React.FC<{ entries: LedgerEntry[] }> = ({ entries }) => (
-    <div className="space-y-4">
-        {/* Mobile View */}
-        <div className="sm:hidden space-y-3">
-            {Array.isArray(entries) && [...entries].reverse().map(entry => (
-                <div key={entry.id} className="bg-slate-800/40 p-4 rounded-xl border border-slate-700 shadow-md">
-                    <div className="flex justify-between items-start mb-2">
-                        <div className="text-[10px] text-slate-500 font-mono">{entry.timestamp?.toLocaleString() || 'N/A'}</div>
-                        <div className="text-right">
-                            <div className="text-[9px] text-slate-500 uppercase font-black">Balance</div>
-                            <div className="font-mono text-white font-bold">Rs {entry.balance.toFixed(2)}</div>
-                        </div>
-                    </div>
-                    <div className="text-sm text-slate-200 mb-2 font-semibold">{entry.description}</div>
-                    <div className="flex gap-4">
-                        {entry.debit > 0 && (
-                            <div>
-                                <div className="text-[9px] text-red-500 uppercase font-black">Debit (-)</div>
-                                <div className="text-red-400 font-mono font-bold">Rs {entry.debit.toFixed(2)}</div>
-                            </div>
-                        )}
-                        {entry.credit > 0 && (
-                            <div>
-                                <div className="text-[9px] text-emerald-500 uppercase font-black">Credit (+)</div>
-                                <div className="text-emerald-400 font-mono font-bold">Rs {entry.credit.toFixed(2)}</div>
+// Tapping an entry opens its journal posting with all the counter-entries.
+const LedgerTable: React.FC<{ entries: LedgerEntry[] }> = ({ entries }) => {
+    const [journalEntryId, setJournalEntryId] = useState<string | null>(null);
+    return (
+        <div className="space-y-4">
+            {/* Mobile View */}
+            <div className="sm:hidden space-y-3">
+                {Array.isArray(entries) && [...entries].reverse().map(entry => (
+                    <div key={entry.id} onClick={() => setJournalEntryId(entry.id)} className="bg-slate-800/40 p-4 rounded-xl border border-slate-700 shadow-md cursor-pointer">
+                        <div className="flex justify-between items-start mb-2">
+                            <div className="text-[10px] text-slate-500 font-mono">{entry.timestamp?.toLocaleString() || 'N/A'}</div>
+                            <div className="text-right">
+                                <div className="text-[9px] text-slate-500 uppercase font-black">Balance</div>
+                                <div className="font-mono text-white font-bold">Rs {formatRupees(entry.balance)}</div>
                             </div>
-                        )}
+                        </div>
+                        <div className="text-sm text-slate-200 mb-2 font-semibold">{entry.description}</div>
+                        <div className="flex gap-4">
+                            {entry.debit > 0 && (
+                                <div>
+                                    <div className="text-[9px] text-red-500 uppercase font-black">Debit (-)</div>
+                                    <div className="text-red-400 font-mono font-bold">Rs {formatRupees(entry.debit)}</div>
+                                </div>
+                            )}
+                            {entry.credit > 0 && (
+                                <div>
+                                    <div className="text-[9px] text-emerald-500 uppercase font-black">Credit (+)</div>
+                                    <div className="text-emerald-400 font-mono font-bold">Rs {formatRupees(entry.credit)}</div>
+                                </div>
+                            )}
+                        </div>
                     </div>
-                </div>
-            ))}
-            {(!Array.isArray(entries) || entries.length === 0) && (
-                <div className="p-8 text-center text-slate-500 text-sm">No records found.</div>
-            )}
-        </div>
+                ))}
+                {(!Array.isArray(entries) || entries.length === 0) && (
+                    <div className="p-8 text-center text-slate-500 text-sm">No records found.</div>
+                )}
+            </div>
 
-        {/* Desktop View */}
-        <div className="hidden sm:block bg-slate-900/50 rounded-lg overflow-hidden border border-slate-700">
-            <div className="overflow-y-auto max-h-[60vh] mobile-scroll-x">
-                <table className="w-full text-left min-w-[600px]">
-                    <thead className="bg-slate-800/50 sticky top-0 backdrop-blur-sm">
-                        <tr>
-                            <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Date</th>
-                            <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Description</th>
-                            <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Debit</th>
-                            <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Credit</th>
-                            <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Balance</th>
-                        </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-800">
-                        {Array.isArray(entries) && [...entries].reverse().map(entry => (
-                            <tr key={entry.id} className="hover:bg-emerald-500/10 text-sm transition-colors">
-                                <td className="p-3 text-slate-400 whitespace-nowrap">{entry.timestamp?.toLocaleString() || 'N/A'}</td>
-                                <td className="p-3 text-white">{entry.description}</td>
-                                <td className="p-3 text-right text-red-400 font-mono">{entry.debit > 0 ? entry.debit.toFixed(2) : '-'}</td>
-                                <td className="p-3 text-right text-green-400 font-mono">{entry.credit > 0 ? entry.credit.toFixed(2) : '-'}</td>
-                                <td className="p-3 text-right font-semibold text-white font-mono">{entry.balance.toFixed(2)}</td>
+            {/* Desktop View */}
+            <div className="hidden sm:block bg-slate-900/50 rounded-lg overflow-hidden border border-slate-700">
+                <div className="overflow-y-auto max-h-[60vh] mobile-scroll-x">
+                    <table className="w-full text-left min-w-[600px]">
+                        <thead className="bg-slate-800/50 sticky top-0 backdrop-blur-sm">
+                            <tr>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Date</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Description</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Debit</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Credit</th>
+                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Balance</th>
                             </tr>
-                        ))}
-                    </tbody>
-                </table>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {Array.isArray(entries) && [...entries].reverse().map(entry => (
+                                <tr key={entry.id} onClick={() => setJournalEntryId(entry.id)} className="hover:bg-emerald-500/10 text-sm transition-colors cursor-pointer">
+                                    <td className="p-3 text-slate-400 whitespace-nowrap">{entry.timestamp?.toLocaleString() || 'N/A'}</td>
+                                    <td className="p-3 text-white">{entry.description}</td>
+                                    <td className="p-3 text-right text-red-400 font-mono">{entry.debit > 0 ? formatRupees(entry.debit) : '-'}</td>
+                                    <td className="p-3 text-right text-green-400 font-mono">{entry.credit > 0 ? formatRupees(entry.credit) : '-'}</td>
+                                    <td className="p-3 text-right font-semibold text-white font-mono">{formatRupees(entry.balance)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
             </div>
+            <JournalModal entryId={journalEntryId} onClose={() => setJournalEntryId(null)} themeColor="emerald" />
         </div>
-    </div>
-);
+    );
+};
 
 export const UserForm: React.FC<{
     user?: User;
@@ -301,8 +311,8 @@ const MoreOptionsDropdown: React.FC<{
     onEdit: () => void;
     onLedger: () => void;
     onToggleStatus: () => void;
-    onDelete: () => void;
-}> = ({ user, onEdit, onLedger, onToggleStatus, onDelete }) => {
+    onClose: () => void;
+}> = ({ user, onEdit, onLedger, onToggleStatus, onClose }) => {
     const [isOpen, setIsOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -323,10 +333,14 @@ const MoreOptionsDropdown: React.FC<{
                 <div className="absolute right-0 mt-2 w-44 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-[60] overflow-hidden animate-fade-in divide-y divide-slate-700/50">
                     <button onClick={() => { onEdit(); setIsOpen(false); }} className={`${btnClass} text-sky-400`}>Edit Account</button>
                     <button onClick={() => { onLedger(); setIsOpen(false); }} className={`${btnClass} text-emerald-400`}>Transaction Ledger</button>
-                    <button onClick={() => { onToggleStatus(); setIsOpen(false); }} className={`${btnClass} ${user.isRestricted ? 'text-green-400' : 'text-amber-400'}`}>
-                        {user.isRestricted ? 'Unblock Access' : 'Restrict Access'}
-                    </button>
-                    <button onClick={() => { if (window.confirm(`Permanently delete ${user.name}? This cannot be undone.`)) onDelete(); setIsOpen(false); }} className={`${btnClass} text-red-500 hover:bg-red-950/30`}>Delete Account</button>
+                    {!user.closedAt && (
+                        <>
+                            <button onClick={() => { onToggleStatus(); setIsOpen(false); }} className={`${btnClass} ${user.isRestricted ? 'text-green-400' : 'text-amber-400'}`}>
+                                {user.isRestricted ? 'Unblock Access' : 'Restrict Access'}
+                            </button>
+                            <button onClick={() => { if (window.confirm(`Close ${user.name}'s account? Its balance returns to your wallet and it can no longer log in. This cannot be undone.`)) onClose(); setIsOpen(false); }} className={`${btnClass} text-red-500 hover:bg-red-950/30`}>Close Account</button>
+                        </>
+                    )}
                 </div>
             )}
         </div>
@@ -337,17 +351,18 @@ interface DealerPanelProps {
     dealer: Dealer;
     users: User[];
     onSaveUser: (user: User, originalId?: string, initialDeposit?: number) => Promise<void>;
-    onDeleteUser: (uId: string) => Promise<void>;
+    onCloseUser: (uId: string) => Promise<void>;
     topUpUserWallet: (userId: string, amount: number) => Promise<void>;
     withdrawFromUserWallet: (userId: string, amount: number) => Promise<void>;
     toggleAccountRestriction: (userId: string, userType: 'user') => void;
     bets: Bet[];
     games: Game[];
     placeBetAsDealer: (details: { userId: string; gameId: string; betGroups: any[] }) => Promise<void>;
+    voidBet: (betId: string) => Promise<void>;
     isLoaded?: boolean;
 }
 
-const DealerPanel: React.FC<DealerPanelProps> = ({ dealer, users, onSaveUser, onDeleteUser, topUpUserWallet, withdrawFromUserWallet, toggleAccountRestriction, bets, games, placeBetAsDealer, isLoaded = false }) => {
+const DealerPanel: React.FC<DealerPanelProps> = ({ dealer, users, onSaveUser, onCloseUser, topUpUserWallet, withdrawFromUserWallet, toggleAccountRestriction, bets, games, placeBetAsDealer, voidBet, isLoaded = false }) => {
     const [activeTab, setActiveTab] = useState('users');
     const [isUserModalOpen, setIsUserModalOpen] = useState(false);
     const [selectedUser, setSelectedUser] = useState<User | undefined>(undefined);
@@ -444,14 +459,16 @@ const DealerPanel: React.FC<DealerPanelProps> = ({ dealer, users, onSaveUser, on
                                                 <div className="text-[10px] text-slate-500 font-mono">{user.contact || '-'}</div>
                                             </td>
                                             <td className="p-4 text-right">
-                                                <div className="font-mono text-emerald-400 font-bold text-sm">{user.wallet.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                                                <div className="font-mono text-emerald-400 font-bold text-sm">{formatRupees(user.wallet)}</div>
                                                 <div className="text-[9px] text-slate-500 uppercase tracking-tighter">Current Funds</div>
                                             </td>
                                             <td className="p-4 text-center">
                                                 <div className="font-bold text-white text-xs">{user.commissionRate}%</div>
                                             </td>
                                             <td className="p-4 text-center">
-                                                {user.isRestricted ?
+                                                {user.closedAt ?
+                                                    <span className="bg-slate-500/10 text-slate-400 text-[9px] px-2 py-0.5 rounded-full border border-slate-500/20 font-black uppercase tracking-tighter">Closed</span> :
+                                                    user.isRestricted ?
                                                     <span className="bg-red-500/10 text-red-500 text-[9px] px-2 py-0.5 rounded-full border border-red-500/20 font-black uppercase tracking-tighter">Locked</span> :
                                                     <span className="bg-green-500/10 text-green-500 text-[9px] px-2 py-0.5 rounded-full border border-green-500/20 font-black uppercase tracking-tighter">Active</span>
                                                 }
@@ -467,7 +484,7 @@ const DealerPanel: React.FC<DealerPanelProps> = ({ dealer, users, onSaveUser, on
                                                             showToast("Status updated.", "success");
                                                         } catch (e: any) { showToast(e.message || "Status update failed.", "error"); }
                                                     }}
-                                                    onDelete={async () => { try { await onDeleteUser(user.id); showToast("Account deleted successfully.", "success"); } catch (e) { showToast("Error deleting account.", "error"); } }}
+                                                    onClose={async () => { try { await onCloseUser(user.id); showToast("Account closed.", "success"); } catch (e: any) { showToast(e.message || "Error closing account.", "error"); } }}
                                                 />
                                             </td>
                                         </tr>
@@ -489,7 +506,7 @@ const DealerPanel: React.FC<DealerPanelProps> = ({ dealer, users, onSaveUser, on
 
             {activeTab === 'terminal' && <div className="animate-fade-in"><BettingTerminalView users={safeUsers} games={games} placeBetAsDealer={placeBetAsDealer} /></div>}
             {activeTab === 'wallet' && <div className="animate-fade-in"><WalletView dealer={safeDealer as Dealer} /></div>}
-            {activeTab === 'history' && <div className="animate-fade-in"><BetHistoryView bets={bets} games={games} users={safeUsers} /></div>}
+            {activeTab === 'history' && <div className="animate-fade-in"><BetHistoryView bets={bets} games={games} users={safeUsers} voidBet={voidBet} /></div>}
 
             <Modal isOpen={isUserModalOpen} onClose={() => setIsUserModalOpen(false)} title={selectedUser ? "Update Profile" : "Onboard New User"} themeColor="emerald">
                 <UserForm user={selectedUser} users={safeUsers} onSave={onSaveUser} onCancel={() => setIsUserModalOpen(false)} dealerPrizeRates={safeDealer.prizeRates as PrizeRates} dealerId={safeDealer.id} showToast={showToast} />
@@ -525,7 +542,7 @@ const WalletView: React.FC<{ dealer: Dealer }> = ({ dealer }) => {
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 flex flex-col items-center justify-center text-center">
                     <p className="text-slate-500 uppercase text-[10px] font-black tracking-widest mb-1">Available Pool</p>
-                    <p className="text-3xl font-black text-emerald-400 font-mono">PKR {dealer.wallet.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                    <p className="text-3xl font-black text-emerald-400 font-mono">PKR {formatRupees(dealer.wallet)}</p>
                 </div>
                 <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 flex flex-col items-center justify-center text-center">
                     <p className="text-slate-500 uppercase text-[10px] font-black tracking-widest mb-1">Log Count</p>
@@ -538,7 +555,7 @@ const WalletView: React.FC<{ dealer: Dealer }> = ({ dealer }) => {
 };
 
 const OpenGameOption: React.FC<{ game: Game }> = ({ game }) => {
-    const { status, text } = useCountdown(game.drawTime);
+    const { status, text } = useCountdown(game);
     if (!game.isMarketOpen) return null;
     return <option value={game.id}>{game.name} (Draw: {game.drawTime})</option>;
 };
@@ -548,10 +565,12 @@ const BettingTerminalView: React.FC<{ users: User[]; games: Game[]; placeBetAsDe
     const [selectedGameId, setSelectedGameId] = useState('');
     const [bulkInput, setBulkInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [limitViolations, setLimitViolations] = useState<NumberLimitViolation[]>([]);
 
     const handleProcessBets = async () => {
         if (!selectedUserId || !selectedGameId || !bulkInput) return;
         setIsLoading(true);
+        setLimitViolations([]);
         try {
             const lines = bulkInput.split('\n').filter(l => l.trim());
             const betGroups: any[] = [];
@@ -571,7 +590,8 @@ const BettingTerminalView: React.FC<{ users: User[]; games: Game[]; placeBetAsDe
             setBulkInput('');
             alert("Bets confirmed successfully!");
         } catch (error: any) {
-            alert(error.message || "Terminal processing error.");
+            if (error.violations && error.violations.length > 0) setLimitViolations(error.violations);
+            else alert(error.message || "Terminal processing error.");
         } finally {
             setIsLoading(false);
         }
@@ -591,6 +611,20 @@ const BettingTerminalView: React.FC<{ users: User[]; games: Game[]; placeBetAsDe
                 </select>
             </div>
             <textarea rows={8} value={bulkInput} onChange={e => setBulkInput(e.target.value)} placeholder="Entry Format Example:&#10;14, 25 50&#10;88, 91 100" className="w-full bg-slate-900 text-white p-4 rounded-xl border border-slate-700 font-mono text-xs focus:ring-1 focus:ring-emerald-500" />
+            {limitViolations.length > 0 && (
+                <div className="mt-4 bg-amber-500/10 border border-amber-500/30 rounded-xl overflow-hidden">
+                    <div className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-amber-400 border-b border-amber-500/20">Rejected: Number Limits Reached in {limitViolations[0].gameName}</div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 p-3">
+                        {limitViolations.map(v => (
+                            <div key={`${v.gameType}-${v.number}`} className="bg-slate-900 rounded-lg border border-slate-700 p-2 font-mono text-xs">
+                                <div className="text-cyan-300 font-bold text-base">{v.number}</div>
+                                <div className="text-slate-400">Asked: <span className="text-white">{v.requested.toLocaleString()}</span></div>
+                                <div className="text-slate-400">Left: <span className="text-amber-300 font-bold">{v.remaining.toLocaleString()}</span></div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
             <div className="flex justify-end mt-4">
                 <button onClick={handleProcessBets} disabled={!selectedUserId || !selectedGameId || !bulkInput || isLoading} className="w-full sm:w-auto bg-emerald-600 hover:bg-emerald-500 text-white font-black py-3 px-10 rounded-xl disabled:opacity-50 transition-all uppercase tracking-widest text-xs shadow-lg shadow-emerald-900/40">
                     {isLoading ? 'PROCESSING...' : 'CONFIRM BULK ENTRIES'}
@@ -611,7 +645,7 @@ const UserTransactionForm: React.FC<{ users: User[]; onTransaction: (userId: str
                 <option value="">-- Choose User --</option>
                 {Array.isArray(users) && users.map(u => (
                     <option key={u.id} value={u.id}>
-                        {u.name} ({u.id}) — Balance: PKR {u.wallet.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                        {u.name} ({u.id}) — Balance: PKR {formatRupees(u.wallet)}
                     </option>
                 ))}
             </select>
@@ -624,39 +658,51 @@ const UserTransactionForm: React.FC<{ users: User[]; onTransaction: (userId: str
     );
 };
 
-const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], users: User[] }> = ({ bets, games, users }) => {
+// Paged from the server; bets from App's sync only signals that something changed.
+const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], users: User[], voidBet: (betId: string) => Promise<void> }> = ({ bets, games, users, voidBet }) => {
     const [startDate, setStartDate] = useState(getTodayDateString());
     const [endDate, setEndDate] = useState(getTodayDateString());
-    const [searchTerm, setSearchTerm] = useState('');
-
-    const filteredBets = useMemo(() => {
-        if (!Array.isArray(bets)) return [];
-        return bets.filter(bet => {
-            const dateStr = new Date(bet.timestamp).toISOString().split('T')[0];
-            if (startDate && dateStr < startDate) return false;
-            if (endDate && dateStr > endDate) return false;
-            if (searchTerm.trim()) {
-                const user = users.find(u => u.id === bet.userId);
-                const game = games.find(g => g.id === bet.gameId);
-                return user?.name.toLowerCase().includes(searchTerm.toLowerCase()) || game?.name.toLowerCase().includes(searchTerm.toLowerCase()) || user?.id.toLowerCase().includes(searchTerm.toLowerCase());
-            }
-            return true;
-        }).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-    }, [bets, games, users, startDate, endDate, searchTerm]);
+    const [userId, setUserId] = useState('');
+    const [gameId, setGameId] = useState('');
+    const history = usePagedList<Bet>('/api/bets', { from: startDate, to: endDate, userId, gameId }, toBet, { refreshKey: getBetsRefreshKey(bets) });
+
+    const canVoid = (bet: Bet) => bet.status !== 'void' && !!games.find(g => g.id === bet.gameId)?.isMarketOpen;
+
+    const handleVoid = async (bet: Bet) => {
+        const playerName = users.find(u => u.id === bet.userId)?.name || 'this player';
+        if (!window.confirm(`Void this bet of Rs ${bet.totalAmount.toLocaleString()} for ${playerName}? The stake will be refunded.`)) return;
+        try { await voidBet(bet.id); }
+        catch (error: any) { alert(error.message || 'Void failed.'); }
+    };
+
+    const renderVoidAction = (bet: Bet) => {
+        if (bet.status === 'void') return <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Void</span>;
+        if (!canVoid(bet)) return null;
+        return <button onClick={() => handleVoid(bet)} className="bg-red-500/20 hover:bg-red-500/40 text-red-300 px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all">Void</button>;
+    };
+
+    const filteredBets = history.items;
 
     return (
         <div className="space-y-4">
-            <div className="bg-slate-800/50 p-4 rounded-2xl border border-slate-700 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="bg-slate-800/50 p-4 rounded-2xl border border-slate-700 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
                 <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="bg-slate-900 text-white p-2 rounded-xl text-[10px] border border-slate-700 font-bold uppercase tracking-widest w-full" />
                 <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="bg-slate-900 text-white p-2 rounded-xl text-[10px] border border-slate-700 font-bold uppercase tracking-widest w-full" />
-                <input type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} placeholder="Filter History..." className="bg-slate-900 text-white p-2 rounded-xl text-[10px] border border-slate-700 font-bold uppercase tracking-widest w-full" />
-                <button onClick={() => { setStartDate(''); setEndDate(''); setSearchTerm(''); }} className="bg-slate-700 text-white p-2 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-600 transition-all w-full">Clear Filters</button>
+                <select value={userId} onChange={e => setUserId(e.target.value)} className="bg-slate-900 text-white p-2 rounded-xl text-[10px] border border-slate-700 font-bold uppercase tracking-widest w-full">
+                    <option value="">All players</option>
+                    {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                </select>
+                <select value={gameId} onChange={e => setGameId(e.target.value)} className="bg-slate-900 text-white p-2 rounded-xl text-[10px] border border-slate-700 font-bold uppercase tracking-widest w-full">
+                    <option value="">All games</option>
+                    {games.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                </select>
+                <button onClick={() => { setStartDate(''); setEndDate(''); setUserId(''); setGameId(''); }} className="bg-slate-700 text-white p-2 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-600 transition-all w-full">Clear Filters</button>
             </div>
 
             {/* Mobile Card View */}
             <div className="sm:hidden space-y-3">
                 {filteredBets.map(bet => (
-                    <div key={bet.id} className="bg-slate-800/40 p-4 rounded-xl border border-slate-700 shadow-lg">
+                    <div key={bet.id} className={`bg-slate-800/40 p-4 rounded-xl border border-slate-700 shadow-lg ${bet.status === 'void' ? 'opacity-60' : ''}`}>
                         <div className="flex justify-between items-start mb-2">
                             <div className="text-[10px] text-slate-500 font-mono">{new Date(bet.timestamp).toLocaleString()}</div>
                             <div className="text-right font-mono text-emerald-400 font-bold text-sm">Rs {bet.totalAmount.toLocaleString()}</div>
@@ -669,9 +715,10 @@ const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], users: User[] }> =
                             <div className="text-[10px] font-black text-slate-300 uppercase tracking-tighter">{bet.subGameType}</div>
                             <div className="text-[10px] text-slate-500 font-mono break-words">{bet.numbers.join(', ')}</div>
                         </div>
+                        {(bet.status === 'void' || canVoid(bet)) && <div className="pt-2 flex justify-end">{renderVoidAction(bet)}</div>}
                     </div>
                 ))}
-                {filteredBets.length === 0 && <div className="p-12 text-center text-slate-500 text-xs uppercase font-black">No records found.</div>}
+                {filteredBets.length === 0 && <div className="p-12 text-center text-slate-500 text-xs uppercase font-black">{history.isLoading ? 'Loading...' : history.error || 'No records found.'}</div>}
             </div>
 
             {/* Desktop Table View */}
@@ -685,11 +732,12 @@ const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], users: User[] }> =
                                 <th className="p-4 text-[10px] text-slate-500 font-black uppercase tracking-widest">Game</th>
                                 <th className="p-4 text-[10px] text-slate-500 font-black uppercase tracking-widest">Details</th>
                                 <th className="p-4 text-[10px] text-slate-500 font-black uppercase tracking-widest text-right">Stake</th>
+                                <th className="p-4 text-[10px] text-slate-500 font-black uppercase tracking-widest text-right">Action</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-800">
                             {filteredBets.map(bet => (
-                                <tr key={bet.id} className="hover:bg-slate-700/20 transition-colors">
+                                <tr key={bet.id} className={`hover:bg-slate-700/20 transition-colors ${bet.status === 'void' ? 'opacity-60' : ''}`}>
                                     <td className="p-4 text-[10px] text-slate-400 whitespace-nowrap font-mono">{new Date(bet.timestamp).toLocaleString()}</td>
                                     <td className="p-4 text-xs font-bold text-white">{users.find(u => u.id === bet.userId)?.name || 'Unknown'}</td>
                                     <td className="p-4 text-xs font-bold text-sky-400">{games.find(g => g.id === bet.gameId)?.name || 'Game'}</td>
@@ -697,13 +745,22 @@ const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], users: User[] }> =
                                         <div className="text-[10px] font-black text-slate-300 uppercase tracking-tighter">{bet.subGameType}</div>
                                         <div className="text-[10px] text-slate-500 font-mono">{bet.numbers.join(', ')}</div>
                                     </td>
-                                    <td className="p-4 text-right font-mono text-white text-xs font-bold">{bet.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</td>
+                                    <td className="p-4 text-right font-mono text-white text-xs font-bold">{formatRupees(bet.totalAmount)}</td>
+                                    <td className="p-4 text-right">{renderVoidAction(bet)}</td>
                                 </tr>
                             ))}
+                            {filteredBets.length === 0 && (
+                                <tr><td colSpan={6} className="p-12 text-center text-slate-500 text-xs uppercase font-black">{history.isLoading ? 'Loading...' : history.error || 'No records found.'}</td></tr>
+                            )}
                         </tbody>
                     </table>
                 </div>
             </div>
+            {history.hasMore && (
+                <button onClick={history.loadMore} disabled={history.isLoading} className="w-full bg-slate-800 hover:bg-slate-700 text-emerald-400 border border-slate-700 p-3 rounded-xl font-black text-[10px] uppercase tracking-widest transition-all disabled:opacity-50">
+                    {history.isLoading ? 'Loading...' : 'Load older bets'}
+                </button>
+            )}
         </div>
     );
 };
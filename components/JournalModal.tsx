@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Journal } from '../types';
+import { Icons } from '../constants';
+import { useAuth } from '../hooks/useAuth';
+import { formatRupees } from '../shared/money';
+
+// Shows every leg of the journal posting a ledger entry belongs to. Shared by the ledger tables of all three panels;
+// entryId null keeps it closed.
+const JournalModal: React.FC<{ entryId: string | null; onClose: () => void; themeColor?: string }> = ({ entryId, onClose, themeColor = 'cyan' }) => {
+    const { fetchWithAuth } = useAuth();
+    const [journal, setJournal] = useState<Journal | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!entryId) return;
+        let cancelled = false;
+        setJournal(null);
+        setError(null);
+        (async () => {
+            try {
+                const res = await fetchWithAuth(`/api/ledger/${encodeURIComponent(entryId)}/journal`);
+                if (!res.ok) { const err = await res.json().catch(() => ({})); throw new Error(err.message || 'Failed to load journal.'); }
+                const data: Journal = await res.json();
+                if (!cancelled) setJournal(data);
+            } catch (e: any) {
+                if (!cancelled) setError(e.message || 'Failed to load journal.');
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [entryId, fetchWithAuth]);
+
+    if (!entryId) return null;
+    const totalDebit = journal ? journal.legs.reduce((sum, leg) => sum + leg.debit, 0) : 0;
+    const totalCredit = journal ? journal.legs.reduce((sum, leg) => sum + leg.credit, 0) : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex justify-center items-center z-[60] p-4">
+            <div className={`bg-slate-900/95 rounded-lg shadow-2xl w-full border border-${themeColor}-500/30 max-w-3xl flex flex-col max-h-[90vh]`}>
+                <div className="flex justify-between items-center p-5 border-b border-slate-700 flex-shrink-0">
+                    <h3 className={`text-lg font-bold text-${themeColor}-400 uppercase tracking-widest`}>Journal Posting</h3>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white">{Icons.close}</button>
+                </div>
+                <div className="p-6 overflow-y-auto">
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    {!error && !journal && <p className="text-sm text-slate-400">Loading...</p>}
+                    {journal && (
+                        <>
+                            <p className="text-xs text-slate-500 font-mono mb-4">
+                                {journal.journalId ? `Journal ${journal.journalId}` : 'Recorded before journal postings; its counter-entries are not linked.'}
+                            </p>
+                            <div className="bg-slate-900/50 rounded-lg overflow-hidden border border-slate-700">
+                                <div className="overflow-x-auto mobile-scroll-x">
+                                    <table className="w-full text-left min-w-[600px]">
+                                        <thead className="bg-slate-800/50">
+                                            <tr>
+                                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Account</th>
+                                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider">Description</th>
+                                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Debit</th>
+                                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Credit</th>
+                                                <th className="p-3 text-xs font-semibold text-slate-400 uppercase tracking-wider text-right">Balance</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-800">
+                                            {journal.legs.map(leg => (
+                                                <tr key={leg.id} className={`text-sm ${leg.id === journal.entryId ? `bg-${themeColor}-500/10` : ''}`}>
+                                                    <td className="p-3 whitespace-nowrap">
+                                                        <div className="text-[10px] text-slate-500 uppercase font-bold">{leg.accountType}</div>
+                                                        <div className="text-white font-mono">{leg.accountId}</div>
+                                                    </td>
+                                                    <td className="p-3 text-white">{leg.description}</td>
+                                                    <td className="p-3 text-right text-red-400 font-mono">{leg.debit > 0 ? formatRupees(leg.debit) : '-'}</td>
+                                                    <td className="p-3 text-right text-green-400 font-mono">{leg.credit > 0 ? formatRupees(leg.credit) : '-'}</td>
+                                                    <td className="p-3 text-right font-semibold text-white font-mono">{leg.balance === null ? '-' : formatRupees(leg.balance)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                        {journal.journalId && (
+                                            <tfoot className="bg-slate-800/50 border-t border-slate-700">
+                                                <tr className="text-sm font-semibold">
+                                                    <td colSpan={2} className="p-3 text-slate-400">Totals</td>
+                                                    <td className="p-3 text-right text-red-400 font-mono">{formatRupees(totalDebit)}</td>
+                                                    <td className="p-3 text-right text-green-400 font-mono">{formatRupees(totalCredit)}</td>
+                                                    <td className="p-3"></td>
+                                                </tr>
+                                            </tfoot>
+                                        )}
+                                    </table>
+                                </div>
+                            </div>
+                            <p className="text-xs text-slate-500 mt-3">{new Date(journal.legs[0].timestamp).toLocaleString()}</p>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default JournalModal;
@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
-import { Game } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Game, DrawResult } from '../types';
 import { useCountdown } from '../hooks/useCountdown';
-import { Icons, GAME_LOGOS } from '../constants';
+import { Icons } from '../constants';
 import { useAuth } from '../hooks/useAuth';
+import { getMarketDate } from '../shared/schedule';
 
 // Helper function to format time to 12-hour AM/PM format
 const formatTime12h = (time24: string) => {
@@ -13,12 +14,11 @@ const formatTime12h = (time24: string) => {
 };
 
 const GameDisplayCard: React.FC<{ game: Game; onClick: () => void }> = ({ game, onClick }) => {
-    const { status, text: countdownText } = useCountdown(game.drawTime);
-    // Important: Ignore partial AK results ending in "_" for display
-    const hasFinalWinner = !!game.winningNumber && !game.winningNumber.endsWith('_');
+    const { status, text: countdownText } = useCountdown(game);
+    // Important: Ignore partial AK results ending in "_" for display, and the previous draw's result on a holiday
+    const hasFinalWinner = !game.isHoliday && !!game.winningNumber && !game.winningNumber.endsWith('_');
     const isMarketClosedForDisplay = !game.isMarketOpen;
     const themeColor = hasFinalWinner ? 'emerald' : 'cyan';
-    const logo = GAME_LOGOS[game.name] || '';
 
     return (
         <button
@@ -33,7 +33,7 @@ const GameDisplayCard: React.FC<{ game: Game; onClick: () => void }> = ({ game,
             {/* Main content */}
             <div className="relative z-10 w-full flex flex-col h-full">
                 <div className="flex-grow">
-                    <img src={logo} alt={`${game.name} logo`} className="w-24 h-24 rounded-full mb-4 border-4 border-slate-700 group-hover:border-cyan-400 transition-colors" />
+                    <img src={game.logo} alt={`${game.name} logo`} className="w-24 h-24 rounded-full mb-4 border-4 border-slate-700 group-hover:border-cyan-400 transition-colors" />
                     <h3 className="text-2xl text-white mb-1 uppercase tracking-wider">{game.name}</h3>
                     <p className="text-slate-400 text-sm">Draw @ {formatTime12h(game.drawTime)}</p>
                 </div>
@@ -45,6 +45,12 @@ const GameDisplayCard: React.FC<{ game: Game; onClick: () => void }> = ({ game,
                                 <span>{game.winningNumber}</span>
                             </div>
                         </>
+                    ) : game.isSuspended || game.isHoliday ? (
+                        <>
+                            <div className="text-xs uppercase tracking-widest text-slate-400">STATUS</div>
+                            <div className={`text-2xl font-mono font-bold ${game.isSuspended ? 'text-orange-400' : 'text-amber-300'}`}>{game.isSuspended ? 'SUSPENDED' : 'HOLIDAY'}</div>
+                            {game.isHoliday && !game.isSuspended && game.holidayReason && <div className="text-xs text-slate-500 truncate">{game.holidayReason}</div>}
+                        </>
                     ) : isMarketClosedForDisplay ? (
                         <>
                             <div className="text-xs uppercase tracking-widest text-slate-400">STATUS</div>
@@ -67,6 +73,97 @@ const GameDisplayCard: React.FC<{ game: Game; onClick: () => void }> = ({ game,
     );
 };
 
+const RESULT_RANGES = [7, 30, 90];
+
+const ResultsChart: React.FC<{ results: DrawResult[]; maxValue: number }> = ({ results, maxValue }) => {
+    const width = 800, height = 220, pad = 30;
+    const x = (i: number) => pad + (results.length === 1 ? (width - 2 * pad) / 2 : (i * (width - 2 * pad)) / (results.length - 1));
+    const y = (v: number) => height - pad - (v * (height - 2 * pad)) / maxValue;
+    const points = results.map((r, i) => `${x(i)},${y(parseInt(r.winningNumber, 10))}`).join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Winning numbers by date">
+            {[0, 0.25, 0.5, 0.75, 1].map(f => (
+                <g key={f}>
+                    <line x1={pad} x2={width - pad} y1={y(f * maxValue)} y2={y(f * maxValue)} className="stroke-slate-700" strokeDasharray="4 4" />
+                    <text x={pad - 6} y={y(f * maxValue) + 4} textAnchor="end" className="fill-slate-500 text-[10px] font-mono">{Math.round(f * maxValue)}</text>
+                </g>
+            ))}
+            <polyline points={points} fill="none" className="stroke-cyan-500/60" strokeWidth={2} />
+            {results.map((r, i) => (
+                <g key={r.cycleDate}>
+                    <circle cx={x(i)} cy={y(parseInt(r.winningNumber, 10))} r={4} className="fill-cyan-300">
+                        <title>{`${r.cycleDate}: ${r.winningNumber}`}</title>
+                    </circle>
+                    {(results.length <= 10 || i % Math.ceil(results.length / 10) === 0) && (
+                        <text x={x(i)} y={height - 8} textAnchor="middle" className="fill-slate-500 text-[10px] font-mono">{r.cycleDate.slice(5)}</text>
+                    )}
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+const ResultsHistory: React.FC<{ games: Game[] }> = ({ games }) => {
+    const [gameId, setGameId] = useState('');
+    const [days, setDays] = useState(30);
+    const [results, setResults] = useState<DrawResult[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const selectedGame = games.find(g => g.id === gameId) || games[0];
+
+    useEffect(() => {
+        if (!selectedGame) return;
+        const to = new Date();
+        const from = new Date(to.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+        const params = new URLSearchParams({ from: getMarketDate(from), to: getMarketDate(to) });
+        let cancelled = false;
+        setIsLoading(true);
+        fetch(`/api/games/${selectedGame.id}/results?${params}`)
+            .then(res => res.ok ? res.json() : [])
+            .then((data: DrawResult[]) => { if (!cancelled) setResults(data); })
+            .catch(() => { if (!cancelled) setResults([]); })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [selectedGame?.id, days]);
+
+    if (!selectedGame) return null;
+
+    return (
+        <section id="results" className="mb-20">
+            <h2 className="text-3xl font-bold text-center mb-10 text-white uppercase tracking-widest">Results History</h2>
+            <div className="bg-slate-800/50 rounded-lg border border-slate-700 p-4 sm:p-6">
+                <div className="flex flex-wrap gap-3 justify-between items-center mb-4">
+                    <select value={selectedGame.id} onChange={e => setGameId(e.target.value)} className="bg-slate-900/50 p-2 rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-white uppercase tracking-wider">
+                        {games.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                    </select>
+                    <div className="flex bg-black/20 p-1 rounded-md">
+                        {RESULT_RANGES.map(d => (
+                            <button key={d} onClick={() => setDays(d)} className={`py-1.5 px-3 text-xs uppercase tracking-widest rounded transition-colors ${days === d ? 'bg-slate-700 text-cyan-400' : 'text-slate-400 hover:text-white'}`}>{d} Days</button>
+                        ))}
+                    </div>
+                </div>
+                {isLoading ? (
+                    <p className="text-center text-slate-500 py-12">Loading results...</p>
+                ) : results.length === 0 ? (
+                    <p className="text-center text-slate-500 py-12">No results in this period.</p>
+                ) : (
+                    <>
+                        <ResultsChart results={results} maxValue={selectedGame.kind === 'close-half' ? 9 : 99} />
+                        <div className="flex flex-wrap gap-2 mt-4">
+                            {[...results].reverse().map(r => (
+                                <div key={r.cycleDate} className="bg-slate-900/50 border border-slate-700 rounded px-2 py-1 text-center">
+                                    <div className="text-[10px] text-slate-500 font-mono">{r.cycleDate}</div>
+                                    <div className="text-lg font-mono font-bold text-white">{r.winningNumber}</div>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+        </section>
+    );
+};
+
 type LoginRole = 'User' | 'Dealer';
 
 const LoginPanel: React.FC<{ onForgotPassword: () => void }> = ({ onForgotPassword }) => {
@@ -348,6 +445,8 @@ const LandingPage: React.FC<{ games: Game[] }> = ({ games }) => {
                     )}
                 </section>
 
+                <ResultsHistory games={games} />
+
                 <section id="login" className="max-w-md mx-auto scroll-mt-20">
                     <LoginPanel onForgotPassword={() => setIsResetModalOpen(true)} />
                      <div className="mt-6">
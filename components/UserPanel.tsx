@@ -1,10 +1,15 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { User, Game, SubGameType, LedgerEntry, Bet, PrizeRates, BetLimits } from '../types';
-import { Icons } from '../constants';
+import { User, Game, SubGameType, LedgerEntry, Bet, BetLimits, NumberLimitViolation, BetAllowance } from '../types';
+import { Icons, getAvailableSubGameTypes } from '../constants';
 import { useCountdown } from '../hooks/useCountdown';
 import { useAuth } from '../hooks/useAuth';
+import { usePagedList, toLedgerEntry, toBet, getBetsRefreshKey } from '../hooks/usePagedList';
+import { getCycleDate, getMarketDate } from '../shared/schedule';
+import { formatRupees } from '../shared/money';
+import JournalModal from './JournalModal';
 
-const getTodayDateString = () => new Date().toISOString().split('T')[0];
+// Date filters are PKT days, as the server reads them.
+const getTodayDateString = () => getMarketDate(new Date());
 
 const Toast: React.FC<{ message: string; type: 'success' | 'error'; onClose: () => void }> = ({ message, type, onClose }) => {
     useEffect(() => {
@@ -23,55 +28,17 @@ const Toast: React.FC<{ message: string; type: 'success' | 'error'; onClose: ()
     );
 };
 
-// Helper to calculate payout for a single bet (internal use)
-const calculateBetPayout = (bet: Bet, game: Game | undefined, userPrizeRates: PrizeRates) => {
-    if (!game || !game.winningNumber || game.winningNumber.includes('_')) return 0;
-
-    const winningNumber = game.winningNumber;
-    let winningNumbersCount = 0;
-
-    bet.numbers.forEach(num => {
-        let isWin = false;
-        switch (bet.subGameType) {
-            case SubGameType.OneDigitOpen:
-                if (winningNumber.length === 2) { isWin = num === winningNumber[0]; }
-                break;
-            case SubGameType.OneDigitClose:
-                if (game.name === 'AKC') { isWin = num === winningNumber; } 
-                else if (winningNumber.length === 2) { isWin = num === winningNumber[1]; }
-                break;
-            default: // Covers TwoDigit, Bulk, Combo
-                isWin = num === winningNumber;
-                break;
-        }
-        if (isWin) winningNumbersCount++;
-    });
-
-    if (winningNumbersCount > 0) {
-        const getPrizeMultiplier = (rates: PrizeRates, subGameType: SubGameType) => {
-            switch (subGameType) {
-                case SubGameType.OneDigitOpen: return rates.oneDigitOpen;
-                case SubGameType.OneDigitClose: return rates.oneDigitClose;
-                default: return rates.twoDigit;
-            }
-        };
-        const multiplier = getPrizeMultiplier(userPrizeRates, bet.subGameType);
-        return winningNumbersCount * bet.amountPerNumber * multiplier;
-    }
-    return 0;
-};
-
 const GameStakeBreakdown: React.FC<{ games: Game[], bets: Bet[], user: User }> = ({ games, bets, user }) => {
     const data = useMemo(() => {
         return games.map(game => {
-            const gameBets = bets.filter(b => b.gameId === game.id);
+            // Bets are kept across cycles, so only count the ones in the game's running cycle.
+            const cycleDate = getCycleDate(game, new Date());
+            const gameBets = bets.filter(b => b.gameId === game.id && b.status !== 'void' && b.cycleDate === cycleDate);
             const totalStake = gameBets.reduce((sum, b) => sum + b.totalAmount, 0);
             const totalCommission = gameBets.reduce((sum, b) => sum + (b.totalAmount * (user.commissionRate / 100)), 0);
             
-            // Calculate total prize won for this specific game
-            const totalPrize = gameBets.reduce((sum, bet) => {
-                return sum + calculateBetPayout(bet, game, user.prizeRates);
-            }, 0);
+            // Prizes are settled on the server when payouts are approved
+            const totalPrize = gameBets.reduce((sum, bet) => sum + (bet.status === 'won' ? bet.payout || 0 : 0), 0);
 
             // Net Profit for the user = (Winnings + Commissions Earned) - Stake Invested
             const netProfit = (totalPrize + totalCommission) - totalStake;
@@ -121,7 +88,7 @@ const GameStakeBreakdown: React.FC<{ games: Game[], bets: Bet[], user: User }> =
                             <div className="ml-auto text-right">
                                 <div className="text-[9px] text-slate-500 uppercase font-black">Net Profit</div>
                                 <div className={`font-mono font-bold ${item.netProfit >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                                    {item.netProfit >= 0 ? '+' : ''}{item.netProfit.toFixed(2)}
+                                    {item.netProfit >= 0 ? '+' : ''}{formatRupees(item.netProfit)}
                                 </div>
                             </div>
                         </div>
@@ -136,7 +103,7 @@ const GameStakeBreakdown: React.FC<{ games: Game[], bets: Bet[], user: User }> =
                             </div>
                             <div className="text-center">
                                 <div className="text-[8px] text-sky-500 uppercase font-black">Comm.</div>
-                                <div className="text-xs font-mono text-sky-400">Rs {item.totalCommission.toFixed(2)}</div>
+                                <div className="text-xs font-mono text-sky-400">Rs {formatRupees(item.totalCommission)}</div>
                             </div>
                         </div>
                     </div>
@@ -171,19 +138,19 @@ const GameStakeBreakdown: React.FC<{ games: Game[], bets: Bet[], user: User }> =
                                         </div>
                                     </td>
                                     <td className="p-4 text-right">
-                                        <div className="font-mono text-white font-bold">Rs {item.totalStake.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                                        <div className="font-mono text-white font-bold">Rs {formatRupees(item.totalStake)}</div>
                                     </td>
                                     <td className="p-4 text-right">
                                         <div className={`font-mono font-bold ${item.totalPrize > 0 ? 'text-emerald-400' : 'text-slate-500'}`}>
-                                            Rs {item.totalPrize.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                                            Rs {formatRupees(item.totalPrize)}
                                         </div>
                                     </td>
                                     <td className="p-4 text-right">
-                                        <div className="font-mono text-sky-400">Rs {item.totalCommission.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                                        <div className="font-mono text-sky-400">Rs {formatRupees(item.totalCommission)}</div>
                                     </td>
                                     <td className="p-4 text-right">
                                         <div className={`font-mono font-black ${item.netProfit >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                                            Rs {item.netProfit >= 0 ? '+' : ''}{item.netProfit.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                            Rs {item.netProfit >= 0 ? '+' : ''}{formatRupees(item.netProfit)}
                                         </div>
                                     </td>
                                 </tr>
@@ -193,17 +160,17 @@ const GameStakeBreakdown: React.FC<{ games: Game[], bets: Bet[], user: User }> =
                             <tr>
                                 <td className="p-4 text-xs font-black text-slate-400 uppercase tracking-widest">Grand Total</td>
                                 <td className="p-4 text-right">
-                                    <div className="font-mono text-lg font-black text-white">Rs {totals.stake.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                                    <div className="font-mono text-lg font-black text-white">Rs {formatRupees(totals.stake)}</div>
                                 </td>
                                 <td className="p-4 text-right">
-                                    <div className="font-mono text-lg font-black text-emerald-400">Rs {totals.prize.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+                                    <div className="font-mono text-lg font-black text-emerald-400">Rs {formatRupees(totals.prize)}</div>
                                 </td>
                                 <td className="p-4 text-right">
-                                    <div className="font-mono text-lg font-black text-sky-400">Rs {totals.commission.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+                                    <div className="font-mono text-lg font-black text-sky-400">Rs {formatRupees(totals.commission)}</div>
                                 </td>
                                 <td className="p-4 text-right">
                                     <div className={`font-mono text-xl font-black ${totals.profit >= 0 ? 'text-emerald-400 drop-shadow-[0_0_8px_rgba(52,211,153,0.3)]' : 'text-red-400'}`}>
-                                        Rs {totals.profit >= 0 ? '+' : ''}{totals.profit.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                        Rs {totals.profit >= 0 ? '+' : ''}{formatRupees(totals.profit)}
                                     </div>
                                 </td>
                             </tr>
@@ -215,19 +182,13 @@ const GameStakeBreakdown: React.FC<{ games: Game[], bets: Bet[], user: User }> =
     );
 };
 
-const LedgerView: React.FC<{ entries: LedgerEntry[] }> = ({ entries }) => {
+// Pages come from the server newest first; the wallet balance changes with every entry, so it triggers a reload.
+const LedgerView: React.FC<{ wallet: number }> = ({ wallet }) => {
     const [startDate, setStartDate] = useState(getTodayDateString());
     const [endDate, setEndDate] = useState(getTodayDateString());
-
-    const filteredEntries = useMemo(() => {
-        if (!startDate && !endDate) return entries;
-        return entries.filter(entry => {
-            const entryDateStr = entry.timestamp.toISOString().split('T')[0];
-            if (startDate && entryDateStr < startDate) return false;
-            if (endDate && entryDateStr > endDate) return false;
-            return true;
-        });
-    }, [entries, startDate, endDate]);
+    const ledger = usePagedList<LedgerEntry>('/api/ledger', { from: startDate, to: endDate }, toLedgerEntry, { refreshKey: wallet });
+    const filteredEntries = ledger.items;
+    const [journalEntryId, setJournalEntryId] = useState<string | null>(null);
 
     const handleClearFilters = () => {
         setStartDate('');
@@ -269,67 +230,64 @@ const LedgerView: React.FC<{ entries: LedgerEntry[] }> = ({ entries }) => {
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-800">
-                            {[...filteredEntries].reverse().map(entry => (
-                                <tr key={entry.id} className="hover:bg-sky-500/10 transition-colors">
+                            {filteredEntries.map(entry => (
+                                <tr key={entry.id} onClick={() => setJournalEntryId(entry.id)} className="hover:bg-sky-500/10 transition-colors cursor-pointer">
                                     <td className="p-4 text-sm text-slate-400 whitespace-nowrap">{entry.timestamp.toLocaleString()}</td>
                                     <td className="p-4 text-white">{entry.description}</td>
-                                    <td className="p-4 text-right text-red-400 font-mono">{entry.debit > 0 ? entry.debit.toFixed(2) : '-'}</td>
-                                    <td className="p-4 text-right text-green-400 font-mono">{entry.credit > 0 ? entry.credit.toFixed(2) : '-'}</td>
-                                    <td className="p-4 text-right font-semibold text-white font-mono">{entry.balance.toFixed(2)}</td>
+                                    <td className="p-4 text-right text-red-400 font-mono">{entry.debit > 0 ? formatRupees(entry.debit) : '-'}</td>
+                                    <td className="p-4 text-right text-green-400 font-mono">{entry.credit > 0 ? formatRupees(entry.credit) : '-'}</td>
+                                    <td className="p-4 text-right font-semibold text-white font-mono">{formatRupees(entry.balance)}</td>
                                 </tr>
                             ))}
                             {filteredEntries.length === 0 && (
                                 <tr>
                                     <td colSpan={5} className="p-8 text-center text-slate-500">
-                                        No ledger entries found for the selected date range.
+                                        {ledger.isLoading ? 'Loading...' : ledger.error || 'No ledger entries found for the selected date range.'}
                                     </td>
                                 </tr>
                             )}
                         </tbody>
                     </table>
                 </div>
+                {ledger.hasMore && (
+                    <button onClick={ledger.loadMore} disabled={ledger.isLoading} className="w-full bg-slate-700/50 hover:bg-slate-700 text-sky-400 font-semibold py-2 transition-colors disabled:opacity-50">
+                        {ledger.isLoading ? 'Loading...' : 'Load older entries'}
+                    </button>
+                )}
             </div>
+            <JournalModal entryId={journalEntryId} onClose={() => setJournalEntryId(null)} themeColor="sky" />
         </div>
     );
 };
 
-const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], user: User }> = ({ bets, games, user }) => {
+// bets (from App's sync) is only used to notice changes; the list itself is paged from the server.
+const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], voidGraceMinutes: number, onVoidBet: (bet: Bet) => void }> = ({ bets, games, voidGraceMinutes, onVoidBet }) => {
     const [startDate, setStartDate] = useState(getTodayDateString());
     const [endDate, setEndDate] = useState(getTodayDateString());
-    const [searchTerm, setSearchTerm] = useState('');
+    const [gameId, setGameId] = useState('');
+    const [subGameType, setSubGameType] = useState('');
+    const history = usePagedList<Bet>('/api/bets', { from: startDate, to: endDate, gameId, subGameType }, toBet, { refreshKey: getBetsRefreshKey(bets) });
 
     const getBetOutcome = (bet: Bet) => {
-        const game = games.find(g => g.id === bet.gameId);
-        if (!game || !user || !game.winningNumber || game.winningNumber.includes('_')) return { status: 'Pending', payout: 0, color: 'text-amber-400' };
-
-        const payout = calculateBetPayout(bet, game, user.prizeRates);
-        if (payout > 0) {
-            return { status: 'Win', payout, color: 'text-green-400' };
+        switch (bet.status) {
+            case 'won': return { status: 'Win', payout: bet.payout || 0, color: 'text-green-400' };
+            case 'lost': return { status: 'Lost', payout: 0, color: 'text-red-400' };
+            case 'void': return { status: 'Void', payout: 0, color: 'text-slate-500' };
+            default: return { status: 'Pending', payout: 0, color: 'text-amber-400' };
         }
-        return { status: 'Lost', payout: 0, color: 'text-red-400' };
     };
 
-    const filteredBets = useMemo(() => {
-        return bets.filter(bet => {
-            const betDateStr = bet.timestamp.toISOString().split('T')[0];
-            if (startDate && betDateStr < startDate) return false;
-            if (endDate && betDateStr > endDate) return false;
-
-            if (searchTerm.trim()) {
-                const game = games.find(g => g.id === bet.gameId);
-                const lowerSearchTerm = searchTerm.trim().toLowerCase();
-                const gameNameMatch = game?.name.toLowerCase().includes(lowerSearchTerm);
-                const subGameTypeMatch = bet.subGameType.toLowerCase().includes(lowerSearchTerm);
-                if (!gameNameMatch && !subGameTypeMatch) return false;
-            }
-            return true;
-        });
-    }, [bets, games, startDate, endDate, searchTerm]);
+    // Users may only cancel their own bets shortly after placing them, and only while the market is open.
+    const canVoid = (bet: Bet, game?: Game) =>
+        bet.status !== 'void' && !!game?.isMarketOpen && Date.now() - bet.timestamp.getTime() < voidGraceMinutes * 60000;
+
+    const filteredBets = history.items;
 
     const handleClearFilters = () => {
         setStartDate('');
         setEndDate('');
-        setSearchTerm('');
+        setGameId('');
+        setSubGameType('');
     };
     
     const inputClass = "w-full bg-slate-800 p-2 rounded-md border border-slate-600 focus:ring-2 focus:ring-sky-500 focus:outline-none text-white";
@@ -339,7 +297,7 @@ const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], user: User }> = ({
             <h3 className="text-2xl font-bold mb-4 text-sky-400 uppercase tracking-widest">My Bet History</h3>
             
             <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 mb-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
                     <div>
                         <label htmlFor="start-date" className="block text-sm font-medium text-slate-400 mb-1">From Date</label>
                         <input id="start-date" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={`${inputClass} font-sans`} />
@@ -348,9 +306,19 @@ const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], user: User }> = ({
                         <label htmlFor="end-date" className="block text-sm font-medium text-slate-400 mb-1">To Date</label>
                         <input id="end-date" type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={`${inputClass} font-sans`} />
                     </div>
-                    <div className="md:col-span-2 lg:col-span-1">
-                        <label htmlFor="search-term" className="block text-sm font-medium text-slate-400 mb-1">Game / Type</label>
-                        <input id="search-term" type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} placeholder="e.g., AK, 1 digit, LS3" className={inputClass} />
+                    <div>
+                        <label htmlFor="history-game" className="block text-sm font-medium text-slate-400 mb-1">Game</label>
+                        <select id="history-game" value={gameId} onChange={e => setGameId(e.target.value)} className={inputClass}>
+                            <option value="">All games</option>
+                            {games.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="history-type" className="block text-sm font-medium text-slate-400 mb-1">Type</label>
+                        <select id="history-type" value={subGameType} onChange={e => setSubGameType(e.target.value)} className={inputClass}>
+                            <option value="">All types</option>
+                            {Object.values(SubGameType).map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
                     </div>
                     <div className="flex items-center">
                         <button onClick={handleClearFilters} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-md transition-colors active:translate-y-0.5">Clear Filters</button>
@@ -372,32 +340,42 @@ const BetHistoryView: React.FC<{ bets: Bet[], games: Game[], user: User }> = ({
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-800">
-                           {[...filteredBets].reverse().map(bet => {
+                           {filteredBets.map(bet => {
                                 const game = games.find(g => g.id === bet.gameId);
                                 const outcome = getBetOutcome(bet);
                                 return (
-                                <tr key={bet.id} className="hover:bg-sky-500/10 transition-colors">
+                                <tr key={bet.id} className={`hover:bg-sky-500/10 transition-colors ${bet.status === 'void' ? 'opacity-60' : ''}`}>
                                     <td className="p-4 text-sm text-slate-400 whitespace-nowrap">{bet.timestamp.toLocaleString()}</td>
                                     <td className="p-4 text-white font-medium">{game?.name || 'Unknown'}</td>
                                     <td className="p-4 text-slate-300">
                                         <div className="font-semibold">{bet.subGameType}</div>
                                         <div className="text-xs text-slate-400 break-words" title={bet.numbers.join(', ')}>{bet.numbers.join(', ')}</div>
                                     </td>
-                                    <td className="p-4 text-right text-red-400 font-mono">{bet.totalAmount.toFixed(2)}</td>
-                                    <td className="p-4 text-right text-green-400 font-mono">{outcome.payout > 0 ? outcome.payout.toFixed(2) : '-'}</td>
-                                    <td className="p-4 text-right font-semibold"><span className={outcome.color}>{outcome.status}</span></td>
+                                    <td className="p-4 text-right text-red-400 font-mono">{formatRupees(bet.totalAmount)}</td>
+                                    <td className="p-4 text-right text-green-400 font-mono">{outcome.payout > 0 ? formatRupees(outcome.payout) : '-'}</td>
+                                    <td className="p-4 text-right font-semibold">
+                                        <span className={outcome.color}>{outcome.status}</span>
+                                        {canVoid(bet, game) && (
+                                            <button onClick={() => onVoidBet(bet)} className="ml-3 text-xs bg-red-500/20 hover:bg-red-500/40 text-red-300 font-semibold py-1 px-2 rounded-md transition-colors">Cancel</button>
+                                        )}
+                                    </td>
                                 </tr>);
                            })}
                            {filteredBets.length === 0 && (
                                <tr>
                                    <td colSpan={6} className="p-8 text-center text-slate-500">
-                                       {bets.length === 0 ? "No bets placed yet." : "No bets found matching your filters."}
+                                       {history.isLoading ? 'Loading...' : history.error || (bets.length === 0 ? "No bets placed yet." : "No bets found matching your filters.")}
                                    </td>
                                </tr>
                            )}
                         </tbody>
                     </table>
                 </div>
+                {history.hasMore && (
+                    <button onClick={history.loadMore} disabled={history.isLoading} className="w-full bg-slate-700/50 hover:bg-slate-700 text-sky-400 font-semibold py-2 transition-colors disabled:opacity-50">
+                        {history.isLoading ? 'Loading...' : 'Load older bets'}
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -411,8 +389,9 @@ const formatTime12h = (time24: string) => {
 };
 
 const GameCard: React.FC<{ game: Game; onPlay: (game: Game) => void; isRestricted: boolean; }> = ({ game, onPlay, isRestricted }) => {
-    const { status, text: countdownText } = useCountdown(game.drawTime);
-    const hasFinalWinner = !!game.winningNumber && !game.winningNumber.endsWith('_');
+    const { status, text: countdownText } = useCountdown(game);
+    // A holiday skips the reset, so the result on record is the previous draw's.
+    const hasFinalWinner = !game.isHoliday && !!game.winningNumber && !game.winningNumber.endsWith('_');
     
     // CRITICAL FIX: LS3 and other games should rely on isMarketOpen from backend 
     // to prevent device clock skew from disabling the button early.
@@ -435,6 +414,12 @@ const GameCard: React.FC<{ game: Game; onPlay: (game: Game) => void; isRestricte
                             <div className="text-[10px] uppercase tracking-widest text-emerald-400 font-bold">DRAW RESULT</div>
                             <div className="text-3xl font-mono font-black text-white">{game.winningNumber}</div>
                         </>
+                    ) : game.isSuspended || game.isHoliday ? (
+                        <>
+                            <div className="text-xs uppercase tracking-wider text-slate-400">STATUS</div>
+                            <div className={`text-2xl font-mono font-bold ${game.isSuspended ? 'text-orange-400' : 'text-amber-300'}`}>{game.isSuspended ? 'SUSPENDED' : 'HOLIDAY'}</div>
+                            {game.isHoliday && !game.isSuspended && game.holidayReason && <div className="text-xs text-slate-500 truncate">{game.holidayReason}</div>}
+                        </>
                     ) : isMarketClosedForDisplay ? (
                         <>
                             <div className="text-xs uppercase tracking-wider text-slate-400">STATUS</div>
@@ -460,21 +445,44 @@ const GameCard: React.FC<{ game: Game; onPlay: (game: Game) => void; isRestricte
     );
 };
 
+const LimitViolationList: React.FC<{ violations: NumberLimitViolation[] }> = ({ violations }) => (
+    <div className="bg-amber-500/10 border border-amber-500/30 rounded-md mb-4 overflow-hidden">
+        <div className="px-3 py-2 text-[10px] font-black uppercase tracking-widest text-amber-400 border-b border-amber-500/20">Number Limits Reached</div>
+        <table className="w-full text-xs font-mono">
+            <thead><tr className="text-slate-500 uppercase text-[10px]"><th className="p-2 text-left">Game</th><th className="p-2 text-left">Number</th><th className="p-2 text-right">Requested</th><th className="p-2 text-right">Remaining</th></tr></thead>
+            <tbody className="divide-y divide-slate-800">
+                {violations.map(v => (
+                    <tr key={`${v.gameId}-${v.gameType}-${v.number}`}>
+                        <td className="p-2 text-slate-300">{v.gameName}</td>
+                        <td className="p-2 text-cyan-300 font-bold">{v.gameType === '1-open' ? `${v.number}x` : v.gameType === '1-close' ? `x${v.number}` : v.number}</td>
+                        <td className="p-2 text-right text-white">{v.requested.toLocaleString()}</td>
+                        <td className="p-2 text-right text-amber-300 font-bold">{v.remaining.toLocaleString()}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
 interface BettingModalProps {
     game: Game | null;
     games: Game[];
     user: User;
+    allowance?: BetAllowance;
     onClose: () => void;
     onPlaceBet: (details: any) => Promise<void>;
 }
 
-const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose, onPlaceBet }) => {
+const formatAllowance = (value: number | null) => value === null ? 'No Cap' : `Rs ${value.toLocaleString()}`;
+
+const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, allowance, onClose, onPlaceBet }) => {
     const { fetchWithAuth } = useAuth();
     const [subGameType, setSubGameType] = useState<SubGameType>(SubGameType.TwoDigit);
     const [manualNumbersInput, setManualNumbersInput] = useState('');
     const [manualAmountInput, setManualAmountInput] = useState('');
     const [bulkInput, setBulkInput] = useState('');
     const [error, setError] = useState<string | null>(null);
+    const [limitViolations, setLimitViolations] = useState<NumberLimitViolation[]>([]);
     const [isAiLoading, setIsAiLoading] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isConfirming, setIsConfirming] = useState(false);
@@ -483,15 +491,9 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
     const [generatedCombos, setGeneratedCombos] = useState<any[]>([]);
     const [comboGlobalStake, setComboGlobalStake] = useState('');
 
-    const { text: countdownText } = useCountdown(game?.drawTime || '00:00');
+    const { text: countdownText } = useCountdown(game || { drawTime: '00:00' });
 
-    const availableSubGameTabs = useMemo(() => {
-        if (!game) return [];
-        const allSubGameTypes = [SubGameType.TwoDigit, SubGameType.OneDigitOpen, SubGameType.OneDigitClose, SubGameType.Bulk, SubGameType.Combo];
-        if (game.name === 'AKC') return [SubGameType.OneDigitClose];
-        if (game.name === 'AK') return allSubGameTypes.filter(type => type !== SubGameType.OneDigitClose);
-        return allSubGameTypes;
-    }, [game]);
+    const availableSubGameTabs = useMemo(() => game ? getAvailableSubGameTypes(game) : [], [game]);
 
     useEffect(() => {
         setManualNumbersInput('');
@@ -501,9 +503,15 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
         setGeneratedCombos([]);
         setComboGlobalStake('');
         setError(null);
+        setLimitViolations([]);
         setIsConfirming(false);
     }, [subGameType]);
 
+    // Let the player trim their stakes after a limit rejection without switching tabs.
+    useEffect(() => {
+        if (limitViolations.length > 0) { setError(null); setLimitViolations([]); }
+    }, [manualNumbersInput, manualAmountInput, bulkInput, generatedCombos]);
+
     const handleManualNumberChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
         const rawValue = e.target.value;
         const digitsOnly = rawValue.replace(/\D/g, '');
@@ -574,7 +582,8 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
                 currentLine = currentLine.replace(originalGameNameRegex, '').trim();
             }
             if (!currentGameId) { result.errors.push(`Line "${line}" missing valid game.`); continue; }
-            const gameNameOnLine = games.find(g => g.id === currentGameId)?.name || 'Unknown Game';
+            const gameOnLine = games.find(g => g.id === currentGameId);
+            const gameNameOnLine = gameOnLine?.name || 'Unknown Game';
             
             // Loose Stake Detection: Support "43 rs100" and "43 100"
             const stakeMatch = currentLine.match(/(?:rs|r)?\s*(\d+\.?\d*)$/i);
@@ -586,9 +595,9 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
             betPart = betPart.replace(/\b(k|combo)\b/i, '').trim();
             const tokens = betPart.split(delimiterRegex).filter(Boolean);
             let betItems: any[] = [];
-            const isAkcGame = gameNameOnLine === 'AKC';
+            const isCloseHalfGame = gameOnLine?.kind === 'close-half';
             const determineType = (token: string): SubGameType | null => {
-                if (isAkcGame) return /^[xX]?\d$/.test(token) ? SubGameType.OneDigitClose : null;
+                if (isCloseHalfGame) return /^[xX]?\d$/.test(token) ? SubGameType.OneDigitClose : null;
                 if (/^\d{1,2}$/.test(token)) return SubGameType.TwoDigit;
                 if (/^\d[xX]$/i.test(token)) return SubGameType.OneDigitOpen;
                 if (/^[xX]\d$/i.test(token)) return SubGameType.OneDigitClose;
@@ -607,6 +616,7 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
                 for (const token of tokens) {
                     const tokenType = determineType(token);
                     if (!tokenType) { result.errors.push(`Invalid token '${token}' in "${line}".`); continue; }
+                    if (gameOnLine && !getAvailableSubGameTypes(gameOnLine).includes(tokenType)) { result.errors.push(`${tokenType} is not available in ${gameNameOnLine}.`); continue; }
                     let numberValue = tokenType === SubGameType.TwoDigit ? token.padStart(2, '0') : (tokenType === SubGameType.OneDigitOpen ? token[0] : (token.length === 2 ? token[1] : token[0]));
                     betItems.push({ number: numberValue, subGameType: tokenType });
                 }
@@ -671,15 +681,25 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
         return result;
     }, [manualNumbersInput, manualAmountInput, subGameType]);
 
+    // Numbers in the manual entry whose stake would push the player past their own per-number cap.
+    const manualCapWarnings = useMemo(() => {
+        if (!allowance || parsedManualBet.stake <= 0) return [] as string[];
+        const bucket = subGameType === SubGameType.OneDigitOpen ? '1-open' : subGameType === SubGameType.OneDigitClose ? '1-close' : '2-digit';
+        const cap = bucket === '2-digit' ? allowance.twoDigitLimit : allowance.oneDigitLimit;
+        if (cap === null) return [] as string[];
+        return parsedManualBet.numbers.filter(n => parsedManualBet.stake > cap - (allowance.stakedByNumber[`${bucket}__${n}`] || 0));
+    }, [allowance, parsedManualBet, subGameType]);
+
     const handleBet = async () => {
         if (!game) return;
-        setError(null); setIsSubmitting(true);
+        setError(null); setLimitViolations([]); setIsSubmitting(true);
         try {
             if (subGameType === SubGameType.Combo) {
                 const validBets = generatedCombos.filter(c => c.selected && parseFloat(c.stake) > 0);
                 if (validBets.length === 0) throw new Error("Select combinations and enter stakes.");
                 const totalCost = validBets.reduce((sum, c) => sum + parseFloat(c.stake), 0);
                 if (totalCost > user.wallet) throw new Error(`Insufficient balance.`);
+                if (allowance?.perDrawRemaining != null && totalCost > allowance.perDrawRemaining) throw new Error(`Exceeds your remaining draw allowance of Rs ${allowance.perDrawRemaining.toLocaleString()}.`);
                 const groups = new Map<number, string[]>();
                 validBets.forEach(bet => {
                     const stake = parseFloat(bet.stake);
@@ -709,9 +729,11 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
                 if (parseError) throw new Error(parseError);
                 if (numbers.length === 0) throw new Error("Enter at least one number.");
                 if (totalCost > user.wallet) throw new Error(`Insufficient balance.`);
+                if (allowance?.perDrawRemaining != null && totalCost > allowance.perDrawRemaining) throw new Error(`Exceeds your remaining draw allowance of Rs ${allowance.perDrawRemaining.toLocaleString()}.`);
+                if (manualCapWarnings.length > 0) throw new Error(`Per-number limit exceeded on ${manualCapWarnings.join(', ')}.`);
                 await onPlaceBet({ gameId: game.id, betGroups: [{ subGameType, numbers, amountPerNumber: stake }] });
             }
-        } catch (err: any) { setError(err.message); setIsConfirming(false); } finally { setIsSubmitting(false); }
+        } catch (err: any) { setError(err.message); setLimitViolations(err.violations || []); setIsConfirming(false); } finally { setIsSubmitting(false); }
     };
 
     if (!game) return null;
@@ -758,11 +780,18 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
                         </div>
                     ) : (
                         <>
+                            {allowance && (allowance.perDrawLimit !== null || allowance.twoDigitLimit !== null || allowance.oneDigitLimit !== null) && (
+                                <div className="grid grid-cols-3 gap-2 mb-4 text-center bg-slate-800/50 p-2 rounded-md border border-slate-700">
+                                    <div><p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Draw Allowance Left</p><p className="font-mono font-bold text-emerald-400 text-sm">{formatAllowance(allowance.perDrawRemaining)}</p></div>
+                                    <div><p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">2D Cap / Number</p><p className="font-mono font-bold text-white text-sm">{formatAllowance(allowance.twoDigitLimit)}</p></div>
+                                    <div><p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">1D Cap / Number</p><p className="font-mono font-bold text-white text-sm">{formatAllowance(allowance.oneDigitLimit)}</p></div>
+                                </div>
+                            )}
                             <div className="bg-slate-800/50 p-1.5 rounded-lg flex items-center space-x-2 mb-4 self-start flex-wrap border border-slate-700">
                                 {availableSubGameTabs.map(tab => (<button key={tab} onClick={() => setSubGameType(tab)} className={`flex-auto py-2 px-3 text-sm font-semibold rounded-md transition-all duration-300 active:scale-95 ${subGameType === tab ? 'bg-slate-700 text-sky-400 shadow-lg' : 'text-slate-400 hover:bg-slate-700/50 hover:text-white'}`}>{tab}</button>))}
                             </div>
                             {subGameType === SubGameType.Bulk ? (
-                                <><div className="mb-2"><label className="block text-slate-400 mb-1 text-sm font-medium">Super Bulk Entry</label><textarea value={bulkInput} onChange={e => setBulkInput(e.target.value)} rows={6} placeholder={"Format:\n43,9x,x2 20\nLS2 01,58 50"} className="w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-sky-500 focus:outline-none text-white font-mono" /></div>{parsedBulkBet.betsByGame.size > 0 && (<div className="mb-4 bg-slate-800 p-3 rounded-md border border-slate-700 max-h-40 overflow-y-auto space-y-2">{Array.from(parsedBulkBet.betsByGame.entries()).map(([gameId, gameData]: any) => (<div key={gameId} className="p-2 rounded-md bg-green-500/10 border-l-4 border-green-500"><div className="flex justify-between items-center font-mono text-sm"><span className="font-bold text-white">{gameData.gameName}</span><div className="flex items-center gap-4 text-xs"><span className="text-slate-300">Bets: <span className="font-bold text-white">{gameData.totalNumbers}</span></span><span className="text-slate-300">Cost: <span className="font-bold text-white">{gameData.totalCost.toFixed(2)}</span></span></div></div></div>))}</div>)}<div className="text-sm bg-slate-800/50 p-3 rounded-md mb-4 grid grid-cols-2 gap-2 text-center border border-slate-700"><div><p className="text-slate-400 text-xs uppercase">Total Bets</p><p className="font-bold text-white text-lg">{parsedBulkBet.grandTotalNumbers}</p></div><div><p className="text-slate-400 text-xs uppercase">Total Cost</p><p className="font-bold text-red-400 text-lg font-mono">{parsedBulkBet.grandTotalCost.toFixed(2)}</p></div></div></>
+                                <><div className="mb-2"><label className="block text-slate-400 mb-1 text-sm font-medium">Super Bulk Entry</label><textarea value={bulkInput} onChange={e => setBulkInput(e.target.value)} rows={6} placeholder={"Format:\n43,9x,x2 20\nLS2 01,58 50"} className="w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-sky-500 focus:outline-none text-white font-mono" /></div>{parsedBulkBet.betsByGame.size > 0 && (<div className="mb-4 bg-slate-800 p-3 rounded-md border border-slate-700 max-h-40 overflow-y-auto space-y-2">{Array.from(parsedBulkBet.betsByGame.entries()).map(([gameId, gameData]: any) => (<div key={gameId} className="p-2 rounded-md bg-green-500/10 border-l-4 border-green-500"><div className="flex justify-between items-center font-mono text-sm"><span className="font-bold text-white">{gameData.gameName}</span><div className="flex items-center gap-4 text-xs"><span className="text-slate-300">Bets: <span className="font-bold text-white">{gameData.totalNumbers}</span></span><span className="text-slate-300">Cost: <span className="font-bold text-white">{formatRupees(gameData.totalCost)}</span></span></div></div></div>))}</div>)}<div className="text-sm bg-slate-800/50 p-3 rounded-md mb-4 grid grid-cols-2 gap-2 text-center border border-slate-700"><div><p className="text-slate-400 text-xs uppercase">Total Bets</p><p className="font-bold text-white text-lg">{parsedBulkBet.grandTotalNumbers}</p></div><div><p className="text-slate-400 text-xs uppercase">Total Cost</p><p className="font-bold text-red-400 text-lg font-mono">{formatRupees(parsedBulkBet.grandTotalCost)}</p></div></div></>
                             ) : subGameType === SubGameType.Combo ? (
                                 <><div className="mb-4"><label className="block text-slate-400 mb-1 text-sm font-medium">Combo Digits (3-6)</label><div className="flex gap-2"><input type="text" value={comboDigitsInput} onChange={e => setComboDigitsInput(e.target.value)} placeholder="e.g. 123" className="w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-sky-500 focus:outline-none text-white font-mono" maxLength={6}/><button onClick={handleGenerateCombos} className="bg-sky-600 hover:bg-sky-500 text-white font-bold py-2 px-4 rounded-md whitespace-nowrap active:translate-y-0.5">Generate</button></div></div>{generatedCombos.length > 0 && (<><div className="mb-4"><label className="block text-slate-400 mb-1 text-sm font-medium">Apply Stake to All</label><div className="flex gap-2"><input type="number" value={comboGlobalStake} onChange={e => setComboGlobalStake(e.target.value)} placeholder="e.g. 10" className="w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-sky-500 focus:outline-none text-white font-mono" /><button onClick={handleApplyGlobalStake} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-md active:translate-y-0.5">Apply</button></div></div><div className="bg-slate-800 p-3 rounded-md border border-slate-700 max-h-48 overflow-y-auto space-y-2">{generatedCombos.map((combo, index) => (
                                     <div key={index} className="flex items-center p-2 rounded-md hover:bg-slate-700/50">
@@ -777,6 +806,8 @@ const BettingModal: React.FC<BettingModalProps> = ({ game, games, user, onClose,
                                 <><div className="mb-4"><div className="flex justify-between items-end mb-1"><label className="block text-slate-400 text-sm font-medium">Enter Number(s)</label><button onClick={handleAiLuckyPick} disabled={isAiLoading} className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-cyan-400 hover:text-cyan-300 disabled:opacity-50 transition-all mb-1 active:scale-95">{isAiLoading ? <div className="w-3 h-3 border-2 border-cyan-400/20 border-t-cyan-400 rounded-full animate-spin"></div> : Icons.sparkles} AI Pick</button></div><textarea value={manualNumbersInput} onChange={handleManualNumberChange} rows={3} placeholder={subGameType === SubGameType.TwoDigit ? "e.g. 14, 05" : "e.g. 1, 2, 9"} className="w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-sky-500 focus:outline-none text-white font-mono" /></div><div className="mb-4"><label className="block text-slate-400 mb-1 text-sm font-medium">Amount per Number</label><input type="number" value={manualAmountInput} onChange={e => setManualAmountInput(e.target.value)} placeholder="e.g. 10" className="w-full bg-slate-800 p-2.5 rounded-md border border-slate-600 focus:ring-2 focus:ring-sky-500 focus:outline-none text-white font-mono" /></div><div className="text-sm bg-slate-800/50 p-3 rounded-md mb-4 grid grid-cols-3 gap-2 text-center border border-slate-700"><div><p className="text-slate-400 text-xs uppercase">Count</p><p className="font-bold text-white text-lg">{parsedManualBet.numberCount}</p></div><div><p className="text-slate-400 text-xs uppercase">Stake</p><p className="font-bold text-white text-lg font-mono">{parsedManualBet.stake}</p></div><div><p className="text-slate-400 text-xs uppercase">Total</p><p className="font-bold text-red-400 text-lg font-mono">{parsedManualBet.totalCost}</p></div></div></>
                             )}
                             {error && <div className="bg-red-500/20 border border-red-500/30 text-red-300 text-xs p-3 rounded-md mb-4">{error}</div>}
+                            {limitViolations.length > 0 && <LimitViolationList violations={limitViolations} />}
+                            {manualCapWarnings.length > 0 && <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs p-3 rounded-md mb-4">Your per-number limit would be exceeded on: <span className="font-mono font-bold">{manualCapWarnings.join(', ')}</span></div>}
                             <div className="flex justify-end pt-2"><button onClick={() => { if (finalBetTotalCost > 0 && !error) setIsConfirming(true); }} disabled={finalBetTotalCost <= 0 || !!error} className="bg-sky-600 hover:bg-sky-500 text-white font-bold py-2.5 px-6 rounded-md transition-colors disabled:opacity-50 active:translate-y-0.5 shadow-lg">PLACE BET</button></div>
                         </>
                     )}
@@ -790,10 +821,13 @@ interface UserPanelProps {
   user: User;
   games: Game[];
   bets: Bet[];
+  allowances: BetAllowance[];
+  betVoidGraceMinutes: number;
   placeBet: (details: any) => Promise<void>;
+  voidBet: (betId: string) => Promise<void>;
 }
 
-const UserPanel: React.FC<UserPanelProps> = ({ user, games, bets, placeBet }) => {
+const UserPanel: React.FC<UserPanelProps> = ({ user, games, bets, allowances, betVoidGraceMinutes, placeBet, voidBet }) => {
     const [selectedGame, setSelectedGame] = useState<Game | null>(null);
     const [toast, setToast] = useState<{ msg: string; type: 'success' | 'error' } | null>(null);
 
@@ -808,6 +842,16 @@ const UserPanel: React.FC<UserPanelProps> = ({ user, games, bets, placeBet }) =>
         }
     };
 
+    const handleVoidBet = async (bet: Bet) => {
+        if (!window.confirm(`Cancel this bet of PKR ${formatRupees(bet.totalAmount)}? The stake will be refunded to your wallet.`)) return;
+        try {
+            await voidBet(bet.id);
+            setToast({ msg: "Bet cancelled and stake refunded.", type: 'success' });
+        } catch (err: any) {
+            setToast({ msg: err.message || "Failed to cancel bet.", type: 'error' });
+        }
+    };
+
     return (
         <div className="p-4 md:p-6 lg:p-8 max-w-7xl mx-auto">
             {toast && <Toast message={toast.msg} type={toast.type} onClose={() => setToast(null)} />}
@@ -819,7 +863,7 @@ const UserPanel: React.FC<UserPanelProps> = ({ user, games, bets, placeBet }) =>
                 </div>
                 <div className="bg-slate-800/50 px-6 py-3 rounded-xl border border-slate-700 shadow-lg flex flex-col items-end">
                     <p className="text-xs text-slate-500 uppercase font-bold tracking-widest mb-1">Available Wallet</p>
-                    <p className="text-2xl font-black text-cyan-400 font-mono">PKR {user.wallet.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                    <p className="text-2xl font-black text-cyan-400 font-mono">PKR {formatRupees(user.wallet)}</p>
                 </div>
             </div>
 
@@ -841,14 +885,15 @@ const UserPanel: React.FC<UserPanelProps> = ({ user, games, bets, placeBet }) =>
                     game={selectedGame} 
                     games={games}
                     user={user} 
+                    allowance={allowances.find(a => a.gameId === selectedGame.id)}
                     onClose={() => setSelectedGame(null)} 
                     onPlaceBet={handlePlaceBet}
                 />
             )}
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-12">
-                <BetHistoryView bets={bets} games={games} user={user} />
-                <LedgerView entries={user.ledger} />
+                <BetHistoryView bets={bets} games={games} voidGraceMinutes={betVoidGraceMinutes} onVoidBet={handleVoidBet} />
+                <LedgerView wallet={user.wallet} />
             </div>
         </div>
     );
@@ -36,7 +36,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         localStorage.removeItem('authToken');
     }, []);
 
-    // FIX: fetchWithAuth no longer throws on non-2xx responses (except 401/403).
+    // FIX: fetchWithAuth no longer throws on non-2xx responses (except 401).
     // It returns the raw Response so callers can inspect response.ok and read
     // the body themselves. This prevents the "dead error handler" and "already 
     // consumed body" bugs that occurred when fetchWithAuth threw eagerly.
@@ -48,8 +48,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         const response = await fetch(url, { ...options, headers });
 
-        // Session-ending statuses — log out immediately.
-        if (response.status === 401 || response.status === 403) {
+        // Session-ending status — log out immediately. A 403 is a refused action and is left to the caller.
+        if (response.status === 401) {
             logout();
             throw new Error('Session expired');
         }
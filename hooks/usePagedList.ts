@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Bet, LedgerEntry, Page } from '../types';
+import { useAuth } from './useAuth';
+
+export const toLedgerEntry = (row: any): LedgerEntry => ({ ...row, timestamp: new Date(row.timestamp) });
+export const toBet = (row: any): Bet => ({ ...row, timestamp: new Date(row.timestamp) });
+
+// A refresh key for the bet lists that only moves when a bet is placed, settled or voided; App hands down a new
+// bets array on every sync whether or not anything changed.
+export const getBetsRefreshKey = (bets: Bet[]) => bets.length + '|' + bets.reduce((latest, bet) => {
+    const changedAt = [new Date(bet.timestamp).toISOString(), bet.settledAt || '', bet.voidedAt || ''].sort()[2];
+    return changedAt > latest ? changedAt : latest;
+}, '');
+
+interface PagedListOptions {
+    // The first page is refetched whenever this changes; pass a value that only moves with the data (e.g. the wallet).
+    refreshKey?: unknown;
+    enabled?: boolean;
+}
+
+// Pages through /api/ledger or /api/bets. Changing the query starts again from the first page; loadMore appends the next.
+// A refresh merges the new first page over what is loaded, so pages already loaded stay.
+export const usePagedList = <T extends { id: string },>(path: string, query: Record<string, string>, parse: (row: any) => T, { refreshKey, enabled = true }: PagedListOptions = {}) => {
+    const { fetchWithAuth } = useAuth();
+    const [items, setItems] = useState<T[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [summary, setSummary] = useState<Page<T>['summary']>();
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Responses to a superseded query (the user kept typing) are dropped.
+    const requestRef = useRef(0);
+    const loadedMoreRef = useRef(false);
+    const lastFetchRef = useRef<unknown>(null);
+    const parseRef = useRef(parse);
+    parseRef.current = parse;
+    const queryString = new URLSearchParams(Object.entries(query).filter(([, value]) => value !== '')).toString();
+
+    const fetchPage = useCallback(async (cursor: string | null, refresh = false) => {
+        const request = ++requestRef.current;
+        setIsLoading(true);
+        try {
+            const params = new URLSearchParams(queryString);
+            if (cursor) params.set('cursor', cursor);
+            const response = await fetchWithAuth(`${path}?${params}`);
+            if (!response.ok) { const err = await response.json().catch(() => ({})); throw new Error(err.message || 'Failed to load history.'); }
+            const page: Page<any> = await response.json();
+            if (request !== requestRef.current) return;
+            const rows = page.items.map(row => parseRef.current(row));
+            const without = (list: T[], ids: Set<string>) => list.filter(item => !ids.has(item.id));
+            if (cursor) {
+                loadedMoreRef.current = true;
+                setItems(prev => [...prev, ...without(rows, new Set(prev.map(item => item.id)))]);
+            } else if (refresh) {
+                setItems(prev => [...rows, ...without(prev, new Set(rows.map(item => item.id)))]);
+            } else {
+                loadedMoreRef.current = false;
+                setItems(rows);
+            }
+            if (cursor || !refresh || !loadedMoreRef.current) setNextCursor(page.nextCursor);
+            if (!cursor) setSummary(page.summary);
+            setError(null);
+        } catch (e: any) {
+            if (request === requestRef.current) setError(e.message || 'Failed to load history.');
+        } finally {
+            if (request === requestRef.current) setIsLoading(false);
+        }
+    }, [fetchWithAuth, path, queryString]);
+
+    useEffect(() => {
+        if (!enabled) {
+            lastFetchRef.current = null;
+            requestRef.current++; setItems([]); setNextCursor(null); setSummary(undefined); setIsLoading(false);
+            return;
+        }
+        // Same query as last time: only refreshKey moved.
+        const refresh = lastFetchRef.current === fetchPage;
+        lastFetchRef.current = fetchPage;
+        fetchPage(null, refresh);
+    }, [fetchPage, enabled, refreshKey]);
+
+    const loadMore = useCallback(() => {
+        if (nextCursor && !isLoading) fetchPage(nextCursor);
+    }, [fetchPage, nextCursor, isLoading]);
+
+    return { items, summary, hasMore: nextCursor !== null, isLoading, error, loadMore };
+};
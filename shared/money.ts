@@ -0,0 +1,48 @@
+// Money rules shared by the Express backend (compiled to backend/shared/money.js by
+// `npm run build:shared`) and the React panels.
+//
+// The database stores every amount as integer paisa (1 rupee = 100 paisa) and all arithmetic on
+// stakes, commissions, prizes and balances happens in paisa, so sums are exact. Rupees only exist
+// at the edges: request bodies, API JSON and what the panels print. Whenever a rate or multiplier
+// produces a fraction of a paisa it is rounded half away from zero, once, at that step.
+
+export type Paisa = number;
+
+export const PAISA_PER_RUPEE = 100;
+
+export const roundPaisa = (value: number): Paisa => {
+    const rounded = Math.round(Math.abs(value));
+    return rounded === 0 ? 0 : value < 0 ? -rounded : rounded;
+};
+
+// toPrecision(15) drops binary noise first, so 1.005 rupees is 101 paisa rather than 100.
+export const toPaisa = (rupees: number | string | null | undefined): Paisa => {
+    const value = Number(rupees);
+    if (!Number.isFinite(value)) return 0;
+    return roundPaisa(Number((value * PAISA_PER_RUPEE).toPrecision(15)));
+};
+
+export const toRupees = (paisa: Paisa): number => (Number(paisa) || 0) / PAISA_PER_RUPEE;
+
+export const isPaisa = (value: unknown): value is Paisa => typeof value === 'number' && Number.isSafeInteger(value);
+
+// Rates are percentages (commissionRate 5 = 5%); multipliers are prize rates such as 90x.
+export const percentOf = (paisa: Paisa, percent: number): Paisa => roundPaisa(paisa * (Number(percent) || 0) / 100);
+export const multiply = (paisa: Paisa, factor: number): Paisa => roundPaisa(paisa * (Number(factor) || 0));
+
+export const sumPaisa = (values: Paisa[]): Paisa => values.reduce((total, v) => total + v, 0);
+
+// Rupee amounts entered by a person: positive and at most two decimal places.
+export const parseRupeeAmount = (input: unknown): Paisa | null => {
+    const value = typeof input === 'string' ? input.trim() : input;
+    if (value === '' || value === null || value === undefined) return null;
+    const rupees = Number(value);
+    if (!Number.isFinite(rupees) || rupees <= 0) return null;
+    const paisa = toPaisa(rupees);
+    return Math.abs(paisa / PAISA_PER_RUPEE - rupees) < 1e-9 && isPaisa(paisa) ? paisa : null;
+};
+
+export const formatRupees = (rupees: number, fractionDigits = 2): string =>
+    (Number(rupees) || 0).toLocaleString('en-US', { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+
+export const formatPaisa = (paisa: Paisa, fractionDigits = 2): string => formatRupees(toRupees(paisa), fractionDigits);
@@ -0,0 +1,86 @@
+// Market schedule shared by the Express backend (compiled to backend/shared/schedule.js
+// by `npm run build:shared`) and the React countdown hook.
+//
+// A game opens at its openTime, closes closeBufferMinutes before its drawTime (rolling past
+// midnight when the draw is earlier in the day than the open, e.g. AKC 00:55 or LS3 02:10)
+// and its next cycle starts at the following openTime. Times are HH:MM wall-clock values in
+// the market timezone; every returned instant is a real UTC Date.
+
+export interface GameSchedule {
+    drawTime: string;
+    openTime?: string;
+    closeBufferMinutes?: number;
+}
+
+export interface MarketCycle {
+    openAt: Date;
+    closeAt: Date;
+    drawAt: Date;
+    nextOpenAt: Date;
+}
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+// PKT is UTC+5 all year round.
+export const PKT_UTC_OFFSET_MINUTES = 5 * 60;
+export const DEFAULT_OPEN_TIME = '16:00';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidTime = (value: unknown): value is string => typeof value === 'string' && TIME_PATTERN.test(value);
+
+const parseTime = (value: string) => {
+    const [hours, minutes] = value.split(':').map(n => parseInt(n, 10));
+    return { hours, minutes };
+};
+
+export const getMarketCycle = (game: GameSchedule, now: Date, utcOffsetMinutes: number = PKT_UTC_OFFSET_MINUTES): MarketCycle => {
+    const offsetMs = utcOffsetMinutes * MINUTE_MS;
+    // Shift into the market timezone so the UTC fields read as local wall-clock time.
+    const localNow = new Date(now.getTime() + offsetMs);
+    const open = parseTime(game.openTime || DEFAULT_OPEN_TIME);
+    const draw = parseTime(game.drawTime);
+
+    const localOpen = new Date(localNow);
+    localOpen.setUTCHours(open.hours, open.minutes, 0, 0);
+    if (localOpen > localNow) localOpen.setUTCDate(localOpen.getUTCDate() - 1);
+
+    const localDraw = new Date(localOpen);
+    localDraw.setUTCHours(draw.hours, draw.minutes, 0, 0);
+    if (localDraw <= localOpen) localDraw.setUTCDate(localDraw.getUTCDate() + 1);
+
+    const openAt = new Date(localOpen.getTime() - offsetMs);
+    const drawAt = new Date(localDraw.getTime() - offsetMs);
+    return {
+        openAt,
+        drawAt,
+        closeAt: new Date(drawAt.getTime() - (Number(game.closeBufferMinutes) || 0) * MINUTE_MS),
+        nextOpenAt: new Date(openAt.getTime() + DAY_MS),
+    };
+};
+
+// Calendar date (YYYY-MM-DD) of an instant in the market timezone. A cycle belongs to the
+// date it opens on, so this is what the holiday calendar is keyed by.
+export const getMarketDate = (instant: Date, utcOffsetMinutes: number = PKT_UTC_OFFSET_MINUTES): string =>
+    new Date(instant.getTime() + utcOffsetMinutes * MINUTE_MS).toISOString().slice(0, 10);
+
+// The date a game's cycle opened on identifies that cycle; bets and draws are filed under it.
+export const getCycleDate = (game: GameSchedule, now: Date, utcOffsetMinutes: number = PKT_UTC_OFFSET_MINUTES): string =>
+    getMarketDate(getMarketCycle(game, now, utcOffsetMinutes).openAt, utcOffsetMinutes);
+
+export const isMarketOpen = (game: GameSchedule, now: Date, utcOffsetMinutes: number = PKT_UTC_OFFSET_MINUTES): boolean => {
+    if (!game || !isValidTime(game.drawTime)) return false;
+    const { openAt, closeAt } = getMarketCycle(game, now, utcOffsetMinutes);
+    return now >= openAt && now < closeAt;
+};
+
+// Binds the calculations to a clock and timezone; tests inject a fixed clock.
+export const createMarketSchedule = (clock: Clock = systemClock, utcOffsetMinutes: number = PKT_UTC_OFFSET_MINUTES) => ({
+    now: clock,
+    getCycle: (game: GameSchedule) => getMarketCycle(game, clock(), utcOffsetMinutes),
+    isOpen: (game: GameSchedule) => isMarketOpen(game, clock(), utcOffsetMinutes),
+});
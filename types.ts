@@ -17,6 +17,8 @@ export interface LedgerEntry {
   debit: number;
   credit: number;
   balance: number;
+  // Shared by every leg of the same posting; null on entries written before journal postings.
+  journalId?: string | null;
 }
 
 export interface BaseAccount {
@@ -42,12 +44,17 @@ export interface User extends BaseAccount {
   dealerId: string;
   prizeRates: PrizeRates;
   betLimits: BetLimits;
+  // Set once the dealer has closed the account; it stays listed for its history.
+  closedAt?: string | null;
 }
 
 export interface Dealer extends BaseAccount {
   prizeRates: PrizeRates;
 }
 
+// What an admin login may change; an admin with none is view-only.
+export type AdminPermission = 'results' | 'payouts' | 'funding' | 'limits' | 'accounts' | 'bets' | 'games' | 'admins';
+
 export interface Admin {
   id: string;
   name: string;
@@ -56,6 +63,28 @@ export interface Admin {
   prizeRates: PrizeRates;
   avatarUrl?: string;
   ledger: LedgerEntry[];
+  permissions?: AdminPermission[];
+}
+
+// 'open-half' games draw the open digit and are completed by the 'close-half' game whose parentGameId points at them.
+export type GameKind = 'standard' | 'open-half' | 'close-half';
+
+// One archived result per game per cycle date, from /api/games/:id/results.
+export interface DrawResult {
+  cycleDate: string;
+  winningNumber: string;
+  declaredAt: string | null;
+  payoutsApprovedAt: string | null;
+}
+
+// Holiday calendar entry; a null gameId closes every market on that date.
+export interface MarketClosure {
+  id: number;
+  gameId: string | null;
+  date: string;
+  reason: string;
+  createdBy: string;
+  createdAt: string;
 }
 
 export interface Game {
@@ -63,9 +92,24 @@ export interface Game {
   name:string;
   logo: string;
   drawTime: string;
+  openTime?: string;
+  closeBufferMinutes?: number;
   winningNumber?: string;
   payoutsApproved?: boolean;
   isMarketOpen?: boolean;
+  kind: GameKind;
+  parentGameId?: string | null;
+  isArchived?: boolean;
+  isSuspended?: boolean;
+  isHoliday?: boolean;
+  holidayReason?: string | null;
+  autoApproveMinutes?: number | null;
+  approvalHeld?: boolean;
+  autoApproveAt?: string | null;
+  declaredBy?: string | null;
+  confirmedBy?: string | null;
+  confirmedAt?: string | null;
+  awaitingConfirmation?: boolean;
 }
 
 export enum SubGameType {
@@ -76,6 +120,8 @@ export enum SubGameType {
     Combo = "Combo Game",
 }
 
+export type BetStatus = 'pending' | 'won' | 'lost' | 'void';
+
 export interface Bet {
   id: string;
   userId: string;
@@ -86,6 +132,18 @@ export interface Bet {
   amountPerNumber: number;
   totalAmount: number;
   timestamp: Date;
+  cycleDate?: string;
+  status?: BetStatus;
+  userCommission?: number | null;
+  dealerCommission?: number | null;
+  voidedAt?: string | null;
+  voidedBy?: string | null;
+  winningNumbers?: string[] | null;
+  payout?: number | null;
+  dealerProfit?: number | null;
+  settledAt?: string | null;
+  // Result of the draw the bet was settled on, set with the other settlement fields.
+  drawNumber?: string | null;
 }
 
 export interface NumberLimit {
@@ -93,4 +151,150 @@ export interface NumberLimit {
   gameType: '1-open' | '1-close' | '2-digit';
   numberValue: string;
   limitAmount: number;
-}
\ No newline at end of file
+  gameId?: string | null;
+  dealerId?: string | null;
+}
+
+export interface NumberLimitViolation {
+  gameId: string;
+  gameName: string;
+  gameType: NumberLimit['gameType'];
+  number: string;
+  scope: 'game-dealer' | 'game' | 'dealer' | 'global';
+  limitAmount: number;
+  currentStake: number;
+  requested: number;
+  remaining: number;
+}
+
+export interface BetPlacementError extends Error {
+  violations?: NumberLimitViolation[];
+}
+
+export interface BetAllowance {
+  gameId: string;
+  oneDigitLimit: number | null;
+  twoDigitLimit: number | null;
+  perDrawLimit: number | null;
+  perDrawUsed: number;
+  perDrawRemaining: number | null;
+  stakedByNumber: Record<string, number>;
+}
+
+export interface Resettlement {
+  id: string;
+  gameId: string;
+  previousNumber: string;
+  newNumber: string;
+  reason: string;
+  actorId: string;
+  timestamp: string;
+  reversedAmount: number;
+  // 0 when the corrected result was left waiting for a second admin's confirmation.
+  reappliedAmount: number;
+}
+
+// Background job from /api/admin/jobs; names are '<type>:<argument>', e.g. 'game-reset:g1'.
+export interface Job {
+  name: string;
+  scheduledFor: string;
+  lastRunAt: string | null;
+  lastStatus: 'ok' | 'failed' | null;
+  lastError: string | null;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+}
+
+// Admin login from /api/admin/admins; the primary admin always has every permission.
+export interface AdminSummary {
+  id: string;
+  name: string;
+  avatarUrl?: string | null;
+  permissions: AdminPermission[];
+  isPrimary: boolean;
+}
+
+// One page of /api/ledger or /api/bets. Bet pages carry totals for the whole result on the first page.
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  summary?: { count: number; totalStake: number };
+}
+
+// Result of walking every account's ledger hash chain. 'link': an entry before this one was removed,
+// inserted or reordered; 'content': this entry was edited after it was written.
+export interface LedgerVerification {
+  checkedAt: string;
+  accounts: number;
+  entries: number;
+  ok: boolean;
+  breaks: {
+    accountType: string;
+    accountId: string;
+    entryId: string;
+    timestamp: string;
+    description: string;
+    reason: 'link' | 'content';
+  }[];
+  // Journals whose legs do not sum to zero (net in rupees) or that have a single leg.
+  unbalancedJournals: {
+    journalId: string;
+    legs: number;
+    net: number;
+  }[];
+}
+
+// All legs of one posting, from /api/ledger/:entryId/journal. balance is null on accounts the viewer cannot see.
+export interface JournalLeg {
+  id: string;
+  accountType: 'USER' | 'DEALER' | 'ADMIN' | 'TREASURY';
+  accountId: string;
+  timestamp: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number | null;
+}
+
+export interface Journal {
+  journalId: string | null;
+  entryId: string;
+  legs: JournalLeg[];
+}
+
+// Accounts whose wallet differs from the balance of their last ledger entry. Amounts are rupees.
+export interface WalletReconciliation {
+  checkedAt: string;
+  accounts: number;
+  ok: boolean;
+  mismatches: {
+    accountType: string;
+    accountId: string;
+    name: string;
+    wallet: number;
+    ledgerBalance: number;
+    difference: number;
+  }[];
+}
+
+// Row of the append-only audit log. before / after are JSON snapshots of the changed row (after may be the request body).
+export interface AuditEvent {
+  id: number;
+  timestamp: string;
+  actorId: string | null;
+  actorRole: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  before: string | null;
+  after: string | null;
+  ip: string | null;
+}
+
+// The house's own account. Stakes, payouts and dealer funding post here; admins operate on it but hold no money.
+export interface Treasury {
+  id: string;
+  name: string;
+  wallet: number;
+  ledger: LedgerEntry[];
+}